@@ -5,6 +5,8 @@ import '@typechain/hardhat'
 import 'hardhat-abi-exporter'
 import { subtask } from 'hardhat/config'
 import { TASK_COMPILE_SOLIDITY_GET_SOURCE_PATHS } from 'hardhat/builtin-tasks/task-names'
+import './tasks/automation'
+import './tasks/cron'
 
 const COMPILER_SETTINGS = {
   optimizer: {
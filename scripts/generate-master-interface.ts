@@ -0,0 +1,99 @@
+/**
+ * @description this script generates the master interfaces for interacting with contracts which are split
+ * across several contracts, ex. the automation registries and their logic contracts
+ * @notice run this script with pnpm ts-node ./scripts/generate-master-interface.ts [name...] to generate the
+ * named interfaces, or all of them if none are named
+ * @notice pass --check to verify the interfaces are up to date instead of regenerating them
+ * @notice to generate a new master interface, add it to the table below. Leave out its interfaceABI until it
+ * has been generated and compiled once.
+ */
+import { KeeperRegistry2_1__factory as Registry2_1 } from '../typechain/factories/KeeperRegistry2_1__factory'
+import { KeeperRegistryLogicA2_1__factory as RegistryLogicA2_1 } from '../typechain/factories/KeeperRegistryLogicA2_1__factory'
+import { KeeperRegistryLogicB2_1__factory as RegistryLogicB2_1 } from '../typechain/factories/KeeperRegistryLogicB2_1__factory'
+import { IKeeperRegistryMaster__factory as RegistryMaster2_1 } from '../typechain/factories/IKeeperRegistryMaster__factory'
+import { AutomationRegistry2_2__factory as Registry2_2 } from '../typechain/factories/AutomationRegistry2_2__factory'
+import { AutomationRegistryLogicA2_2__factory as RegistryLogicA2_2 } from '../typechain/factories/AutomationRegistryLogicA2_2__factory'
+import { AutomationRegistryLogicB2_2__factory as RegistryLogicB2_2 } from '../typechain/factories/AutomationRegistryLogicB2_2__factory'
+import { IAutomationRegistryMaster__factory as RegistryMaster2_2 } from '../typechain/factories/IAutomationRegistryMaster__factory'
+import { AutomationRegistry2_3__factory as Registry2_3 } from '../typechain/factories/AutomationRegistry2_3__factory'
+import { AutomationRegistryLogicA2_3__factory as RegistryLogicA2_3 } from '../typechain/factories/AutomationRegistryLogicA2_3__factory'
+import { AutomationRegistryLogicB2_3__factory as RegistryLogicB2_3 } from '../typechain/factories/AutomationRegistryLogicB2_3__factory'
+import { AutomationRegistryLogicC2_3__factory as RegistryLogicC2_3 } from '../typechain/factories/AutomationRegistryLogicC2_3__factory'
+import { IAutomationRegistryMaster2_3__factory as RegistryMaster2_3 } from '../typechain/factories/IAutomationRegistryMaster2_3__factory'
+import { ZKSyncAutomationRegistry2_3__factory as ZKSyncRegistry2_3 } from '../typechain/factories/ZKSyncAutomationRegistry2_3__factory'
+import { ZKSyncAutomationRegistryLogicA2_3__factory as ZKSyncRegistryLogicA2_3 } from '../typechain/factories/ZKSyncAutomationRegistryLogicA2_3__factory'
+import { ZKSyncAutomationRegistryLogicB2_3__factory as ZKSyncRegistryLogicB2_3 } from '../typechain/factories/ZKSyncAutomationRegistryLogicB2_3__factory'
+import { ZKSyncAutomationRegistryLogicC2_3__factory as ZKSyncRegistryLogicC2_3 } from '../typechain/factories/ZKSyncAutomationRegistryLogicC2_3__factory'
+import { IZKSyncAutomationRegistryMaster2_3__factory as ZKSyncRegistryMaster2_3 } from '../typechain/factories/IZKSyncAutomationRegistryMaster2_3__factory'
+import { main, MasterInterface } from './lib/master-interface'
+
+// check / callback / simulate functions are only ever called offchain, so the registry interfaces mark them as view
+const registryViewFunctions = [
+  'checkUpkeep',
+  'checkCallback',
+  'simulatePerformUpkeep',
+]
+
+export const masterInterfaces: MasterInterface[] = [
+  {
+    name: 'IKeeperRegistryMaster',
+    dest: 'src/v0.8/automation/interfaces/v2_1',
+    abis: [Registry2_1.abi, RegistryLogicA2_1.abi, RegistryLogicB2_1.abi],
+    interfaceABI: RegistryMaster2_1.abi,
+    viewFunctions: registryViewFunctions,
+    solidityVersion: '^0.8.4',
+  },
+  {
+    name: 'IAutomationRegistryMaster',
+    dest: 'src/v0.8/automation/interfaces/v2_2',
+    abis: [Registry2_2.abi, RegistryLogicA2_2.abi, RegistryLogicB2_2.abi],
+    interfaceABI: RegistryMaster2_2.abi,
+    viewFunctions: registryViewFunctions,
+    solidityVersion: '^0.8.4',
+  },
+  {
+    name: 'IAutomationRegistryMaster2_3',
+    dest: 'src/v0.8/automation/interfaces/v2_3',
+    abis: [
+      Registry2_3.abi,
+      RegistryLogicA2_3.abi,
+      RegistryLogicB2_3.abi,
+      RegistryLogicC2_3.abi,
+    ],
+    interfaceABI: RegistryMaster2_3.abi,
+    viewFunctions: registryViewFunctions,
+    solidityVersion: '^0.8.4',
+  },
+  {
+    name: 'IZKSyncAutomationRegistryMaster2_3',
+    dest: 'src/v0.8/automation/interfaces/zksync',
+    abis: [
+      ZKSyncRegistry2_3.abi,
+      ZKSyncRegistryLogicA2_3.abi,
+      ZKSyncRegistryLogicB2_3.abi,
+      ZKSyncRegistryLogicC2_3.abi,
+    ],
+    interfaceABI: ZKSyncRegistryMaster2_3.abi,
+    viewFunctions: registryViewFunctions,
+    solidityVersion: '^0.8.19',
+    solhintDisable: true,
+  },
+]
+
+/**
+ * @notice looks up a master interface in the table by name
+ */
+export function getMasterInterface(name: string): MasterInterface {
+  const master = masterInterfaces.find((m) => m.name === name)
+  if (!master) {
+    throw Error(`unknown master interface ${name}`)
+  }
+  return master
+}
+
+if (require.main === module) {
+  main(masterInterfaces, process.argv.slice(2)).catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+}
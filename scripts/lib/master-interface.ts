@@ -0,0 +1,319 @@
+/**
+ * @description logic for generating the master interface of a contract which is split across several
+ * contracts (ex. a registry and its logic contracts), from the ABIs of those contracts, and for
+ * checking that a generated interface is still up to date with them
+ */
+import { utils } from 'ethers'
+import fs from 'fs'
+import { spawn } from 'child_process'
+
+type ABIParam = {
+  type: string
+  name?: string
+  indexed?: boolean
+  components?: ABIParam[]
+}
+
+type ABIEntry = {
+  type: string
+  name?: string
+  inputs?: ABIParam[]
+  outputs?: ABIParam[]
+  stateMutability?: string
+  anonymous?: boolean
+  [key: string]: unknown
+}
+export type ABI = ReadonlyArray<ABIEntry>
+
+export type MasterInterface = {
+  /**
+   * The name of the generated interface, ex. IAutomationRegistryMaster2_3
+   */
+  name: string
+  /**
+   * The directory the interface is generated in
+   */
+  dest: string
+  /**
+   * The ABIs of the contracts the interface combines, in the order they're combined
+   */
+  abis: ABI[]
+  /**
+   * The compiled ABI of the generated interface, which --check compares against. Left out until
+   * the interface has been generated and compiled once.
+   */
+  interfaceABI?: ABI
+  /**
+   * Functions which the interface marks as view although the contracts don't, ex. functions which
+   * are only ever called offchain
+   */
+  viewFunctions?: string[]
+  /**
+   * The pragma of the generated interface, ex. ^0.8.4
+   */
+  solidityVersion: string
+  /**
+   * Whether to disable solhint for the generated interface
+   */
+  solhintDisable?: boolean
+}
+
+export type ABIDiff = {
+  added: string[]
+  removed: string[]
+  changed: string[]
+}
+
+const checksumPattern = /^\/\/ abi-checksum: (0x[0-9a-fA-F]{64})$/m
+
+export function interfacePath({ name, dest }: MasterInterface): string {
+  return `${dest}/${name}.sol`
+}
+
+/**
+ * @notice combines the ABIs into the ABI of the master interface, dropping the entries the
+ * contracts share
+ * @param abis the ABIs to combine
+ * @param viewFunctions the functions to mark as view
+ */
+export function combineABIs(
+  abis: ABI[],
+  viewFunctions: string[] = [],
+): ABIEntry[] {
+  const combinedABI: ABIEntry[] = []
+  const abiSet = new Set()
+  for (const abi of abis) {
+    for (const entry of abi) {
+      const id = utils.id(JSON.stringify(entry))
+      if (!abiSet.has(id)) {
+        abiSet.add(id)
+        if (
+          entry.type === 'function' &&
+          viewFunctions.includes(entry.name as string)
+        ) {
+          combinedABI.push({ ...entry, stateMutability: 'view' })
+        } else {
+          combinedABI.push(entry)
+        }
+      }
+    }
+  }
+  return combinedABI
+}
+
+/**
+ * @notice the checksum written at the top of the generated interface
+ * @dev hashes the full ABIs of the source contracts, so it changes with any entry they add,
+ * remove or change
+ */
+export function computeChecksum(abis: ABI[]): string {
+  return utils.id(JSON.stringify(abis))
+}
+
+/**
+ * @notice reads the checksum from the top of a generated interface
+ */
+export function readChecksum(path: string): string | undefined {
+  return fs.readFileSync(path).toString().match(checksumPattern)?.[1]
+}
+
+// the canonical signature, which expands structs into the types of their fields
+function entryKey(entry: ABIEntry): string | undefined {
+  if (!['function', 'event', 'error'].includes(entry.type)) {
+    return undefined
+  }
+  return `${entry.type} ${utils.Fragment.from(entry).format('sighash')}`
+}
+
+function entryShape(entry: ABIEntry): string {
+  return JSON.stringify({
+    indexed: (entry.inputs ?? []).map((input) => !!input.indexed),
+    outputs: (entry.outputs ?? []).map((output) =>
+      utils.ParamType.from(output).format('sighash'),
+    ),
+    stateMutability: entry.stateMutability,
+    anonymous: entry.anonymous,
+  })
+}
+
+/**
+ * @notice lists the functions, events and errors which differ between two ABIs. Entries are
+ * matched by their signature, with structs expanded to their fields' types, so a change to a
+ * struct input shows up as an added and a removed entry. An entry "changed" if its outputs
+ * (including the fields of returned structs), state mutability or indexed parameters differ.
+ * @param expected the ABI the contracts have, ex. from combineABIs()
+ * @param actual the ABI of the generated interface
+ */
+export function diffABIs(expected: ABI, actual: ABI): ABIDiff {
+  const toMap = (abi: ABI) => {
+    const entries = new Map<string, string>()
+    for (const entry of abi) {
+      const key = entryKey(entry)
+      if (key) {
+        entries.set(key, entryShape(entry))
+      }
+    }
+    return entries
+  }
+  const [want, have] = [toMap(expected), toMap(actual)]
+  const diff: ABIDiff = { added: [], removed: [], changed: [] }
+  for (const [key, shape] of want) {
+    if (!have.has(key)) {
+      diff.added.push(key)
+    } else if (have.get(key) !== shape) {
+      diff.changed.push(key)
+    }
+  }
+  for (const key of have.keys()) {
+    if (!want.has(key)) {
+      diff.removed.push(key)
+    }
+  }
+  return diff
+}
+
+/**
+ * @notice checks that a generated interface is up to date with the contracts it's generated from.
+ * Without the interface's compiled ABI, only the checksum is checked.
+ * @param master the interface to check
+ * @return the problems found, empty if the interface is up to date
+ */
+export function checkMasterInterface(master: MasterInterface): string[] {
+  const problems: string[] = []
+  const path = interfacePath(master)
+  if (!fs.existsSync(path)) {
+    return [`${path} has not been generated`]
+  }
+  const checksum = computeChecksum(master.abis)
+  const knownChecksum = readChecksum(path)
+  if (knownChecksum === undefined) {
+    problems.push(`${path} has no abi-checksum header`)
+  } else if (knownChecksum !== checksum) {
+    problems.push(
+      `${path} has abi-checksum ${knownChecksum}, expected ${checksum}`,
+    )
+  }
+  if (master.interfaceABI === undefined) {
+    return problems
+  }
+  const diff = diffABIs(
+    combineABIs(master.abis, master.viewFunctions),
+    master.interfaceABI,
+  )
+  for (const key of diff.added) {
+    problems.push(`missing from ${master.name}: ${key}`)
+  }
+  for (const key of diff.removed) {
+    problems.push(`no longer in the registry contracts: ${key}`)
+  }
+  for (const key of diff.changed) {
+    problems.push(`changed since ${master.name} was generated: ${key}`)
+  }
+  return problems
+}
+
+/**
+ * @notice runs a command to completion
+ * @param input written to the command's stdin
+ * @return the command's stdout
+ */
+function run(command: string, args: string[], input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args)
+    let stdout = ''
+    let stderr = ''
+    child.stdout.on('data', (data) => (stdout += data))
+    child.stderr.on('data', (data) => (stderr += data))
+    child.on('error', reject)
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout)
+      } else {
+        reject(
+          Error(
+            `${command} ${args.join(' ')} exited with code ${code}:\n${stderr || stdout}`,
+          ),
+        )
+      }
+    })
+    child.stdin.end(input ?? '')
+  })
+}
+
+/**
+ * @notice writes the master interface with abi-to-sol, prefixes it with its checksum and formats it
+ * with prettier
+ */
+export async function generateMasterInterface(master: MasterInterface) {
+  const srcDest = interfacePath(master)
+  const abi = combineABIs(master.abis, master.viewFunctions)
+  const source = await run(
+    'pnpm',
+    [
+      'abi-to-sol',
+      '--solidity-version',
+      master.solidityVersion,
+      '--license',
+      'MIT',
+      master.name,
+    ],
+    JSON.stringify(abi),
+  )
+  const header = [
+    ...(master.solhintDisable ? ['// solhint-disable '] : []),
+    `// abi-checksum: ${computeChecksum(master.abis)}`,
+  ]
+  fs.writeFileSync(srcDest, `${header.join('\n')}\n${source}`)
+  await run('pnpm', ['prettier', '--write', srcDest])
+}
+
+/**
+ * @notice the entrypoint of the generator: generates the interfaces named in the arguments, or all of
+ * them if none are named. With --check, reports the interfaces which are out of date instead.
+ * Exits with an error if any interface fails to generate or is out of date.
+ * @param masters the interfaces which can be generated
+ * @param args the command line arguments
+ */
+export async function main(masters: MasterInterface[], args: string[]) {
+  const check = args.includes('--check')
+  const names = args.filter((arg) => !arg.startsWith('--'))
+  for (const name of names) {
+    if (!masters.some((master) => master.name === name)) {
+      throw Error(
+        `unknown master interface ${name}, expected one of ${masters
+          .map((master) => master.name)
+          .join(', ')}`,
+      )
+    }
+  }
+  const selected = masters.filter(
+    (master) => names.length === 0 || names.includes(master.name),
+  )
+  let failed = false
+  for (const master of selected) {
+    if (check) {
+      const problems = checkMasterInterface(master)
+      if (problems.length > 0) {
+        failed = true
+        console.error(
+          `${master.name} is out of date:\n  ${problems.join('\n  ')}`,
+        )
+      } else {
+        console.log(`${master.name} is up to date`)
+      }
+      continue
+    }
+    try {
+      await generateMasterInterface(master)
+      console.log(`generated new master interface ${master.name}`)
+    } catch (err) {
+      failed = true
+      console.error(
+        `failed to generate ${master.name}: ${(err as Error).message}`,
+      )
+    }
+  }
+  if (failed) {
+    process.exitCode = 1
+  }
+}
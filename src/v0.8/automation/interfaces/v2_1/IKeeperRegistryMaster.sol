@@ -1,4 +1,4 @@
-// abi-checksum: 0x0ed34e4b36bd7b4a5447152c2d61491e6ba7ed944b11e4dfef4fea184708975e
+// abi-checksum: 0x48829dd1d3cede0fac346d90bc9b06aa08aa16ab5f9ced9a434dc11b9196463e
 // SPDX-License-Identifier: MIT
 // !! THIS FILE WAS AUTOGENERATED BY abi-to-sol v0.6.6. SEE SOURCE BELOW. !!
 pragma solidity ^0.8.4;
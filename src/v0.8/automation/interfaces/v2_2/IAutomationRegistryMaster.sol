@@ -1,4 +1,4 @@
-// abi-checksum: 0xfc319f2ddde95d2e0226c913b9e417495effc4c8c847d01fe07e3de68ea8839c
+// abi-checksum: 0x895e858dc677ca36cf7de50158cc45923efeb6038a502b7effc070d17591dc19
 // SPDX-License-Identifier: MIT
 // !! THIS FILE WAS AUTOGENERATED BY abi-to-sol v0.6.6. SEE SOURCE BELOW. !!
 pragma solidity ^0.8.4;
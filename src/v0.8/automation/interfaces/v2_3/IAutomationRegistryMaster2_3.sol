@@ -1,4 +1,4 @@
-// abi-checksum: 0xacb9d0daec3e3bed110c8cf95bdbe7280a21ce61519d4cd496f802884bf05524
+// abi-checksum: 0x631a9a65a8fe64c3bb33a9d71cf722da39760349f2bf52996aad017e11df527d
 // SPDX-License-Identifier: MIT
 // !! THIS FILE WAS AUTOGENERATED BY abi-to-sol v0.6.6. SEE SOURCE BELOW. !!
 pragma solidity ^0.8.4;
@@ -1,5 +1,5 @@
 // solhint-disable
-// abi-checksum: 0x5857a77a981fcb60dbdac0700e68420cbe544249b20d9326d51c5ef8584c5dd7
+// abi-checksum: 0x971cda92cfed97b6f802aa15b8116ac74bcc6ba16fdd4dfff71398c19962f76c
 // SPDX-License-Identifier: MIT
 // !! THIS FILE WAS AUTOGENERATED BY abi-to-sol v0.6.6. SEE SOURCE BELOW. !!
 pragma solidity ^0.8.19;
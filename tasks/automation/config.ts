@@ -0,0 +1,303 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains the config and deployment manifest formats used by the
+ * automation hardhat tasks, and functions for reading and writing them. The
+ * config describes a v2.3 registry and registrar to deploy and configure, the
+ * manifest records what the tasks deployed, configured and registered.
+ */
+import fs from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+import { BigNumberish, constants, utils } from 'ethers'
+import {
+  OnchainConfig as RegistryOnchainConfig,
+  onchainConfigErrors,
+} from '../../test/test-helpers/automation/onchainConfig'
+
+export type TriggerName = 'condition' | 'log'
+export type AutoApproveName = 'disabled' | 'sender-allowlist' | 'all'
+
+// copied from AutomationRegistryBase2_3.sol
+export const triggerTypes: { [name in TriggerName]: number } = {
+  condition: 0,
+  log: 1,
+}
+
+// copied from AutomationRegistrar2_3.sol
+export const autoApproveTypes: { [name in AutoApproveName]: number } = {
+  disabled: 0,
+  'sender-allowlist': 1,
+  all: 2,
+}
+
+// copied from AutomationRegistryBase2_3.sol
+export const payoutModes = {
+  onchain: 0,
+  offchain: 1,
+}
+
+export type RegistrarTriggerConfig = {
+  triggerType: TriggerName
+  autoApprove: AutoApproveName
+  autoApproveMaxAllowed: number
+}
+
+export type BillingTokenConfig = {
+  token: string
+  gasFeePPB: number
+  flatFeeMilliCents: number
+  priceFeed: string
+  decimals: number
+  fallbackPrice: BigNumberish
+  minSpend: BigNumberish
+  /**
+   * The minimum amount the registrar accepts to register an upkeep paying with this token
+   */
+  minRegistrationFee: BigNumberish
+}
+
+/**
+ * The registry's onchain config, without the chain module, which is set from
+ * the top level chainModule once it's deployed
+ */
+export type OnchainConfig = Omit<
+  RegistryOnchainConfig,
+  'chainModule' | 'transcoder' | 'registrars'
+> & {
+  /**
+   * Defaults to the zero address, which disables migrations
+   */
+  transcoder?: string
+  /**
+   * Defaults to the deployed registrar
+   */
+  registrars?: string[]
+}
+
+export type AutomationConfig = {
+  pli: string
+  pliUSDFeed: string
+  nativeUSDFeed: string
+  fastGasFeed: string
+  wrappedNativeToken: string
+  /**
+   * The address of a deployed chain module, or the name of the chain module
+   * contract to deploy, ex. "ArbitrumModule"
+   */
+  chainModule: string
+  allowedReadOnlyAddress?: string
+  payoutMode?: keyof typeof payoutModes
+  registrar: { triggers: RegistrarTriggerConfig[] }
+  ocr: {
+    signers: string[]
+    transmitters: string[]
+    f: number
+    offchainConfigVersion: number
+    offchainConfig: string
+  }
+  onchainConfig: OnchainConfig
+  billingTokens: BillingTokenConfig[]
+}
+
+export type RegisteredUpkeep = {
+  name: string
+  target: string
+  txHash: string
+  /**
+   * Only set once the registration is approved
+   */
+  id?: string
+  requestHash?: string
+}
+
+export type AutomationManifest = {
+  network: string
+  chainId: number
+  deployer: string
+  blockNumber: number
+  contracts: {
+    chainModule: string
+    automationForwarderLogic: string
+    registryLogicC: string
+    registryLogicB: string
+    registryLogicA: string
+    registry: string
+    registrar: string
+  }
+  config?: { txHash: string; blockNumber: number }
+  upkeeps: RegisteredUpkeep[]
+}
+
+const addressFields = [
+  'pli',
+  'pliUSDFeed',
+  'nativeUSDFeed',
+  'fastGasFeed',
+  'wrappedNativeToken',
+] as const
+
+export type UnknownObject = { [field: string]: unknown }
+
+export function isObject(value: unknown): value is UnknownObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Read an automation config from a YAML or JSON file. Addresses need quoting
+ * in YAML, which reads them as numbers otherwise.
+ *
+ * @param configPath The path to the config file
+ */
+export function loadAutomationConfig(configPath: string): AutomationConfig {
+  const contents = fs.readFileSync(configPath, 'utf8')
+  switch (path.extname(configPath)) {
+    case '.yaml':
+    case '.yml':
+      return validateAutomationConfig(YAML.parse(contents))
+    case '.json':
+      return validateAutomationConfig(JSON.parse(contents))
+    default:
+      throw Error(
+        `unsupported config format ${configPath}, expected a .yaml or .json file`,
+      )
+  }
+}
+
+/**
+ * Check that a parsed config has all the fields the tasks need, that the
+ * addresses in it are valid and that the onchain config fits the registry
+ *
+ * @param config The parsed config
+ */
+export function validateAutomationConfig(config: unknown): AutomationConfig {
+  if (!isObject(config)) {
+    throw Error('invalid automation config: expected an object')
+  }
+  const errors: string[] = []
+  const checkAddress = (value: unknown, field: string) => {
+    if (typeof value !== 'string' || !utils.isAddress(value)) {
+      errors.push(`${field} must be an address, got ${JSON.stringify(value)}`)
+    }
+  }
+  for (const field of addressFields) {
+    checkAddress(config[field], field)
+  }
+  if (typeof config.chainModule !== 'string' || config.chainModule === '') {
+    errors.push(
+      'chainModule must be an address or a chain module contract name',
+    )
+  }
+  if (
+    config.payoutMode !== undefined &&
+    !(typeof config.payoutMode === 'string' && config.payoutMode in payoutModes)
+  ) {
+    errors.push(`payoutMode must be one of ${Object.keys(payoutModes)}`)
+  }
+  const registrar = config.registrar ?? {}
+  const triggers = isObject(registrar) ? (registrar.triggers ?? []) : undefined
+  if (!Array.isArray(triggers)) {
+    errors.push('registrar.triggers must be a list')
+  } else {
+    triggers.forEach((trigger: unknown, idx: number) => {
+      const { triggerType, autoApprove } = isObject(trigger)
+        ? trigger
+        : ({} as UnknownObject)
+      if (typeof triggerType !== 'string' || !(triggerType in triggerTypes)) {
+        errors.push(`registrar.triggers[${idx}].triggerType is invalid`)
+      }
+      if (
+        typeof autoApprove !== 'string' ||
+        !(autoApprove in autoApproveTypes)
+      ) {
+        errors.push(`registrar.triggers[${idx}].autoApprove is invalid`)
+      }
+    })
+  }
+  const ocr = isObject(config.ocr) ? config.ocr : {}
+  if (!Array.isArray(ocr.signers) || !Array.isArray(ocr.transmitters)) {
+    errors.push('ocr.signers and ocr.transmitters must be lists of addresses')
+  } else {
+    ocr.signers.forEach((a: unknown, i: number) =>
+      checkAddress(a, `ocr.signers[${i}]`),
+    )
+    ocr.transmitters.forEach((a: unknown, i: number) =>
+      checkAddress(a, `ocr.transmitters[${i}]`),
+    )
+    if (ocr.signers.length !== ocr.transmitters.length) {
+      errors.push('ocr.signers and ocr.transmitters must have the same length')
+    }
+  }
+  if (config.onchainConfig === undefined) {
+    errors.push('onchainConfig is required')
+  } else if (!isObject(config.onchainConfig)) {
+    errors.push('onchainConfig must be an object')
+  } else if (config.onchainConfig.chainModule !== undefined) {
+    errors.push(
+      'onchainConfig.chainModule must be set as the top level chainModule',
+    )
+  } else {
+    errors.push(
+      ...onchainConfigErrors(
+        {
+          transcoder: constants.AddressZero,
+          registrars: [],
+          chainModule: constants.AddressZero,
+          ...config.onchainConfig,
+        },
+        'onchainConfig.',
+      ),
+    )
+  }
+  if (
+    !Array.isArray(config.billingTokens) ||
+    config.billingTokens.length === 0
+  ) {
+    errors.push('billingTokens must list at least one token')
+  } else {
+    config.billingTokens.forEach((billingToken: unknown, i: number) => {
+      const { token, priceFeed } = isObject(billingToken)
+        ? billingToken
+        : ({} as UnknownObject)
+      checkAddress(token, `billingTokens[${i}].token`)
+      checkAddress(priceFeed, `billingTokens[${i}].priceFeed`)
+    })
+  }
+  if (errors.length > 0) {
+    throw Error(`invalid automation config:\n  ${errors.join('\n  ')}`)
+  }
+  return {
+    allowedReadOnlyAddress: constants.AddressZero,
+    payoutMode: 'onchain',
+    ...config,
+    registrar: { triggers },
+  } as AutomationConfig
+}
+
+/**
+ * Read a deployment manifest written by the automation:deploy task
+ *
+ * @param manifestPath The path to the manifest
+ */
+export function readManifest(manifestPath: string): AutomationManifest {
+  if (!fs.existsSync(manifestPath)) {
+    throw Error(
+      `manifest ${manifestPath} not found, run automation:deploy first`,
+    )
+  }
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf8'))
+}
+
+/**
+ * Write a deployment manifest, creating its directory if needed
+ *
+ * @param manifestPath The path to write the manifest to
+ * @param manifest The manifest to write
+ */
+export function writeManifest(
+  manifestPath: string,
+  manifest: AutomationManifest,
+) {
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true })
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n')
+}
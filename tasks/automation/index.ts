@@ -0,0 +1,434 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains hardhat tasks for deploying and configuring the automation
+ * v2.3 stack (chain module, registry and registrar) from a JSON config, and for
+ * registering upkeeps with the deployed registrar. Every task records what it
+ * did in a deployment manifest, which the later tasks read their addresses from.
+ * A local DON can run the registered upkeeps of any v2.1+ registry on a
+ * development node, completing StreamsLookups with the reports of a local data
+ * streams API.
+ *
+ *   hardhat automation:deploy --automation-config automation.yaml --network <network>
+ *   hardhat automation:diff-config --automation-config automation.yaml --network <network>
+ *   hardhat automation:set-config --automation-config automation.yaml --network <network>
+ *   hardhat automation:register-upkeep --target <address> --network <network>
+ *   hardhat automation:don-signers --count 4
+ *   hardhat automation:streams-server --feeds feeds.json --network localhost
+ *   hardhat automation:run-don [--registry <address>] [--streams <url>] --network localhost
+ *
+ * Hardhat loads this file with its config, so only types are imported at the
+ * top. The tasks import the code they share with the tests in test/test-helpers
+ * when they run.
+ */
+import fs from 'fs'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { constants, Contract, ContractReceipt, utils } from 'ethers'
+import type {
+  AutomationConfig,
+  AutomationManifest,
+  TriggerName,
+} from './config'
+import type { OnchainConfig } from '../../test/test-helpers/automation/onchainConfig'
+import type { DONRound } from '../../test/test-helpers/automation/don'
+import type { StreamsFeed } from '../../test/test-helpers/automation/streams'
+
+type ConfigArgs = { automationConfig: string; manifest?: string }
+
+type RegisterUpkeepArgs = {
+  manifest?: string
+  target: string
+  name: string
+  admin?: string
+  gasLimit: number
+  amount: string
+  billingToken?: string
+  triggerType: TriggerName
+  checkData: string
+  triggerConfig: string
+  offchainConfig: string
+}
+
+type DONSignersArgs = { count: number; seed?: string }
+
+type RunDONArgs = DONSignersArgs & {
+  manifest?: string
+  registry?: string
+  transmitter?: string
+  streams?: string
+  once: boolean
+}
+
+type StreamsServerArgs = { feeds: string; port: number }
+
+const registrarEvents = new utils.Interface([
+  [
+    'event RegistrationRequested(bytes32 indexed hash, string name,',
+    'bytes encryptedEmail, address indexed upkeepContract, uint32 gasLimit,',
+    'address adminAddress, uint8 triggerType, bytes triggerConfig,',
+    'bytes offchainConfig, bytes checkData, uint96 amount,',
+    'address billingToken)',
+  ].join(' '),
+])
+
+const erc20 = [
+  'function approve(address spender, uint256 amount) returns (bool)',
+]
+
+function manifestPath(hre: HardhatRuntimeEnvironment, manifest?: string) {
+  return manifest ?? `deployments/automation-2_3-${hre.network.name}.json`
+}
+
+async function deploy(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  ...args: unknown[]
+): Promise<Contract> {
+  const factory = await hre.ethers.getContractFactory(name)
+  const contract = await factory.deploy(...args)
+  await contract.deployed()
+  console.log(`deployed ${name} at ${contract.address}`)
+  return contract
+}
+
+async function deployStack(
+  hre: HardhatRuntimeEnvironment,
+  config: AutomationConfig,
+) {
+  const { autoApproveTypes, payoutModes, triggerTypes } = await import(
+    './config'
+  )
+  const chainModule = utils.isAddress(config.chainModule)
+    ? config.chainModule
+    : (await deploy(hre, config.chainModule)).address
+  const forwarderLogic = await deploy(hre, 'AutomationForwarderLogic')
+  const logicC = await deploy(
+    hre,
+    'AutomationRegistryLogicC2_3',
+    config.pli,
+    config.pliUSDFeed,
+    config.nativeUSDFeed,
+    config.fastGasFeed,
+    forwarderLogic.address,
+    config.allowedReadOnlyAddress,
+    payoutModes[config.payoutMode ?? 'onchain'],
+    config.wrappedNativeToken,
+  )
+  const logicB = await deploy(
+    hre,
+    'AutomationRegistryLogicB2_3',
+    logicC.address,
+  )
+  const logicA = await deploy(
+    hre,
+    'AutomationRegistryLogicA2_3',
+    logicB.address,
+  )
+  const registry = await deploy(hre, 'AutomationRegistry2_3', logicA.address)
+  const registrar = await deploy(
+    hre,
+    'AutomationRegistrar2_3',
+    config.pli,
+    registry.address,
+    config.registrar.triggers.map((trigger) => ({
+      triggerType: triggerTypes[trigger.triggerType],
+      autoApproveType: autoApproveTypes[trigger.autoApprove],
+      autoApproveMaxAllowed: trigger.autoApproveMaxAllowed,
+    })),
+    config.billingTokens.map((token) => token.token),
+    config.billingTokens.map((token) => token.minRegistrationFee),
+    config.wrappedNativeToken,
+  )
+  return {
+    chainModule,
+    automationForwarderLogic: forwarderLogic.address,
+    registryLogicC: logicC.address,
+    registryLogicB: logicB.address,
+    registryLogicA: logicA.address,
+    registry: registry.address,
+    registrar: registrar.address,
+  }
+}
+
+task(
+  'automation:deploy',
+  'Deploys an automation v2.3 registry and registrar, and writes a deployment manifest',
+)
+  .addParam(
+    'automationConfig',
+    'The path to the YAML or JSON automation config',
+  )
+  .addOptionalParam('manifest', 'The path to write the deployment manifest to')
+  .setAction(async (args: ConfigArgs, hre) => {
+    const { loadAutomationConfig, writeManifest } = await import('./config')
+    const config = loadAutomationConfig(args.automationConfig)
+    const [deployer] = await hre.ethers.getSigners()
+    const contracts = await deployStack(hre, config)
+    const path = manifestPath(hre, args.manifest)
+    writeManifest(path, {
+      network: hre.network.name,
+      chainId: (await hre.ethers.provider.getNetwork()).chainId,
+      deployer: await deployer.getAddress(),
+      blockNumber: await hre.ethers.provider.getBlockNumber(),
+      contracts,
+      upkeeps: [],
+    })
+    console.log(`wrote deployment manifest to ${path}`)
+  })
+
+function proposedOnchainConfig(
+  config: AutomationConfig,
+  manifest: AutomationManifest,
+): OnchainConfig {
+  const { onchainConfig } = config
+  return {
+    ...onchainConfig,
+    transcoder: onchainConfig.transcoder ?? constants.AddressZero,
+    registrars: onchainConfig.registrars ?? [manifest.contracts.registrar],
+    chainModule: manifest.contracts.chainModule,
+  }
+}
+
+task(
+  'automation:diff-config',
+  'Prints the changes the config would make to the onchain config of a deployed automation v2.3 registry',
+)
+  .addParam(
+    'automationConfig',
+    'The path to the YAML or JSON automation config',
+  )
+  .addOptionalParam('manifest', 'The path to the deployment manifest')
+  .setAction(async (args: ConfigArgs, hre) => {
+    const { loadAutomationConfig, readManifest } = await import('./config')
+    const { diffOnchainConfig, formatConfigChanges, getOnchainConfig } =
+      await import('../../test/test-helpers/automation/onchainConfig')
+    const config = loadAutomationConfig(args.automationConfig)
+    const manifest = readManifest(manifestPath(hre, args.manifest))
+    const registry = await hre.ethers.getContractAt(
+      'IAutomationRegistryMaster2_3',
+      manifest.contracts.registry,
+    )
+    const changes = diffOnchainConfig(
+      await getOnchainConfig(registry),
+      proposedOnchainConfig(config, manifest),
+    )
+    console.log(formatConfigChanges(changes))
+    return changes
+  })
+
+task(
+  'automation:set-config',
+  'Sets the OCR config, onchain config and billing tokens of a deployed automation v2.3 registry',
+)
+  .addParam(
+    'automationConfig',
+    'The path to the YAML or JSON automation config',
+  )
+  .addOptionalParam('manifest', 'The path to the deployment manifest')
+  .setAction(async (args: ConfigArgs, hre) => {
+    const { loadAutomationConfig, readManifest, writeManifest } = await import(
+      './config'
+    )
+    const { diffOnchainConfig, formatConfigChanges, getOnchainConfig } =
+      await import('../../test/test-helpers/automation/onchainConfig')
+    const config = loadAutomationConfig(args.automationConfig)
+    const path = manifestPath(hre, args.manifest)
+    const manifest = readManifest(path)
+    const registry = await hre.ethers.getContractAt(
+      'IAutomationRegistryMaster2_3',
+      manifest.contracts.registry,
+    )
+    const { ocr } = config
+    const onchainConfig = proposedOnchainConfig(config, manifest)
+    console.log(
+      formatConfigChanges(
+        diffOnchainConfig(await getOnchainConfig(registry), onchainConfig),
+      ),
+    )
+    const tx = await registry.setConfigTypeSafe(
+      ocr.signers,
+      ocr.transmitters,
+      ocr.f,
+      onchainConfig,
+      ocr.offchainConfigVersion,
+      ocr.offchainConfig,
+      config.billingTokens.map((token) => token.token),
+      config.billingTokens.map((token) => ({
+        gasFeePPB: token.gasFeePPB,
+        flatFeeMilliCents: token.flatFeeMilliCents,
+        priceFeed: token.priceFeed,
+        decimals: token.decimals,
+        fallbackPrice: token.fallbackPrice,
+        minSpend: token.minSpend,
+      })),
+    )
+    const receipt = await tx.wait()
+    manifest.config = { txHash: tx.hash, blockNumber: receipt.blockNumber }
+    writeManifest(path, manifest)
+    console.log(`set config of registry ${registry.address} in tx ${tx.hash}`)
+  })
+
+task(
+  'automation:register-upkeep',
+  'Registers an upkeep with the registrar in the deployment manifest, funding it from the first signer',
+)
+  .addOptionalParam('manifest', 'The path to the deployment manifest')
+  .addParam('target', 'The address of the upkeep contract')
+  .addOptionalParam('name', 'The name of the upkeep', 'upkeep')
+  .addOptionalParam('admin', 'The admin of the upkeep, defaults to the signer')
+  .addOptionalParam('gasLimit', 'The perform gas limit', 500000, types.int)
+  .addParam(
+    'amount',
+    "The amount to fund the upkeep with, in the billing token's smallest unit",
+  )
+  .addOptionalParam('billingToken', 'The token to pay with, defaults to PLI')
+  .addOptionalParam('triggerType', 'condition or log', 'condition')
+  .addOptionalParam('checkData', 'The check data of the upkeep', '0x')
+  .addOptionalParam('triggerConfig', 'The encoded trigger config', '0x')
+  .addOptionalParam('offchainConfig', 'The offchain config', '0x')
+  .setAction(async (args: RegisterUpkeepArgs, hre) => {
+    const { readManifest, triggerTypes, writeManifest } = await import(
+      './config'
+    )
+    const { getUpkeepIDs } = await import(
+      '../../test/test-helpers/automation/upkeep'
+    )
+    if (!(args.triggerType in triggerTypes)) {
+      throw Error(`unknown trigger type ${args.triggerType}`)
+    }
+    const path = manifestPath(hre, args.manifest)
+    const manifest = readManifest(path)
+    const [signer] = await hre.ethers.getSigners()
+    const registry = await hre.ethers.getContractAt(
+      'IAutomationRegistryMaster2_3',
+      manifest.contracts.registry,
+    )
+    const registrar = await hre.ethers.getContractAt(
+      'AutomationRegistrar2_3',
+      manifest.contracts.registrar,
+    )
+    const billingToken = args.billingToken ?? (await registry.getPliAddress())
+    const token = new Contract(billingToken, erc20, signer)
+    await (await token.approve(registrar.address, args.amount)).wait()
+    const tx = await registrar.registerUpkeep({
+      upkeepContract: args.target,
+      amount: args.amount,
+      adminAddress: args.admin ?? (await signer.getAddress()),
+      gasLimit: args.gasLimit,
+      triggerType: triggerTypes[args.triggerType],
+      billingToken,
+      name: args.name,
+      encryptedEmail: '0x',
+      checkData: args.checkData,
+      triggerConfig: args.triggerConfig,
+      offchainConfig: args.offchainConfig,
+    })
+    const receipt: ContractReceipt = await tx.wait()
+    const [id] = getUpkeepIDs(receipt)
+    const requestedTopic = registrarEvents.getEventTopic(
+      'RegistrationRequested',
+    )
+    const requested = receipt.logs
+      .filter((log) => log.topics[0] === requestedTopic)
+      .map((log) => registrarEvents.parseLog(log))[0]
+    manifest.upkeeps.push({
+      name: args.name,
+      target: args.target,
+      txHash: tx.hash,
+      id: id?.toString(),
+      requestHash: requested?.args.hash,
+    })
+    writeManifest(path, manifest)
+    console.log(
+      id
+        ? `registered upkeep ${id.toString()}`
+        : `requested registration ${requested?.args.hash}, pending approval`,
+    )
+  })
+
+task(
+  'automation:don-signers',
+  'Prints the signer addresses of a local DON, to configure a registry with',
+)
+  .addOptionalParam('count', 'The number of signers', 4, types.int)
+  .addOptionalParam('seed', 'The seed the signers are derived from')
+  .setAction(async (args: DONSignersArgs) => {
+    const { donSigners } = await import(
+      '../../test/test-helpers/automation/report'
+    )
+    const addresses = donSigners(args.count, args.seed).map((s) => s.address)
+    console.log(addresses.join('\n'))
+    return addresses
+  })
+
+task(
+  'automation:run-don',
+  'Runs a local DON which checks the upkeeps of a v2.1+ registry on every block, and transmits reports performing the eligible ones',
+)
+  .addOptionalParam('manifest', 'The path to the deployment manifest')
+  .addOptionalParam(
+    'registry',
+    'The address of the registry, defaults to the one in the manifest',
+  )
+  .addOptionalParam(
+    'transmitter',
+    'The transmitter to send reports from, defaults to the first signer',
+  )
+  .addOptionalParam('count', 'The number of DON signers', 4, types.int)
+  .addOptionalParam('seed', 'The seed the DON signers are derived from')
+  .addOptionalParam(
+    'streams',
+    'The URL of the data streams API to complete StreamsLookups with',
+  )
+  .addFlag('once', 'Run a single round rather than running until interrupted')
+  .setAction(async (args: RunDONArgs, hre): Promise<DONRound | void> => {
+    const { readManifest } = await import('./config')
+    const { AutomationDON } = await import(
+      '../../test/test-helpers/automation/don'
+    )
+    const { donSigners } = await import(
+      '../../test/test-helpers/automation/report'
+    )
+    const registry =
+      args.registry ??
+      readManifest(manifestPath(hre, args.manifest)).contracts.registry
+    const transmitter =
+      args.transmitter === undefined
+        ? (await hre.ethers.getSigners())[0]
+        : await hre.ethers.getSigner(args.transmitter)
+    const don = await AutomationDON.connect(registry, {
+      signers: donSigners(args.count, args.seed),
+      transmitter,
+      streamsUrl: args.streams,
+      log: console.log,
+    })
+    if (args.once) {
+      return don.round()
+    }
+    don.start()
+    await new Promise((resolve) => process.once('SIGINT', resolve))
+    await don.stop()
+  })
+
+task(
+  'automation:streams-server',
+  'Serves signed reports of the feeds in a JSON file on the data streams API, until interrupted',
+)
+  .addParam('feeds', 'The path to a JSON array of feeds and their prices')
+  .addOptionalParam('port', 'The port to listen on', 8080, types.int)
+  .setAction(async (args: StreamsServerArgs, hre) => {
+    const { StreamsServer } = await import(
+      '../../test/test-helpers/automation/streams'
+    )
+    const feeds: StreamsFeed[] = JSON.parse(fs.readFileSync(args.feeds, 'utf8'))
+    const server = await StreamsServer.start({
+      provider: hre.ethers.provider,
+      feeds,
+      port: args.port,
+    })
+    console.log(`serving ${feeds.length} feeds at ${server.url}`)
+    console.log(`reports are signed by ${server.signerAddresses.join(', ')}`)
+    await new Promise((resolve) => process.once('SIGINT', resolve))
+    await server.stop()
+  })
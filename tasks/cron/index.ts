@@ -0,0 +1,303 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains hardhat tasks for managing the jobs of a CronUpkeep from
+ * human-readable cron strings and handler signatures, rather than raw
+ * calldata. Specs are encoded with the off-chain Cron implementation in
+ * test/test-helpers/cron.ts, which is fuzzed against the library, unless the
+ * address of a deployed Cron library is passed to encode them on-chain.
+ *
+ *   hardhat cron:list --upkeep <address> --network <network>
+ *   hardhat cron:add --upkeep <address> --target <address> --handler "handler()" --cron "0 0 * * *"
+ *   hardhat cron:update --upkeep <address> --id 1 --target <address> --handler "handler()" --cron "0 * * * *"
+ *   hardhat cron:delete --upkeep <address> --id 1
+ *   hardhat cron:sync --upkeep <address> --jobs jobs.yaml [--apply]
+ *   hardhat cron:deploy-upkeep --factory <address> --registrar <address> --jobs jobs.yaml --amount <juels>
+ *
+ * The jobs and upkeep modules build on the test helpers, so the tasks import
+ * them as they run instead of when hardhat loads its config.
+ */
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { Contract, ContractReceipt, ContractTransaction, utils } from 'ethers'
+import type { CronJobChange } from './jobs'
+import type { CronUpkeepDeployment } from './upkeep'
+
+type UpkeepArgs = { upkeep: string }
+
+type ListArgs = UpkeepArgs & { ticks: number }
+
+type JobArgs = UpkeepArgs & {
+  target: string
+  handler: string
+  args: string
+  cron: string
+  cronLib?: string
+}
+
+type UpdateArgs = JobArgs & { id: number }
+
+type DeleteArgs = UpkeepArgs & { id: number }
+
+type SyncArgs = UpkeepArgs & { jobs: string; cronLib?: string; apply: boolean }
+
+type DeployUpkeepArgs = {
+  factory: string
+  registrar: string
+  jobs: string
+  name: string
+  amount: string
+  gasLimit: number
+  admin?: string
+}
+
+const cronLibraryName = 'src/v0.8/automation/libraries/external/Cron.sol:Cron'
+
+async function getCronUpkeep(
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+): Promise<Contract> {
+  return hre.ethers.getContractAt('CronUpkeep', address)
+}
+
+async function encodeSpec(
+  hre: HardhatRuntimeEnvironment,
+  cronString: string,
+  cronLib?: string,
+): Promise<string> {
+  if (cronLib === undefined) {
+    const { encodeCronString } = await import('../../test/test-helpers/cron')
+    return encodeCronString(cronString)
+  }
+  const cron = await hre.ethers.getContractAt(cronLibraryName, cronLib)
+  return cron.toEncodedSpec(cronString)
+}
+
+const signatureCache = new WeakMap<
+  HardhatRuntimeEnvironment,
+  Promise<Map<string, string>>
+>()
+
+/**
+ * Collect the function signatures of every compiled contract, to describe
+ * handlers by the function they call. Reading every artifact is slow, so it's
+ * done once per run.
+ */
+async function knownSignatures(
+  hre: HardhatRuntimeEnvironment,
+): Promise<Map<string, string>> {
+  if (!signatureCache.has(hre)) {
+    signatureCache.set(
+      hre,
+      (async () => {
+        const signatures = new Map<string, string>()
+        for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+          const { abi } = await hre.artifacts.readArtifact(name)
+          const iface = new utils.Interface(abi)
+          for (const fragment of Object.values(iface.functions)) {
+            signatures.set(iface.getSighash(fragment), fragment.format())
+          }
+        }
+        return signatures
+      })(),
+    )
+  }
+  return signatureCache.get(hre) as Promise<Map<string, string>>
+}
+
+async function send(
+  description: string,
+  tx: Promise<ContractTransaction>,
+): Promise<ContractReceipt> {
+  const receipt = await (await tx).wait()
+  console.log(`${description} in tx ${receipt.transactionHash}`)
+  return receipt
+}
+
+function parseArgs(args: string): unknown[] {
+  const parsed = JSON.parse(args)
+  if (!Array.isArray(parsed)) {
+    throw Error(`--args must be a JSON list, got ${args}`)
+  }
+  return parsed
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString()
+}
+
+task('cron:list', 'Lists the jobs of a CronUpkeep and when they fire next')
+  .addParam('upkeep', 'The address of the CronUpkeep')
+  .addOptionalParam('ticks', 'The number of fire times to list', 5, types.int)
+  .setAction(async (args: ListArgs, hre) => {
+    const { describeHandler } = await import('./jobs')
+    const { getCronJobs } = await import('./upkeep')
+    const upkeep = await getCronUpkeep(hre, args.upkeep)
+    const signatures = await knownSignatures(hre)
+    const jobs = await getCronJobs(upkeep, args.ticks)
+    if (jobs.length === 0) {
+      console.log(`${upkeep.address} has no jobs`)
+    }
+    for (const job of jobs) {
+      console.log(
+        `#${job.id} "${job.cronString}" ${job.target} ${describeHandler(
+          job.handler,
+          signatures,
+        )}`,
+      )
+      console.log(`   next: ${job.fireTimes.map(formatTime).join(', ')}`)
+    }
+    return jobs
+  })
+
+task('cron:add', 'Adds a job to a CronUpkeep')
+  .addParam('upkeep', 'The address of the CronUpkeep')
+  .addParam('target', 'The address of the contract to call')
+  .addParam('handler', 'The function to call, as a signature or hex calldata')
+  .addOptionalParam('args', 'The handler arguments, as a JSON list', '[]')
+  .addParam('cron', 'The cron string of the job, ex. "0 0 * * *"')
+  .addOptionalParam('cronLib', 'A Cron library to encode the spec with')
+  .setAction(async (args: JobArgs, hre) => {
+    const { encodeHandler, normalizeCronString } = await import('./jobs')
+    const upkeep = await getCronUpkeep(hre, args.upkeep)
+    const receipt = await send(
+      `created "${normalizeCronString(args.cron)}" job`,
+      upkeep.createCronJobFromEncodedSpec(
+        utils.getAddress(args.target),
+        encodeHandler(args.handler, parseArgs(args.args)),
+        await encodeSpec(hre, args.cron, args.cronLib),
+      ),
+    )
+    const created = receipt.events?.find(
+      (event) => event.event === 'CronJobCreated',
+    )
+    if (created?.args === undefined) {
+      throw Error(`tx ${receipt.transactionHash} did not create a job`)
+    }
+    const id = created.args.id.toNumber()
+    console.log(`job id ${id}`)
+    return id
+  })
+
+task('cron:update', 'Replaces the target, handler and cron string of a job')
+  .addParam('upkeep', 'The address of the CronUpkeep')
+  .addParam('id', 'The id of the job', undefined, types.int)
+  .addParam('target', 'The address of the contract to call')
+  .addParam('handler', 'The function to call, as a signature or hex calldata')
+  .addOptionalParam('args', 'The handler arguments, as a JSON list', '[]')
+  .addParam('cron', 'The cron string of the job, ex. "0 0 * * *"')
+  .addOptionalParam('cronLib', 'A Cron library to encode the spec with')
+  .setAction(async (args: UpdateArgs, hre) => {
+    const { encodeHandler } = await import('./jobs')
+    const upkeep = await getCronUpkeep(hre, args.upkeep)
+    await send(
+      `updated job ${args.id}`,
+      upkeep.updateCronJob(
+        args.id,
+        utils.getAddress(args.target),
+        encodeHandler(args.handler, parseArgs(args.args)),
+        await encodeSpec(hre, args.cron, args.cronLib),
+      ),
+    )
+  })
+
+task('cron:delete', 'Deletes a job from a CronUpkeep')
+  .addParam('upkeep', 'The address of the CronUpkeep')
+  .addParam('id', 'The id of the job', undefined, types.int)
+  .setAction(async (args: DeleteArgs, hre) => {
+    const upkeep = await getCronUpkeep(hre, args.upkeep)
+    await send(`deleted job ${args.id}`, upkeep.deleteCronJob(args.id))
+  })
+
+task(
+  'cron:sync',
+  'Plans the changes that make a CronUpkeep run the jobs in a YAML file, and applies them with --apply',
+)
+  .addParam('upkeep', 'The address of the CronUpkeep')
+  .addParam('jobs', 'The path to the YAML or JSON jobs file')
+  .addOptionalParam('cronLib', 'A Cron library to encode the specs with')
+  .addFlag('apply', 'Apply the plan rather than only printing it')
+  .setAction(async (args: SyncArgs, hre): Promise<CronJobChange[]> => {
+    const { formatCronJobPlan, loadCronJobs, planCronJobSync, toCronJob } =
+      await import('./jobs')
+    const { getCronJobs } = await import('./upkeep')
+    const upkeep = await getCronUpkeep(hre, args.upkeep)
+    const desired = loadCronJobs(args.jobs).map(toCronJob)
+    const changes = planCronJobSync(await getCronJobs(upkeep), desired)
+    console.log(formatCronJobPlan(changes, await knownSignatures(hre)))
+    if (!args.apply) {
+      console.log('dry run, rerun with --apply to apply the plan')
+      return changes
+    }
+    // deletions go first, so they free up room for the new jobs under maxJobs
+    for (const change of changes) {
+      if (change.action === 'delete') {
+        await send(`deleted job ${change.id}`, upkeep.deleteCronJob(change.id))
+      }
+    }
+    for (const change of changes) {
+      if (change.action === 'update') {
+        const { target, handler, cronString } = change.job
+        await send(
+          `updated job ${change.id}`,
+          upkeep.updateCronJob(
+            change.id,
+            target,
+            handler,
+            await encodeSpec(hre, cronString, args.cronLib),
+          ),
+        )
+      } else if (change.action === 'create') {
+        const { target, handler, cronString } = change.job
+        await send(
+          `created "${cronString}" job`,
+          upkeep.createCronJobFromEncodedSpec(
+            target,
+            handler,
+            await encodeSpec(hre, cronString, args.cronLib),
+          ),
+        )
+      }
+    }
+    return changes
+  })
+
+task(
+  'cron:deploy-upkeep',
+  'Deploys a CronUpkeep running the jobs in a YAML file through a factory, and registers it with a v2.3 registrar, funded with PLI',
+)
+  .addParam('factory', 'The address of the CronUpkeepFactory')
+  .addParam('registrar', 'The address of the AutomationRegistrar2_3')
+  .addParam('jobs', 'The path to the YAML or JSON jobs file')
+  .addOptionalParam('name', 'The name of the upkeep', 'cron upkeep')
+  .addParam('amount', 'The amount of PLI to fund the upkeep with, in juels')
+  .addOptionalParam('gasLimit', 'The perform gas limit', 500000, types.int)
+  .addOptionalParam('admin', 'The admin of the upkeep, defaults to the signer')
+  .setAction(
+    async (args: DeployUpkeepArgs, hre): Promise<CronUpkeepDeployment> => {
+      const { loadCronJobs } = await import('./jobs')
+      const { deployCronUpkeep, formatCronUpkeepDeployment } = await import(
+        './upkeep'
+      )
+      const jobs = loadCronJobs(args.jobs)
+      if (jobs.some((job) => job.id !== undefined)) {
+        throw Error('the jobs of a new upkeep cannot have ids')
+      }
+      const deployment = await deployCronUpkeep(
+        hre,
+        args.factory,
+        args.registrar,
+        jobs,
+        {
+          name: args.name,
+          amount: args.amount,
+          gasLimit: args.gasLimit,
+          admin: args.admin,
+        },
+      )
+      console.log(
+        formatCronUpkeepDeployment(deployment, await knownSignatures(hre)),
+      )
+      return deployment
+    },
+  )
@@ -0,0 +1,353 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains the jobs file format used by the cron hardhat tasks, and
+ * the functions for turning human-readable jobs into the handlers and specs
+ * CronUpkeep stores, and for planning the changes that bring an upkeep's jobs
+ * in line with a jobs file.
+ *
+ * A jobs file is YAML (or JSON) listing the jobs an upkeep should run. Jobs
+ * with an id update that job, jobs without one are matched to an existing job
+ * with the same target and handler, or created. Addresses and cron strings
+ * need quoting, since YAML reads them as numbers and aliases otherwise:
+ *
+ * ```yaml
+ * jobs:
+ *   - target: '0x...'
+ *     handler: handler1()
+ *     cron: '0 0 * * *'
+ *   - id: 2
+ *     target: '0x...'
+ *     handler: setValue(uint256)
+ *     args: [42]
+ *     cron: '15 * * * 1-5'
+ * ```
+ */
+import fs from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+import { utils } from 'ethers'
+import { isObject } from '../automation/config'
+import { nextTick, toCronString, toSpec } from '../../test/test-helpers/cron'
+
+/**
+ * A job as written in a jobs file or passed to the tasks
+ */
+export type CronJobConfig = {
+  id?: number
+  target: string
+  /**
+   * The function to call on the target, as a signature (ex. "handler1()") or
+   * as hex calldata
+   */
+  handler: string
+  /**
+   * The arguments to encode the handler signature with
+   */
+  args?: unknown[]
+  cron: string
+}
+
+/**
+ * A job as CronUpkeep stores it, or will once the job is created
+ */
+export type CronJob = {
+  id?: number
+  target: string
+  handler: string
+  cronString: string
+}
+
+export type CronJobChange =
+  | { action: 'create'; job: CronJob }
+  | { action: 'update'; id: number; current: CronJob; job: CronJob }
+  | { action: 'delete'; id: number; current: CronJob }
+  | { action: 'unchanged'; id: number; current: CronJob }
+
+/**
+ * Encode a handler as the calldata CronUpkeep forwards to the target
+ *
+ * @param handler A function signature or hex calldata
+ * @param args The arguments to encode a signature with
+ */
+export function encodeHandler(handler: string, args: unknown[] = []): string {
+  if (utils.isHexString(handler)) {
+    if (args.length > 0) {
+      throw Error(`handler ${handler} is already encoded, it takes no args`)
+    }
+    return handler.toLowerCase()
+  }
+  const fragment = utils.FunctionFragment.from(handler)
+  return new utils.Interface([fragment]).encodeFunctionData(fragment, args)
+}
+
+/**
+ * Describe a handler for humans, as the function it calls if its selector is
+ * known and as hex otherwise
+ *
+ * @param handler The calldata of the handler
+ * @param signatures The known function signatures, by selector
+ */
+export function describeHandler(
+  handler: string,
+  signatures: Map<string, string>,
+): string {
+  const signature = signatures.get(handler.slice(0, 10).toLowerCase())
+  if (signature === undefined) {
+    return handler
+  }
+  const fragment = utils.FunctionFragment.from(signature)
+  try {
+    const args = new utils.Interface([fragment]).decodeFunctionData(
+      fragment,
+      handler,
+    )
+    return `${fragment.name}(${args.map((arg) => arg.toString()).join(', ')})`
+  } catch (e) {
+    return `${signature} ${handler}`
+  }
+}
+
+/**
+ * Normalize a cron string to the form CronUpkeep.getCronJob() returns it in
+ *
+ * @param cronString The cron string to normalize
+ */
+export function normalizeCronString(cronString: string): string {
+  return toCronString(toSpec(cronString))
+}
+
+/**
+ * Calculate the next times a cron string fires
+ *
+ * @param cronString The cron string
+ * @param timestamp The unix timestamp (in seconds) to start from
+ * @param count The number of fire times to calculate
+ */
+export function nextFireTimes(
+  cronString: string,
+  timestamp: number,
+  count: number,
+): number[] {
+  const spec = toSpec(cronString)
+  const times: number[] = []
+  let from = timestamp
+  while (times.length < count) {
+    const tick = nextTick(spec, from)
+    times.push(tick)
+    from = tick + 60
+  }
+  return times
+}
+
+/**
+ * Turn a job from a jobs file into the job CronUpkeep would store
+ *
+ * @param config The job to convert
+ */
+export function toCronJob(config: CronJobConfig): CronJob {
+  return {
+    id: config.id,
+    target: utils.getAddress(config.target),
+    handler: encodeHandler(config.handler, config.args),
+    cronString: normalizeCronString(config.cron),
+  }
+}
+
+/**
+ * Read the jobs from a YAML or JSON jobs file
+ *
+ * @param jobsPath The path to the jobs file
+ */
+export function loadCronJobs(jobsPath: string): CronJobConfig[] {
+  const contents = fs.readFileSync(jobsPath, 'utf8')
+  switch (path.extname(jobsPath)) {
+    case '.yaml':
+    case '.yml':
+      return validateCronJobs(YAML.parse(contents))
+    case '.json':
+      return validateCronJobs(JSON.parse(contents))
+    default:
+      throw Error(
+        `unsupported jobs format ${jobsPath}, expected a .yaml or .json file`,
+      )
+  }
+}
+
+/**
+ * Check that a parsed jobs file lists valid jobs, reporting every problem at
+ * once
+ *
+ * @param file The parsed jobs file
+ */
+export function validateCronJobs(file: unknown): CronJobConfig[] {
+  if (!isObject(file) || !Array.isArray(file.jobs)) {
+    throw Error('invalid jobs file: jobs must be a list')
+  }
+  const jobs: unknown[] = file.jobs
+  const errors: string[] = []
+  const ids = new Set<number>()
+  jobs.forEach((job: unknown, idx: number) => {
+    const field = `jobs[${idx}]`
+    if (!isObject(job)) {
+      errors.push(`${field} must be an object`)
+      return
+    }
+    if (job.id !== undefined) {
+      if (
+        typeof job.id !== 'number' ||
+        !Number.isInteger(job.id) ||
+        job.id < 1
+      ) {
+        errors.push(`${field}.id must be a positive integer`)
+      } else if (ids.has(job.id)) {
+        errors.push(`${field}.id ${job.id} is listed more than once`)
+      } else {
+        ids.add(job.id)
+      }
+    }
+    if (typeof job.target !== 'string' || !utils.isAddress(job.target)) {
+      errors.push(`${field}.target must be a quoted address`)
+    }
+    if (job.args !== undefined && !Array.isArray(job.args)) {
+      errors.push(`${field}.args must be a list`)
+    }
+    if (typeof job.handler !== 'string') {
+      errors.push(`${field}.handler must be a signature or quoted calldata`)
+    } else {
+      try {
+        encodeHandler(job.handler, Array.isArray(job.args) ? job.args : [])
+      } catch (e) {
+        errors.push(`${field}.handler is invalid: ${(e as Error).message}`)
+      }
+    }
+    if (typeof job.cron !== 'string') {
+      errors.push(`${field}.cron must be a quoted cron string`)
+    } else {
+      try {
+        normalizeCronString(job.cron)
+      } catch (e) {
+        errors.push(`${field}.cron is invalid: ${(e as Error).message}`)
+      }
+    }
+  })
+  if (errors.length > 0) {
+    throw Error(`invalid jobs file:\n  ${errors.join('\n  ')}`)
+  }
+  return jobs as CronJobConfig[]
+}
+
+function sameJob(a: CronJob, b: CronJob): boolean {
+  return (
+    a.target === b.target &&
+    a.handler === b.handler &&
+    a.cronString === b.cronString
+  )
+}
+
+/**
+ * Plan the changes that make an upkeep run exactly the desired jobs. Jobs with
+ * an id update that job. Jobs without one reuse an unchanged job if there is
+ * one, then a job with the same target and handler, and are created otherwise.
+ * Every job left over is deleted.
+ *
+ * @param current The jobs the upkeep runs, with their ids
+ * @param desired The jobs the upkeep should run
+ */
+export function planCronJobSync(
+  current: CronJob[],
+  desired: CronJob[],
+): CronJobChange[] {
+  const unmatched = new Map<number, CronJob>()
+  for (const job of current) {
+    unmatched.set(job.id as number, job)
+  }
+  const matches = new Map<CronJob, CronJob>()
+  for (const job of desired) {
+    if (job.id === undefined) {
+      continue
+    }
+    const existing = unmatched.get(job.id)
+    if (existing === undefined) {
+      throw Error(
+        `job ${job.id} does not exist, remove its id to create it instead`,
+      )
+    }
+    matches.set(job, existing)
+    unmatched.delete(job.id)
+  }
+  const matchBy = (predicate: (a: CronJob, b: CronJob) => boolean) => {
+    for (const job of desired) {
+      if (matches.has(job) || job.id !== undefined) {
+        continue
+      }
+      for (const [id, existing] of unmatched) {
+        if (predicate(job, existing)) {
+          matches.set(job, existing)
+          unmatched.delete(id)
+          break
+        }
+      }
+    }
+  }
+  matchBy(sameJob)
+  matchBy((a, b) => a.target === b.target && a.handler === b.handler)
+
+  const changes: CronJobChange[] = []
+  for (const job of desired) {
+    const existing = matches.get(job)
+    if (existing === undefined) {
+      changes.push({ action: 'create', job })
+    } else if (sameJob(job, existing)) {
+      changes.push({
+        action: 'unchanged',
+        id: existing.id as number,
+        current: existing,
+      })
+    } else {
+      changes.push({
+        action: 'update',
+        id: existing.id as number,
+        current: existing,
+        job: { ...job, id: existing.id },
+      })
+    }
+  }
+  for (const [id, existing] of unmatched) {
+    changes.push({ action: 'delete', id, current: existing })
+  }
+  return changes
+}
+
+/**
+ * Render a plan for review, one line per job
+ *
+ * @param changes The planned changes
+ * @param signatures The known function signatures, by selector
+ */
+export function formatCronJobPlan(
+  changes: CronJobChange[],
+  signatures: Map<string, string> = new Map(),
+): string {
+  const describe = (job: CronJob) =>
+    `"${job.cronString}" ${job.target} ${describeHandler(
+      job.handler,
+      signatures,
+    )}`
+  return changes
+    .map((change) => {
+      switch (change.action) {
+        case 'create':
+          return `+ create ${describe(change.job)}`
+        case 'update':
+          return `~ update #${change.id} ${describe(
+            change.current,
+          )} -> ${describe(change.job)}`
+        case 'delete':
+          return `- delete #${change.id} ${describe(change.current)}`
+        case 'unchanged':
+          return `  keep   #${change.id} ${describe(change.current)}`
+      }
+    })
+    .join('\n')
+}
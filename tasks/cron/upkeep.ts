@@ -0,0 +1,246 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains the workflow for putting a new CronUpkeep to work: it
+ * deploys the upkeep through a CronUpkeepFactory with its first job seeded,
+ * adds the rest of its jobs, and registers it as a conditional upkeep with an
+ * AutomationRegistrar2_3, funded with PLI through transferAndCall so that
+ * registering takes a single transaction.
+ */
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import {
+  BigNumber,
+  BigNumberish,
+  Contract,
+  ContractReceipt,
+  Signer,
+  utils,
+} from 'ethers'
+import {
+  CronJob,
+  CronJobConfig,
+  describeHandler,
+  nextFireTimes,
+  toCronJob,
+} from './jobs'
+import { triggerTypes } from '../automation/config'
+import { getUpkeepIDs } from '../../test/test-helpers/automation/upkeep'
+
+const erc677 = [
+  'function transferAndCall(address to, uint256 amount, bytes data) returns (bool success)',
+]
+
+/**
+ * A job read back from a CronUpkeep, with the times it fires next
+ */
+export type ListedCronJob = CronJob & {
+  id: number
+  nextTick: number
+  fireTimes: number[]
+}
+
+export type CronUpkeepRegistration = {
+  /**
+   * The name of the upkeep in the registry
+   */
+  name: string
+  /**
+   * The amount of PLI to fund the upkeep with, in juels
+   */
+  amount: BigNumberish
+  gasLimit: number
+  /**
+   * The admin of the upkeep, the signer if omitted
+   */
+  admin?: string
+  offchainConfig?: string
+}
+
+export type CronUpkeepDeployment = {
+  /**
+   * The address of the new CronUpkeep
+   */
+  upkeep: string
+  owner: string
+  /**
+   * The ID of the upkeep in the registry, if the registrar approved it
+   * automatically
+   */
+  upkeepId?: string
+  /**
+   * The hash of the registration request, if it's pending approval
+   */
+  requestHash?: string
+  deployTxHash: string
+  registerTxHash: string
+  jobs: ListedCronJob[]
+}
+
+/**
+ * Read every active job of a CronUpkeep
+ *
+ * @param upkeep The CronUpkeep
+ * @param fireTimes The number of upcoming fire times to calculate per job
+ */
+export async function getCronJobs(
+  upkeep: Contract,
+  fireTimes = 0,
+): Promise<ListedCronJob[]> {
+  const { timestamp } = await upkeep.provider.getBlock('latest')
+  const ids: BigNumber[] = await upkeep.getActiveCronJobIDs()
+  return Promise.all(
+    ids.map(async (id) => {
+      const job = await upkeep.getCronJob(id)
+      return {
+        id: id.toNumber(),
+        target: job.target,
+        handler: job.handler,
+        cronString: job.cronString,
+        nextTick: job.nextTick.toNumber(),
+        fireTimes: nextFireTimes(job.cronString, timestamp, fireTimes),
+      }
+    }),
+  )
+}
+
+/**
+ * Deploy a CronUpkeep through a factory and register it with a registrar
+ *
+ * @param hre The hardhat runtime environment
+ * @param factoryAddress The address of the CronUpkeepFactory
+ * @param registrarAddress The address of the AutomationRegistrar2_3
+ * @param jobs The jobs of the upkeep, the first of which is seeded when it's deployed
+ * @param registration The name, funding and gas limit of the upkeep
+ * @param signer The owner of the new upkeep, and the sender of the PLI
+ */
+export async function deployCronUpkeep(
+  hre: HardhatRuntimeEnvironment,
+  factoryAddress: string,
+  registrarAddress: string,
+  jobs: CronJobConfig[],
+  registration: CronUpkeepRegistration,
+  signer?: Signer,
+): Promise<CronUpkeepDeployment> {
+  if (jobs.length === 0) {
+    throw Error('a cron upkeep needs at least one job')
+  }
+  const owner = signer ?? (await hre.ethers.getSigners())[0]
+  const factory = await hre.ethers.getContractAt(
+    'CronUpkeepFactory',
+    factoryAddress,
+    owner,
+  )
+  const maxJobs: BigNumber = await factory.s_maxJobs()
+  if (maxJobs.lt(jobs.length)) {
+    throw Error(
+      `the factory allows ${maxJobs.toString()} jobs per upkeep, got ${jobs.length}`,
+    )
+  }
+  const [first, ...rest] = jobs.map(toCronJob)
+
+  const deployReceipt: ContractReceipt = await (
+    await factory.newCronUpkeepWithJob(
+      await factory.encodeCronJob(
+        first.target,
+        first.handler,
+        first.cronString,
+      ),
+    )
+  ).wait()
+  const created = deployReceipt.events?.find(
+    (event) => event.event === 'NewCronUpkeepCreated',
+  )
+  if (created?.args === undefined) {
+    throw Error(`tx ${deployReceipt.transactionHash} did not create an upkeep`)
+  }
+  const upkeep = await hre.ethers.getContractAt(
+    'CronUpkeep',
+    created.args.upkeep,
+    owner,
+  )
+  for (const job of rest) {
+    await (
+      await upkeep.createCronJobFromEncodedSpec(
+        job.target,
+        job.handler,
+        await factory.encodeCronString(job.cronString),
+      )
+    ).wait()
+  }
+
+  const registrar = await hre.ethers.getContractAt(
+    'AutomationRegistrar2_3',
+    registrarAddress,
+    owner,
+  )
+  const pli = new Contract(await registrar.i_PLI(), erc677, owner)
+  // onTokenTransfer takes the same params as registerUpkeep, abi encoded
+  const [paramsType] = registrar.interface.getFunction('registerUpkeep').inputs
+  const params = utils.defaultAbiCoder.encode(
+    [paramsType],
+    [
+      {
+        upkeepContract: upkeep.address,
+        amount: registration.amount,
+        adminAddress: registration.admin ?? (await owner.getAddress()),
+        gasLimit: registration.gasLimit,
+        triggerType: triggerTypes.condition,
+        billingToken: pli.address,
+        name: registration.name,
+        encryptedEmail: '0x',
+        checkData: '0x',
+        triggerConfig: '0x',
+        offchainConfig: registration.offchainConfig ?? '0x',
+      },
+    ],
+  )
+  const registerReceipt: ContractReceipt = await (
+    await pli.transferAndCall(registrar.address, registration.amount, params)
+  ).wait()
+  const [upkeepId] = getUpkeepIDs(registerReceipt)
+  const requested = registerReceipt.logs
+    .filter((log) => log.address === registrar.address)
+    .map((log) => registrar.interface.parseLog(log))
+    .find((event) => event.name === 'RegistrationRequested')
+
+  return {
+    upkeep: upkeep.address,
+    owner: await owner.getAddress(),
+    upkeepId: upkeepId?.toString(),
+    requestHash: upkeepId === undefined ? requested?.args.hash : undefined,
+    deployTxHash: deployReceipt.transactionHash,
+    registerTxHash: registerReceipt.transactionHash,
+    jobs: await getCronJobs(upkeep, 5),
+  }
+}
+
+/**
+ * Render a deployment for review, with the next fire times of every job
+ *
+ * @param deployment The deployment to render
+ * @param signatures The known function signatures, by selector
+ */
+export function formatCronUpkeepDeployment(
+  deployment: CronUpkeepDeployment,
+  signatures: Map<string, string> = new Map(),
+): string {
+  const lines = [
+    `CronUpkeep ${deployment.upkeep}, owned by ${deployment.owner}`,
+    deployment.upkeepId !== undefined
+      ? `registered as upkeep ${deployment.upkeepId}`
+      : `registration ${deployment.requestHash} is pending approval`,
+    'jobs:',
+  ]
+  for (const job of deployment.jobs) {
+    lines.push(
+      `  #${job.id} "${job.cronString}" ${job.target} ${describeHandler(
+        job.handler,
+        signatures,
+      )}`,
+      `     next: ${job.fireTimes
+        .map((time) => new Date(time * 1000).toISOString())
+        .join(', ')}`,
+    )
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,204 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains an assertion that a contract's ABI conforms to an
+ * interface, for interfaces a contract satisfies without inheriting them (ex.
+ * a master interface combining several logic contracts) or which the compiler
+ * can't check on its own. Functions and errors are matched by selector and
+ * events by topic, and every mismatch is reported at once rather than the
+ * first one found.
+ */
+import { utils } from 'ethers'
+import { assert } from 'chai'
+
+type InterfaceABI = ConstructorParameters<typeof utils.Interface>[0]
+
+export type StateMutability = 'pure' | 'view' | 'nonpayable' | 'payable'
+
+export type AbiEntryKind = 'function' | 'event' | 'error'
+
+/**
+ * Allows a function the interface declares with one state mutability to be
+ * implemented with another
+ */
+export type MutabilityRelaxation = {
+  /**
+   * The state mutability in the interface
+   */
+  expected: StateMutability
+  /**
+   * The state mutability the implementation may have instead
+   */
+  actual: StateMutability
+  /**
+   * The signatures of the functions the relaxation applies to, ex.
+   * "typeAndVersion()", all functions if omitted
+   */
+  functions?: string[]
+}
+
+export type ConformanceRules = {
+  /**
+   * The kinds of entries to check, all of them if omitted
+   */
+  kinds?: AbiEntryKind[]
+  mutability?: MutabilityRelaxation[]
+}
+
+/**
+ * The relaxations solc allows when a contract implements an interface
+ * function: a nonpayable function may be implemented as view or pure, and a
+ * view function as pure
+ */
+export const solidityMutabilityRelaxations: MutabilityRelaxation[] = [
+  { expected: 'nonpayable', actual: 'view' },
+  { expected: 'nonpayable', actual: 'pure' },
+  { expected: 'view', actual: 'pure' },
+]
+
+function formatParams(params: utils.ParamType[]): string {
+  return `(${params
+    .map((param) => param.format(utils.FormatTypes.sighash))
+    .join(',')})`
+}
+
+function isRelaxed(
+  rules: ConformanceRules,
+  signature: string,
+  expected: string,
+  actual: string,
+): boolean {
+  return (rules.mutability ?? []).some(
+    (relaxation) =>
+      relaxation.expected === expected &&
+      relaxation.actual === actual &&
+      (relaxation.functions === undefined ||
+        relaxation.functions.includes(signature)),
+  )
+}
+
+/**
+ * List every way in which an implementation's ABI doesn't conform to an
+ * interface
+ *
+ * @param implementation The ABI of the contract, or contracts, implementing the interface
+ * @param iface The ABI of the interface
+ * @param rules The entries to check and the relaxations to allow
+ */
+export function abiConformanceMismatches(
+  implementation: InterfaceABI,
+  iface: InterfaceABI,
+  rules: ConformanceRules = {},
+): string[] {
+  const actual = new utils.Interface(implementation)
+  const expected = new utils.Interface(iface)
+  const kinds = rules.kinds ?? ['function', 'event', 'error']
+  const mismatches: string[] = []
+
+  if (kinds.includes('function')) {
+    const functions = new Map<string, utils.FunctionFragment>()
+    for (const fragment of Object.values(actual.functions)) {
+      functions.set(actual.getSighash(fragment), fragment)
+    }
+    for (const [signature, fragment] of Object.entries(expected.functions)) {
+      const selector = expected.getSighash(fragment)
+      const implemented = functions.get(selector)
+      if (!implemented) {
+        mismatches.push(`missing function ${signature} (${selector})`)
+        continue
+      }
+      if (
+        implemented.stateMutability !== fragment.stateMutability &&
+        !isRelaxed(
+          rules,
+          signature,
+          fragment.stateMutability,
+          implemented.stateMutability,
+        )
+      ) {
+        mismatches.push(
+          `function ${signature} is ${implemented.stateMutability}, expected ${fragment.stateMutability}`,
+        )
+      }
+      const [actualOutputs, expectedOutputs] = [
+        formatParams(implemented.outputs ?? []),
+        formatParams(fragment.outputs ?? []),
+      ]
+      if (actualOutputs !== expectedOutputs) {
+        mismatches.push(
+          `function ${signature} returns ${actualOutputs}, expected ${expectedOutputs}`,
+        )
+      }
+    }
+  }
+
+  if (kinds.includes('event')) {
+    const events = new Map<string, utils.EventFragment>()
+    for (const fragment of Object.values(actual.events)) {
+      events.set(actual.getEventTopic(fragment), fragment)
+    }
+    for (const [signature, fragment] of Object.entries(expected.events)) {
+      const topic = expected.getEventTopic(fragment)
+      const implemented = events.get(topic)
+      if (!implemented) {
+        mismatches.push(`missing event ${signature} (${topic})`)
+        continue
+      }
+      const indexed = (event: utils.EventFragment) =>
+        event.inputs
+          .map((input, idx) => (input.indexed ? idx : -1))
+          .filter((idx) => idx >= 0)
+          .join(',')
+      if (indexed(implemented) !== indexed(fragment)) {
+        mismatches.push(
+          `event ${signature} indexes parameters [${indexed(
+            implemented,
+          )}], expected [${indexed(fragment)}]`,
+        )
+      }
+      if (implemented.anonymous !== fragment.anonymous) {
+        mismatches.push(
+          `event ${signature} is ${
+            implemented.anonymous ? '' : 'not '
+          }anonymous, expected ${fragment.anonymous ? '' : 'not '}anonymous`,
+        )
+      }
+    }
+  }
+
+  if (kinds.includes('error')) {
+    const errors = new Set(
+      Object.values(actual.errors).map((fragment) =>
+        actual.getSighash(fragment),
+      ),
+    )
+    for (const [signature, fragment] of Object.entries(expected.errors)) {
+      const selector = expected.getSighash(fragment)
+      if (!errors.has(selector)) {
+        mismatches.push(`missing error ${signature} (${selector})`)
+      }
+    }
+  }
+
+  return mismatches
+}
+
+/**
+ * Check that an implementation's ABI conforms to an interface, failing with
+ * every mismatch found
+ *
+ * @param implementation The ABI of the contract, or contracts, implementing the interface
+ * @param iface The ABI of the interface
+ * @param rules The entries to check and the relaxations to allow
+ */
+export function expectAbiConformance(
+  implementation: InterfaceABI,
+  iface: InterfaceABI,
+  rules: ConformanceRules = {},
+): void {
+  const mismatches = abiConformanceMismatches(implementation, iface, rules)
+  assert.isEmpty(
+    mismatches,
+    `ABI does not conform to the interface:\n  ${mismatches.join('\n  ')}`,
+  )
+}
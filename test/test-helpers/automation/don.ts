@@ -0,0 +1,600 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains a local stand-in for an automation DON, which runs
+ * conditional upkeeps end to end against a hardhat node. Every round it checks
+ * the active conditional upkeeps of a registry (v2.1, v2.2, v2.3 or ZKSync
+ * v2.3) with static checkUpkeep calls at the latest block, packs the eligible
+ * ones into reports that fit a gas budget, signs each report with f + 1 of the
+ * DON's signer wallets and transmits it from the DON's transmitter. Log
+ * upkeeps are checked with the logs that triggered them since the previous
+ * round, which are found with the matcher in logTrigger.ts. Given the URL of a
+ * data streams API (see StreamsServer), checks that revert with StreamsLookup
+ * are completed with the reports it serves.
+ *
+ * The registry must be configured with the addresses of the signer wallets
+ * (see donSigners in report.ts) and with the transmitter, like it would be for
+ * a real DON.
+ */
+import {
+  BigNumber,
+  Contract,
+  ContractReceipt,
+  Signer,
+  Wallet,
+  constants,
+  providers,
+  utils,
+} from 'ethers'
+import { IAutomationRegistryMaster2_3 as IAutomationRegistry } from '../../../typechain/IAutomationRegistryMaster2_3'
+import { getRegistryVersion } from './migration'
+import {
+  UpkeepData,
+  makeReport,
+  makeReportContext,
+  quorumSigners,
+  signReport,
+  transmitSigned,
+} from './report'
+import {
+  Trigger,
+  encodeBlockTrigger,
+  encodeLogTrigger,
+  getTriggerType,
+} from './upkeep'
+import {
+  LogTriggerMatch,
+  checkLogTrigger,
+  findLogTriggers,
+  getLogUpkeeps,
+  logTriggerDedupKey,
+  makeLogTrigger,
+} from './logTrigger'
+import { StreamsCallback, checkStreamsLookup } from './streams'
+import { registryEvents } from './indexer'
+
+export type DONRegistryVersion = '2.1' | '2.2' | '2.3' | 'zksync-2.3'
+
+// copied from AutomationRegistryBase2_3.sol (unchanged since v2.1)
+export enum UpkeepFailureReason {
+  NONE,
+  UPKEEP_CANCELLED,
+  UPKEEP_PAUSED,
+  TARGET_CHECK_REVERTED,
+  UPKEEP_NOT_NEEDED,
+  PERFORM_DATA_EXCEEDS_LIMIT,
+  INSUFFICIENT_BALANCE,
+  CALLBACK_REVERTED,
+  REVERT_DATA_EXCEEDS_LIMIT,
+  REGISTRY_PAUSED,
+}
+
+export type DONOptions = {
+  /**
+   * The wallets of the DON's signers, at least f + 1 of which must be
+   * configured on the registry
+   */
+  signers: Wallet[]
+  /**
+   * An active transmitter of the registry, connected to the node
+   */
+  transmitter: Signer
+  /**
+   * The most gas a single transmit may use, the block gas limit if omitted
+   */
+  maxReportGas?: number
+  /**
+   * The first block to scan for the logs that trigger log upkeeps, the block
+   * the DON connects at if omitted
+   */
+  fromBlock?: number
+  /**
+   * The base URL of the data streams API to complete StreamsLookups with.
+   * Checks that revert with StreamsLookup fail as TARGET_CHECK_REVERTED if
+   * omitted.
+   */
+  streamsUrl?: string
+  /**
+   * Called with a line describing each thing the DON does
+   */
+  log?: (message: string) => void
+}
+
+/**
+ * The result of checking an upkeep at a block
+ */
+export type UpkeepCheck = {
+  id: BigNumber
+  upkeepNeeded: boolean
+  failureReason: UpkeepFailureReason
+  performData: string
+  /**
+   * The perform gas limit of the upkeep
+   */
+  gasLimit: BigNumber
+  fastGasWei: BigNumber
+  /**
+   * The PLI / native price for v2.1 - v2.2 registries, and the PLI / USD price from v2.3
+   */
+  pliPrice: BigNumber
+  /**
+   * The log the upkeep was checked with, for log upkeeps
+   */
+  log?: LogTriggerMatch
+  /**
+   * The StreamsLookup the upkeep's check reverted with and the result of
+   * calling it back with the reports, which the rest of the check reflects
+   */
+  streams?: StreamsCallback
+}
+
+export type UpkeepPerform = {
+  id: BigNumber
+  success: boolean
+}
+
+export type Transmission = {
+  txHash: string
+  upkeepIds: BigNumber[]
+  /**
+   * The upkeeps the registry performed, in report order. Upkeeps it skipped,
+   * ex. because their trigger went stale, are left out.
+   */
+  performed: UpkeepPerform[]
+}
+
+export type DONRound = {
+  /**
+   * The block the upkeeps were checked at
+   */
+  blockNumber: number
+  checks: UpkeepCheck[]
+  transmissions: Transmission[]
+}
+
+// every version from v2.1 returns these from getState(), as StateLegacy and
+// OnchainConfigLegacy
+const stateLegacyType =
+  'tuple(uint32 nonce, uint96 ownerPliBalance, uint256 expectedPliBalance, uint96 totalPremium, uint256 numUpkeeps, uint32 configCount, uint32 latestConfigBlockNumber, bytes32 latestConfigDigest, uint32 latestEpoch, bool paused)'
+const onchainConfigLegacyType =
+  'tuple(uint32 paymentPremiumPPB, uint32 flatFeeMicroPli, uint32 checkGasLimit, uint24 stalenessSeconds, uint16 gasCeilingMultiplier, uint96 minUpkeepSpend, uint32 maxPerformGas, uint32 maxCheckDataSize, uint32 maxPerformDataSize, uint32 maxRevertDataSize, uint256 fallbackGasPrice, uint256 fallbackPliPrice, address transcoder, address[] registrars, address upkeepPrivilegeManager)'
+
+/**
+ * The functions the DON calls, which are the same in every registry version
+ * from v2.1, except for the getters added in v2.2
+ */
+const registryInterface = new utils.Interface([
+  'function typeAndVersion() view returns (string)',
+  `function getState() view returns (${stateLegacyType} state, ${onchainConfigLegacyType} config, address[] signers, address[] transmitters, uint8 f)`,
+  'function getActiveUpkeepIDs(uint256 startIndex, uint256 maxCount) view returns (uint256[])',
+  'function checkUpkeep(uint256 id) view returns (bool upkeepNeeded, bytes performData, uint8 upkeepFailureReason, uint256 gasUsed, uint256 gasLimit, uint256 fastGasWei, uint256 pliPrice)',
+  'function checkUpkeep(uint256 id, bytes triggerData) view returns (bool upkeepNeeded, bytes performData, uint8 upkeepFailureReason, uint256 gasUsed, uint256 gasLimit, uint256 fastGasWei, uint256 pliPrice)',
+  'function getUpkeepTriggerConfig(uint256 upkeepId) view returns (bytes)',
+  'function hasDedupKey(bytes32 dedupKey) view returns (bool)',
+  'function checkCallback(uint256 id, bytes[] values, bytes extraData) view returns (bool upkeepNeeded, bytes performData, uint8 upkeepFailureReason, uint256 gasUsed)',
+  'function getTransmitterInfo(address query) view returns (bool active, uint8 index, uint96 balance, uint96 lastCollected, address payee)',
+  'function getConditionalGasOverhead() pure returns (uint256)',
+  'function getLogGasOverhead() pure returns (uint256)',
+  'function getPerSignerGasOverhead() pure returns (uint256)',
+  'function transmit(bytes32[3] reportContext, bytes rawReport, bytes32[] rs, bytes32[] ss, bytes32 rawVs)',
+  // v2.2+
+  'function getReorgProtectionEnabled() view returns (bool)',
+  'function getAllowedReadOnlyAddress() view returns (address)',
+  // v2.2 - v2.3, but not ZKSync v2.3, which doesn't charge for calldata
+  'function getTransmitCalldataFixedBytesOverhead() pure returns (uint256)',
+])
+
+// copied from AutomationRegistryBase2_3.sol (unchanged since v2.1)
+const PERFORM_GAS_CUSHION = 5_000
+// covers the calldata and signature checks of a transmit, on top of the
+// registry's own per upkeep and per signer overheads
+const TRANSMIT_GAS_BUFFER = 100_000
+
+/**
+ * Get the version of a registry the DON can run upkeeps for
+ *
+ * @param registry The registry
+ */
+export async function getDONRegistryVersion(
+  registry: Contract,
+): Promise<DONRegistryVersion> {
+  const typeAndVersion: string = await registry.typeAndVersion()
+  const version = getRegistryVersion(typeAndVersion)
+  if (version === '2.1' || version === '2.2') {
+    return version
+  }
+  if (version !== '2.3') {
+    throw Error(
+      `the DON runs upkeeps for registries from v2.1, got ${typeAndVersion}`,
+    )
+  }
+  // the ZKSync registry reports the same typeAndVersion, but has no calldata overheads
+  try {
+    await registry.getTransmitCalldataFixedBytesOverhead()
+    return '2.3'
+  } catch {
+    return 'zksync-2.3'
+  }
+}
+
+// ethers never reports a lower block number than one it has seen, which is
+// stale after reverting to a snapshot, so read the latest block instead
+async function getLatestBlockNumber(provider: providers.Provider) {
+  return (await provider.getBlock('latest')).number
+}
+
+/**
+ * A local automation DON, serving a single registry
+ */
+export class AutomationDON {
+  private timer?: NodeJS.Timeout
+  private running?: Promise<void>
+  private lastRoundBlock?: number
+
+  private constructor(
+    private readonly registry: Contract,
+    readonly version: DONRegistryVersion,
+    private readonly readOnlyAddress: string,
+    private readonly options: DONOptions,
+    private nextLogBlock: number,
+  ) {}
+
+  /**
+   * Connect a DON to a registry, checking that it's one of the registry's
+   * active transmitters
+   *
+   * @param address The address of the registry
+   * @param options The signers and transmitter of the DON
+   */
+  static async connect(
+    address: string,
+    options: DONOptions,
+  ): Promise<AutomationDON> {
+    const provider = options.transmitter.provider
+    if (provider === undefined) {
+      throw Error('the transmitter must be connected to a provider')
+    }
+    const registry = new Contract(address, registryInterface, provider)
+    const version = await getDONRegistryVersion(registry)
+    const transmitter = await options.transmitter.getAddress()
+    const { active } = await registry.getTransmitterInfo(transmitter)
+    if (!active) {
+      throw Error(
+        `${transmitter} is not an active transmitter of registry ${address}`,
+      )
+    }
+    // v2.1 only lets tx.origin 0x0 simulate checks, later versions make it configurable
+    const readOnlyAddress =
+      version === '2.1'
+        ? constants.AddressZero
+        : await registry.getAllowedReadOnlyAddress()
+    return new AutomationDON(
+      registry,
+      version,
+      readOnlyAddress,
+      options,
+      options.fromBlock ?? (await getLatestBlockNumber(provider)),
+    )
+  }
+
+  get address(): string {
+    return this.registry.address
+  }
+
+  /**
+   * Check every active conditional upkeep of the registry, and every log
+   * upkeep once per log that triggered it since the previous check. Logs the
+   * registry has already performed an upkeep for are skipped.
+   *
+   * @param blockNumber The block to check the upkeeps at, the latest if omitted
+   */
+  async check(blockNumber?: number): Promise<UpkeepCheck[]> {
+    const blockTag =
+      blockNumber ?? (await getLatestBlockNumber(this.registry.provider))
+    const ids: BigNumber[] = await this.registry.getActiveUpkeepIDs(0, 0, {
+      blockTag,
+    })
+    const checks: UpkeepCheck[] = []
+    for (const id of ids) {
+      if (getTriggerType(id) !== Trigger.CONDITION) {
+        continue
+      }
+      const result = await this.registry.callStatic['checkUpkeep(uint256)'](
+        id,
+        { blockTag, from: this.readOnlyAddress },
+      )
+      checks.push(
+        await this.withStreams(
+          {
+            id,
+            upkeepNeeded: result.upkeepNeeded,
+            failureReason: result.upkeepFailureReason,
+            performData: result.performData,
+            gasLimit: result.gasLimit,
+            fastGasWei: result.fastGasWei,
+            pliPrice: result.pliPrice,
+          },
+          blockTag,
+        ),
+      )
+    }
+
+    if (this.nextLogBlock > blockTag) {
+      return checks
+    }
+    const matches = await findLogTriggers(
+      this.registry.provider,
+      await getLogUpkeeps(this.registry, ids),
+      this.nextLogBlock,
+      blockTag,
+    )
+    this.nextLogBlock = blockTag + 1
+    for (const match of matches) {
+      const dedupKey = logTriggerDedupKey(
+        match.upkeepId,
+        makeLogTrigger(match, blockTag),
+      )
+      if (await this.registry.hasDedupKey(dedupKey, { blockTag })) {
+        continue
+      }
+      const result = await checkLogTrigger(
+        this.registry,
+        match,
+        blockTag,
+        this.readOnlyAddress,
+      )
+      checks.push(
+        await this.withStreams(
+          {
+            id: match.upkeepId,
+            upkeepNeeded: result.upkeepNeeded,
+            failureReason: result.upkeepFailureReason,
+            performData: result.performData,
+            gasLimit: result.gasLimit,
+            fastGasWei: result.fastGasWei,
+            pliPrice: result.pliPrice,
+            log: match,
+          },
+          blockTag,
+        ),
+      )
+    }
+    return checks
+  }
+
+  /**
+   * Perform upkeeps checked at a block, packing them into as few reports as
+   * fit the gas budget. Each report carries the perform gas limits of its
+   * upkeeps, and the transmit is sent with enough gas to give every upkeep
+   * its full limit.
+   *
+   * @param checks The upkeeps to perform, checked at the block
+   * @param blockNumber The block the upkeeps were checked at
+   */
+  async perform(
+    checks: UpkeepCheck[],
+    blockNumber: number,
+  ): Promise<Transmission[]> {
+    const eligible = checks.filter((check) => check.upkeepNeeded)
+    if (eligible.length === 0) {
+      return []
+    }
+    const provider = this.registry.provider
+    const { state, signers, f } = await this.registry.getState({
+      blockTag: blockNumber,
+    })
+    const configured = new Set(signers.map((s: string) => s.toLowerCase()))
+    const wallets = this.options.signers.filter((wallet) =>
+      configured.has(wallet.address.toLowerCase()),
+    )
+    if (wallets.length < f + 1) {
+      throw Error(
+        `reports need ${f + 1} signatures, but only ${wallets.length} of the DON's signers are configured on registry ${this.address}`,
+      )
+    }
+    // the registry only checks the hash of the trigger block when reorg protection is on
+    const reorgProtection =
+      this.version === '2.1' ||
+      (await this.registry.getReorgProtectionEnabled())
+    const blockHash = reorgProtection
+      ? (await provider.getBlock(blockNumber)).hash
+      : constants.HashZero
+    const trigger = (check: UpkeepCheck) =>
+      check.log === undefined
+        ? encodeBlockTrigger({ blockNum: blockNumber, blockHash })
+        : encodeLogTrigger(makeLogTrigger(check.log, blockNumber, blockHash))
+
+    const conditionalOverhead: BigNumber =
+      await this.registry.getConditionalGasOverhead()
+    const logOverhead: BigNumber = await this.registry.getLogGasOverhead()
+    const perSignerOverhead: BigNumber =
+      await this.registry.getPerSignerGasOverhead()
+    const maxReportGas =
+      this.options.maxReportGas ??
+      (await provider.getBlock('latest')).gasLimit.toNumber()
+    const baseGas = perSignerOverhead.mul(f + 1).add(TRANSMIT_GAS_BUFFER)
+    // the forwarder needs 1/64 more than the gas limit, to pass it on after EIP-150
+    const upkeepGas = (check: UpkeepCheck) =>
+      check.gasLimit
+        .mul(64)
+        .div(63)
+        .add(PERFORM_GAS_CUSHION)
+        .add(check.log === undefined ? conditionalOverhead : logOverhead)
+
+    const batches: { upkeeps: UpkeepCheck[]; gas: BigNumber }[] = []
+    for (const check of eligible) {
+      const gas = upkeepGas(check)
+      if (baseGas.add(gas).gt(maxReportGas)) {
+        this.log(
+          `upkeep ${check.id.toString()} needs more than the ${maxReportGas} gas a report can use, skipping it`,
+        )
+        continue
+      }
+      const batch = batches.find((b) => b.gas.add(gas).lte(maxReportGas))
+      if (batch === undefined) {
+        batches.push({ upkeeps: [check], gas: baseGas.add(gas) })
+      } else {
+        batch.upkeeps.push(check)
+        batch.gas = batch.gas.add(gas)
+      }
+    }
+
+    const transmissions: Transmission[] = []
+    for (const batch of batches) {
+      const upkeeps: UpkeepData[] = batch.upkeeps.map((check) => ({
+        Id: check.id,
+        performGas: check.gasLimit,
+        performData: check.performData,
+        trigger: trigger(check),
+      }))
+      const [{ fastGasWei, pliPrice }] = batch.upkeeps
+      const report = makeReport(upkeeps, fastGasWei, pliPrice)
+      const reportContext = makeReportContext(state.latestConfigDigest)
+      const tx = await transmitSigned(
+        this.registry as unknown as IAutomationRegistry,
+        this.options.transmitter,
+        reportContext,
+        report,
+        signReport(reportContext, report, quorumSigners(wallets, f)),
+        { gasLimit: batch.gas },
+      )
+      const receipt: ContractReceipt = await tx.wait()
+      const transmission = {
+        txHash: receipt.transactionHash,
+        upkeepIds: batch.upkeeps.map((check) => check.id),
+        performed: getPerforms(receipt),
+      }
+      this.log(
+        `transmitted ${transmission.upkeepIds.length} upkeeps checked at block ${blockNumber} in tx ${transmission.txHash}: ${transmission.performed
+          .map(
+            (p) => `${p.id.toString()} ${p.success ? 'performed' : 'failed'}`,
+          )
+          .join(', ')}`,
+      )
+      transmissions.push(transmission)
+    }
+    return transmissions
+  }
+
+  /**
+   * Check the upkeeps at a block and perform the eligible ones
+   *
+   * @param blockNumber The block to check the upkeeps at, the latest if omitted
+   */
+  async round(blockNumber?: number): Promise<DONRound> {
+    const blockTag =
+      blockNumber ?? (await getLatestBlockNumber(this.registry.provider))
+    const checks = await this.check(blockTag)
+    return {
+      blockNumber: blockTag,
+      checks,
+      transmissions: await this.perform(checks, blockTag),
+    }
+  }
+
+  /**
+   * Run a round on every new block until stopped. Blocks mined while a round
+   * is running are skipped, and errors are logged rather than stopping the DON.
+   *
+   * @param intervalMs The time between polls for a new block
+   */
+  start(intervalMs = 250): void {
+    if (this.timer !== undefined) {
+      throw Error('the DON is already running')
+    }
+    this.timer = setInterval(() => {
+      if (this.running !== undefined) {
+        return
+      }
+      this.running = this.roundOnNewBlock()
+        .catch((e) => this.log(`round failed: ${(e as Error).message}`))
+        .finally(() => {
+          this.running = undefined
+        })
+    }, intervalMs)
+    this.log(`running upkeeps of v${this.version} registry ${this.address}`)
+  }
+
+  /**
+   * Stop running rounds, waiting for the current round to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer !== undefined) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+    await this.running
+  }
+
+  private async roundOnNewBlock(): Promise<void> {
+    const blockNumber = await getLatestBlockNumber(this.registry.provider)
+    // compared for inequality, as the chain goes back when a snapshot is reverted
+    if (blockNumber === this.lastRoundBlock) {
+      return
+    }
+    this.lastRoundBlock = blockNumber
+    await this.round(blockNumber)
+  }
+
+  private async withStreams(
+    check: UpkeepCheck,
+    blockTag: number,
+  ): Promise<UpkeepCheck> {
+    if (
+      this.options.streamsUrl === undefined ||
+      check.failureReason !== UpkeepFailureReason.TARGET_CHECK_REVERTED
+    ) {
+      return check
+    }
+    let streams: StreamsCallback | undefined
+    try {
+      streams = await checkStreamsLookup(
+        this.registry,
+        check.id,
+        check.performData,
+        this.options.streamsUrl,
+        { blockTag, from: this.readOnlyAddress },
+      )
+    } catch (e) {
+      // a lookup failing for one upkeep (ex. the streams API rejecting it, or
+      // checkCallback reverting) shouldn't fail the round for the others
+      this.log(
+        `upkeep ${check.id.toString()} failed to look up streams reports: ${(e as Error).message}`,
+      )
+      return check
+    }
+    if (streams === undefined) {
+      return check
+    }
+    this.log(
+      `upkeep ${check.id.toString()} looked up ${streams.lookup.feeds.length} streams reports`,
+    )
+    return {
+      ...check,
+      upkeepNeeded: streams.upkeepNeeded,
+      failureReason: streams.upkeepFailureReason,
+      performData: streams.performData,
+      streams,
+    }
+  }
+
+  private log(message: string) {
+    this.options.log?.(message)
+  }
+}
+
+function getPerforms(receipt: providers.TransactionReceipt): UpkeepPerform[] {
+  const performs: UpkeepPerform[] = []
+  for (const log of receipt.logs) {
+    let event: utils.LogDescription
+    try {
+      event = registryEvents.parseLog(log)
+    } catch {
+      continue
+    }
+    if (event.name === 'UpkeepPerformed') {
+      performs.push({ id: event.args.id, success: event.args.success })
+    }
+  }
+  return performs
+}
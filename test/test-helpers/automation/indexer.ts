@@ -0,0 +1,321 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains an indexer for the upkeep events of automation registries,
+ * from KeeperRegistry1_2 through AutomationRegistry2_3 and its ZKSync variant.
+ * Events are decoded with the fragments of every registry version, so the same
+ * indexer follows an upkeep across migrations between versions, and grouped
+ * into a timeline per upkeep ID which answers "what happened to upkeep X".
+ */
+import { BigNumber, providers, utils } from 'ethers'
+
+/**
+ * The upkeep events of every registry version, one fragment per distinct
+ * signature. Parameters which were only renamed between versions (ex.
+ * executeGas / performGas) share a topic, so only one version is listed.
+ */
+const eventFragments = [
+  // all versions
+  'event UpkeepRegistered(uint256 indexed id, uint32 performGas, address admin)',
+  'event FundsAdded(uint256 indexed id, address indexed from, uint96 amount)',
+  'event FundsWithdrawn(uint256 indexed id, uint256 amount, address to)',
+  'event UpkeepCanceled(uint256 indexed id, uint64 indexed atBlockHeight)',
+  'event UpkeepMigrated(uint256 indexed id, uint256 remainingBalance, address destination)',
+  'event UpkeepReceived(uint256 indexed id, uint256 startingBalance, address importedFrom)',
+  'event UpkeepGasLimitSet(uint256 indexed id, uint96 gasLimit)',
+  // v1.2 - v1.3
+  'event UpkeepPerformed(uint256 indexed id, bool indexed success, address indexed from, uint96 payment, bytes performData)',
+  // v1.3+
+  'event UpkeepPaused(uint256 indexed id)',
+  'event UpkeepUnpaused(uint256 indexed id)',
+  'event UpkeepAdminTransferRequested(uint256 indexed id, address indexed from, address indexed to)',
+  'event UpkeepAdminTransferred(uint256 indexed id, address indexed from, address indexed to)',
+  // v1.3 - v2.0
+  'event UpkeepCheckDataUpdated(uint256 indexed id, bytes newCheckData)',
+  // v2.0
+  'event UpkeepPerformed(uint256 indexed id, bool indexed success, uint32 checkBlockNumber, uint256 gasUsed, uint256 gasOverhead, uint96 totalPayment)',
+  'event StaleUpkeepReport(uint256 indexed id)',
+  'event ReorgedUpkeepReport(uint256 indexed id)',
+  'event InsufficientFundsUpkeepReport(uint256 indexed id)',
+  'event CancelledUpkeepReport(uint256 indexed id)',
+  // v2.0+
+  'event UpkeepOffchainConfigSet(uint256 indexed id, bytes offchainConfig)',
+  // v2.1+
+  'event UpkeepPerformed(uint256 indexed id, bool indexed success, uint96 totalPayment, uint256 gasUsed, uint256 gasOverhead, bytes trigger)',
+  'event StaleUpkeepReport(uint256 indexed id, bytes trigger)',
+  'event ReorgedUpkeepReport(uint256 indexed id, bytes trigger)',
+  'event InsufficientFundsUpkeepReport(uint256 indexed id, bytes trigger)',
+  'event CancelledUpkeepReport(uint256 indexed id, bytes trigger)',
+  'event UpkeepCheckDataSet(uint256 indexed id, bytes newCheckData)',
+  'event UpkeepTriggerConfigSet(uint256 indexed id, bytes triggerConfig)',
+  'event UpkeepPrivilegeConfigSet(uint256 indexed id, bytes privilegeConfig)',
+  // v2.3
+  'event UpkeepCharged(uint256 indexed id, tuple(uint96 gasChargeInBillingToken, uint96 premiumInBillingToken, uint96 gasReimbursementInJuels, uint96 premiumInJuels, address billingToken, uint96 pliUSD, uint96 nativeUSD, uint96 billingUSD) receipt)',
+  'event BillingConfigOverridden(uint256 indexed id, tuple(uint32 gasFeePPB, uint24 flatFeeMilliCents) overrides)',
+  'event BillingConfigOverrideRemoved(uint256 indexed id)',
+]
+
+export const registryEvents = new utils.Interface(eventFragments)
+
+/**
+ * What an event means for the upkeep it's emitted for
+ */
+export type UpkeepEventKind =
+  | 'registered'
+  | 'funded'
+  | 'withdrawn'
+  | 'performed'
+  | 'charged'
+  | 'skipped'
+  | 'paused'
+  | 'unpaused'
+  | 'migrated'
+  | 'received'
+  | 'cancelled'
+  | 'updated'
+
+const eventKinds: { [name: string]: UpkeepEventKind } = {
+  UpkeepRegistered: 'registered',
+  FundsAdded: 'funded',
+  FundsWithdrawn: 'withdrawn',
+  UpkeepPerformed: 'performed',
+  UpkeepCharged: 'charged',
+  StaleUpkeepReport: 'skipped',
+  ReorgedUpkeepReport: 'skipped',
+  InsufficientFundsUpkeepReport: 'skipped',
+  CancelledUpkeepReport: 'skipped',
+  UpkeepPaused: 'paused',
+  UpkeepUnpaused: 'unpaused',
+  UpkeepMigrated: 'migrated',
+  UpkeepReceived: 'received',
+  UpkeepCanceled: 'cancelled',
+}
+
+export type UpkeepEvent = {
+  id: BigNumber
+  kind: UpkeepEventKind
+  name: string
+  args: utils.Result
+  registry: string
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+}
+
+/**
+ * Decode a log emitted by a registry of any version
+ *
+ * @param log The log to decode
+ * @returns The decoded event, or null if the log isn't an upkeep event
+ */
+export function decodeRegistryLog(log: providers.Log): UpkeepEvent | null {
+  let parsed: utils.LogDescription
+  try {
+    parsed = registryEvents.parseLog(log)
+  } catch {
+    return null
+  }
+  return {
+    id: parsed.args.id,
+    kind: eventKinds[parsed.name] ?? 'updated',
+    name: parsed.name,
+    args: parsed.args,
+    registry: utils.getAddress(log.address),
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+  }
+}
+
+/**
+ * Parse the registry events with a name out of a list of logs, ex. the logs of
+ * a transaction receipt
+ *
+ * @param logs The logs to parse
+ * @param name The name of the event, ex. "UpkeepPerformed"
+ */
+export function parseRegistryLogs(
+  logs: providers.Log[],
+  name: string,
+): utils.LogDescription[] {
+  const parsed: utils.LogDescription[] = []
+  for (const log of logs) {
+    try {
+      const description = registryEvents.parseLog(log)
+      if (description.name === name) {
+        parsed.push(description)
+      }
+    } catch {
+      continue
+    }
+  }
+  return parsed
+}
+
+/**
+ * Where the indexer keeps the events it has decoded
+ */
+export interface UpkeepEventStore {
+  add(events: UpkeepEvent[]): void
+  /**
+   * The events of an upkeep, in the order they were emitted
+   */
+  getTimeline(id: BigNumber): UpkeepEvent[]
+  getUpkeepIds(): BigNumber[]
+}
+
+export class MemoryUpkeepEventStore implements UpkeepEventStore {
+  private readonly timelines = new Map<string, UpkeepEvent[]>()
+
+  add(events: UpkeepEvent[]): void {
+    for (const event of events) {
+      const key = event.id.toString()
+      const timeline = this.timelines.get(key) ?? []
+      const duplicate = timeline.some(
+        (e) =>
+          e.transactionHash === event.transactionHash &&
+          e.logIndex === event.logIndex,
+      )
+      if (!duplicate) {
+        timeline.push(event)
+        timeline.sort(
+          (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+        )
+        this.timelines.set(key, timeline)
+      }
+    }
+  }
+
+  getTimeline(id: BigNumber): UpkeepEvent[] {
+    return this.timelines.get(id.toString()) ?? []
+  }
+
+  getUpkeepIds(): BigNumber[] {
+    return [...this.timelines.keys()].map((id) => BigNumber.from(id))
+  }
+}
+
+export type RegistryIndexerOptions = {
+  provider: providers.Provider
+  /**
+   * The registries to index, all contracts emitting upkeep events if omitted
+   */
+  registries?: string[]
+  store?: UpkeepEventStore
+  /**
+   * The number of blocks to request logs for at once
+   */
+  batchSize?: number
+}
+
+/**
+ * Indexes the upkeep events of registries over block ranges. Each call to
+ * `index` continues from the last block indexed.
+ */
+export class RegistryIndexer {
+  readonly store: UpkeepEventStore
+  private readonly provider: providers.Provider
+  private readonly registries?: string[]
+  private readonly batchSize: number
+  private nextBlock = 0
+
+  constructor(options: RegistryIndexerOptions) {
+    this.provider = options.provider
+    this.registries = options.registries?.map((r) => utils.getAddress(r))
+    this.store = options.store ?? new MemoryUpkeepEventStore()
+    this.batchSize = options.batchSize ?? 2000
+  }
+
+  /**
+   * Decode and store the events in a block range
+   *
+   * @param fromBlock The first block to index, defaults to the block after the
+   * last one indexed
+   * @param toBlock The last block to index, defaults to the latest block
+   * @returns The events found in the range
+   */
+  async index(fromBlock?: number, toBlock?: number): Promise<UpkeepEvent[]> {
+    const start = fromBlock ?? this.nextBlock
+    const end = toBlock ?? (await this.provider.getBlockNumber())
+    const topics = [
+      Object.values(registryEvents.events).map((e) =>
+        registryEvents.getEventTopic(e),
+      ),
+    ]
+    const events: UpkeepEvent[] = []
+    for (let from = start; from <= end; from += this.batchSize) {
+      const to = Math.min(from + this.batchSize - 1, end)
+      const addresses = this.registries ?? [undefined]
+      for (const address of addresses) {
+        const logs = await this.provider.getLogs({
+          address,
+          topics,
+          fromBlock: from,
+          toBlock: to,
+        })
+        for (const log of logs) {
+          const event = decodeRegistryLog(log)
+          if (event) {
+            events.push(event)
+          }
+        }
+      }
+    }
+    this.store.add(events)
+    this.nextBlock = Math.max(this.nextBlock, end + 1)
+    return events
+  }
+
+  /**
+   * The events of an upkeep indexed so far, across all indexed registries
+   *
+   * @param id The upkeep ID
+   */
+  timeline(id: BigNumber): UpkeepEvent[] {
+    return this.store.getTimeline(id)
+  }
+}
+
+/**
+ * Render an upkeep's timeline for review, one line per event
+ *
+ * @param events The events returned by `RegistryIndexer.timeline`
+ */
+export function formatTimeline(events: UpkeepEvent[]): string {
+  return events
+    .map((event) => {
+      const args = event.args
+      let detail = ''
+      switch (event.kind) {
+        case 'registered':
+          detail = `admin ${args.admin}, gas limit ${args[1].toString()}`
+          break
+        case 'funded':
+          detail = `${args.amount.toString()} from ${args.from}`
+          break
+        case 'withdrawn':
+          detail = `${args.amount.toString()} to ${args.to}`
+          break
+        case 'performed':
+          detail = args.success ? 'succeeded' : 'failed'
+          break
+        case 'migrated':
+          detail = `to ${args.destination} with ${args.remainingBalance.toString()}`
+          break
+        case 'received':
+          detail = `from ${args.importedFrom} with ${args.startingBalance.toString()}`
+          break
+        case 'cancelled':
+          detail = `at block ${args.atBlockHeight.toString()}`
+          break
+        case 'skipped':
+        case 'updated':
+          detail = event.name
+          break
+      }
+      return `block ${event.blockNumber} ${event.registry} ${event.kind}${
+        detail ? ` ${detail}` : ''
+      }`
+    })
+    .join('\n')
+}
@@ -0,0 +1,207 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains a local stand-in for the log provider of an automation
+ * DON (v2.1 - v2.3): it scans blocks of a hardhat node for the logs that match
+ * the trigger configs of log upkeeps, checks each match with the registry,
+ * which passes the log on to the upkeep's checkLog, and builds the log
+ * triggers that reports perform the eligible matches with. Trigger configs are
+ * encoded and matched with the functions in upkeep.ts.
+ */
+import {
+  BigNumber,
+  BigNumberish,
+  Contract,
+  constants,
+  providers,
+  utils,
+} from 'ethers'
+import {
+  Log,
+  LogTrigger,
+  LogTriggerConfig,
+  Trigger,
+  decodeLogTriggerConfig,
+  encodeLog,
+  getTriggerType,
+  matchesLogTriggerConfig,
+  toAutomationLog,
+} from './upkeep'
+
+/**
+ * A log upkeep and the config of the logs that trigger it
+ */
+export type LogUpkeep = {
+  id: BigNumber
+  config: LogTriggerConfig
+}
+
+/**
+ * A log which matched the trigger config of a log upkeep
+ */
+export type LogTriggerMatch = {
+  upkeepId: BigNumber
+  /**
+   * The log as the upkeep receives it in checkLog
+   */
+  log: Log
+  /**
+   * The log as the node returned it
+   */
+  rawLog: providers.Log
+}
+
+/**
+ * The result of checking a matched log with the registry
+ */
+export type LogTriggerCheck = {
+  upkeepNeeded: boolean
+  performData: string
+  upkeepFailureReason: number
+  gasLimit: BigNumber
+  fastGasWei: BigNumber
+  pliPrice: BigNumber
+}
+
+/**
+ * Read the trigger configs of the log upkeeps among the given upkeeps
+ *
+ * @param registry The registry the upkeeps are registered with
+ * @param ids The IDs of the upkeeps, of any trigger type
+ */
+export async function getLogUpkeeps(
+  registry: Contract,
+  ids: BigNumberish[],
+): Promise<LogUpkeep[]> {
+  const upkeeps: LogUpkeep[] = []
+  for (const id of ids) {
+    if (getTriggerType(id) !== Trigger.LOG) {
+      continue
+    }
+    upkeeps.push({
+      id: BigNumber.from(id),
+      config: decodeLogTriggerConfig(await registry.getUpkeepTriggerConfig(id)),
+    })
+  }
+  return upkeeps
+}
+
+/**
+ * Find the logs emitted in a range of blocks that trigger the given upkeeps,
+ * in the order they were emitted. A log which matches several upkeeps is
+ * returned once per upkeep.
+ *
+ * @param provider The provider of the node to scan
+ * @param upkeeps The log upkeeps to match logs for
+ * @param fromBlock The first block to scan
+ * @param toBlock The last block to scan
+ */
+export async function findLogTriggers(
+  provider: providers.Provider,
+  upkeeps: LogUpkeep[],
+  fromBlock: number,
+  toBlock: number,
+): Promise<LogTriggerMatch[]> {
+  const timestamps = new Map<string, number>()
+  const matches: LogTriggerMatch[] = []
+  for (const upkeep of upkeeps) {
+    const logs = await provider.getLogs({
+      address: upkeep.config.contractAddress,
+      topics: [utils.hexlify(upkeep.config.topic0)],
+      fromBlock,
+      toBlock,
+    })
+    for (const rawLog of logs) {
+      if (!matchesLogTriggerConfig(upkeep.config, rawLog)) {
+        continue
+      }
+      if (!timestamps.has(rawLog.blockHash)) {
+        const block = await provider.getBlock(rawLog.blockHash)
+        timestamps.set(rawLog.blockHash, block.timestamp)
+      }
+      matches.push({
+        upkeepId: upkeep.id,
+        log: toAutomationLog(
+          rawLog,
+          timestamps.get(rawLog.blockHash) as number,
+        ),
+        rawLog,
+      })
+    }
+  }
+  return matches.sort(
+    (a, b) =>
+      a.rawLog.blockNumber - b.rawLog.blockNumber ||
+      a.rawLog.logIndex - b.rawLog.logIndex,
+  )
+}
+
+/**
+ * Check whether a matched log makes its upkeep eligible, by simulating
+ * checkUpkeep with the log as trigger data, which calls the upkeep's checkLog
+ *
+ * @param registry The registry the upkeep is registered with
+ * @param match The matched log
+ * @param blockNumber The block to check the upkeep at
+ * @param from The address the registry lets simulate checks, 0x0 by default
+ */
+export async function checkLogTrigger(
+  registry: Contract,
+  match: LogTriggerMatch,
+  blockNumber: number,
+  from: string = constants.AddressZero,
+): Promise<LogTriggerCheck> {
+  const result = await registry.callStatic['checkUpkeep(uint256,bytes)'](
+    match.upkeepId,
+    encodeLog(match.log),
+    { blockTag: blockNumber, from },
+  )
+  return {
+    upkeepNeeded: result.upkeepNeeded,
+    performData: result.performData,
+    upkeepFailureReason: result.upkeepFailureReason,
+    gasLimit: result.gasLimit,
+    fastGasWei: result.fastGasWei,
+    // named pliNative before v2.3 and pliUSD from v2.3
+    pliPrice: result[6],
+  }
+}
+
+/**
+ * Build the trigger a report performs a matched log with
+ *
+ * @param match The matched log
+ * @param blockNum The block the upkeep was checked at
+ * @param blockHash The hash of that block, or zero to skip the registry's
+ * reorg check
+ */
+export function makeLogTrigger(
+  match: LogTriggerMatch,
+  blockNum: number,
+  blockHash: string = constants.HashZero,
+): LogTrigger {
+  return {
+    logBlockHash: match.rawLog.blockHash,
+    txHash: match.rawLog.transactionHash,
+    logIndex: match.rawLog.logIndex,
+    blockNum,
+    blockHash,
+  }
+}
+
+/**
+ * Compute the key the registry dedupes performs of a log trigger by, matching
+ * _validateLogTrigger in the registry
+ *
+ * @param upkeepId The ID of the upkeep
+ * @param trigger The log trigger
+ */
+export function logTriggerDedupKey(
+  upkeepId: BigNumberish,
+  trigger: LogTrigger,
+): string {
+  return utils.solidityKeccak256(
+    ['uint256', 'bytes32', 'bytes32', 'uint32'],
+    [upkeepId, trigger.logBlockHash, trigger.txHash, trigger.logIndex],
+  )
+}
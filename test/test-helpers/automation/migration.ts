@@ -0,0 +1,523 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains functionality for planning upkeep migrations between
+ * registry versions (v1.2 - v2.3): picking the chain of upkeep transcoders a
+ * migration needs, checking that the registries are configured for it, and
+ * dry running `migrateUpkeeps` / `receiveUpkeeps` on a local hardhat network,
+ * reporting how each upkeep differs before and after the migration. The dry run
+ * is reverted once the upkeeps have been read back from the destination.
+ */
+import {
+  BigNumber,
+  BigNumberish,
+  Contract,
+  constants,
+  providers,
+  utils,
+} from 'ethers'
+
+export type RegistryVersion = '1.2' | '1.3' | '2.0' | '2.1' | '2.2' | '2.3'
+
+/**
+ * A single migration from a registry of one version to another, and the
+ * transcoder the source registry must be configured with to perform it
+ */
+export type MigrationHop = {
+  from: RegistryVersion
+  to: RegistryVersion
+  transcoder: string
+}
+
+// copied from KeeperRegistryBase2_1.sol (unchanged since v1.2)
+export enum MigrationPermission {
+  NONE,
+  OUTGOING,
+  INCOMING,
+  BIDIRECTIONAL,
+}
+
+/**
+ * The fields of an upkeep that migrations carry over, normalized across registry versions
+ */
+export type UpkeepSnapshot = {
+  id: BigNumber
+  target: string
+  admin: string
+  balance: BigNumber
+  amountSpent: BigNumber
+  gasLimit: number
+  checkData: string
+  paused: boolean
+  offchainConfig: string
+  triggerConfig: string
+  /**
+   * Only set for registries which support multiple billing tokens (v2.3)
+   */
+  billingToken?: string
+}
+
+export type MigrationStep = {
+  hop: MigrationHop
+  source: Contract
+  destination: Contract
+  /**
+   * The transcoder the source registry is currently configured with
+   */
+  transcoder: { address: string; typeAndVersion?: string }
+  /**
+   * Whether the registries already permit the migration, the dry run grants
+   * the missing permissions as the registries' owners
+   */
+  permitted: { outgoing: boolean; incoming: boolean }
+}
+
+export type MigrationPlan = {
+  steps: MigrationStep[]
+  upkeeps: UpkeepSnapshot[]
+  /**
+   * Problems which would make the migration fail, the plan can only be dry run without any
+   */
+  issues: string[]
+}
+
+export type FieldDiff = {
+  field: keyof UpkeepSnapshot
+  before: string
+  after: string
+}
+
+export type UpkeepMigrationReport = {
+  id: BigNumber
+  before: UpkeepSnapshot
+  after?: UpkeepSnapshot
+  diffs: FieldDiff[]
+  error?: string
+}
+
+export type MigrationReport = {
+  plan: MigrationPlan
+  upkeeps: UpkeepMigrationReport[]
+  success: boolean
+}
+
+// the migrations each transcoder supports, see UpkeepTranscoder*.sol
+const migrationHops: MigrationHop[] = [
+  { from: '1.2', to: '1.2', transcoder: 'UpkeepTranscoder 1.0.0' },
+  { from: '1.3', to: '1.3', transcoder: 'UpkeepTranscoder 1.0.0' },
+  { from: '2.0', to: '2.0', transcoder: 'UpkeepTranscoder 1.0.0' },
+  { from: '1.2', to: '2.0', transcoder: 'UpkeepTranscoder 3.0.0' },
+  { from: '1.3', to: '2.0', transcoder: 'UpkeepTranscoder 3.0.0' },
+  // v2.2 uses the same upkeep format as v2.1
+  ...(['1.2', '1.3', '2.0', '2.1', '2.2'] as RegistryVersion[]).flatMap(
+    (from) =>
+      (['2.1', '2.2'] as RegistryVersion[]).map((to) => ({
+        from,
+        to,
+        transcoder: 'UpkeepTranscoder 4.0.0',
+      })),
+  ),
+  { from: '2.3', to: '2.3', transcoder: 'UpkeepTranscoder 5.0.0' },
+]
+
+const registryVersions: { [typeAndVersion: string]: RegistryVersion } = {
+  'KeeperRegistry 1.2': '1.2',
+  'KeeperRegistry 1.3': '1.3',
+  'KeeperRegistry 2.0': '2.0',
+  'KeeperRegistry 2.1': '2.1',
+  'AutomationRegistry 2.2': '2.2',
+  'AutomationRegistry 2.3': '2.3',
+}
+
+const transcoderInterface = new utils.Interface([
+  'function typeAndVersion() view returns (string)',
+])
+
+const diffedFields: (keyof UpkeepSnapshot)[] = [
+  'balance',
+  'admin',
+  'checkData',
+  'gasLimit',
+  'target',
+  'paused',
+  'amountSpent',
+  'offchainConfig',
+  'triggerConfig',
+  'billingToken',
+]
+
+// enough native tokens for impersonated accounts to pay for the dry run
+const IMPERSONATED_BALANCE = utils.hexValue(utils.parseEther('100'))
+
+/**
+ * Get the version of a registry from its typeAndVersion
+ *
+ * @param typeAndVersion The registry's typeAndVersion, ex. "KeeperRegistry 2.1.0"
+ */
+export function getRegistryVersion(typeAndVersion: string): RegistryVersion {
+  const version = registryVersions[typeAndVersion.replace(/\.\d+$/, '')]
+  if (!version) {
+    throw Error(`unsupported registry ${typeAndVersion}`)
+  }
+  return version
+}
+
+/**
+ * Compare two registry versions numerically, ex. 2.3 < 2.10
+ *
+ * @returns a negative number if a < b, a positive number if a > b and 0 if they are equal
+ */
+export function compareRegistryVersions(a: string, b: string): number {
+  const [aParts, bParts] = [a, b].map((v) => v.split('.').map(Number))
+  for (let idx = 0; idx < Math.max(aParts.length, bParts.length); idx++) {
+    const diff = (aParts[idx] ?? 0) - (bParts[idx] ?? 0)
+    if (diff !== 0) {
+      return diff
+    }
+  }
+  return 0
+}
+
+/**
+ * Find the shortest chain of migrations from one registry version to another
+ *
+ * @param from The version of the source registry
+ * @param to The version of the destination registry
+ * @param hops The migrations to choose from, defaults to the ones the transcoders support
+ */
+export function findMigrationPath(
+  from: RegistryVersion,
+  to: RegistryVersion,
+  hops: MigrationHop[] = migrationHops,
+): MigrationHop[] {
+  const paths = new Map<RegistryVersion, MigrationHop[]>([[from, []]])
+  const queue: RegistryVersion[] = [from]
+  while (queue.length > 0) {
+    const version = queue.shift() as RegistryVersion
+    const path = paths.get(version) as MigrationHop[]
+    for (const hop of hops.filter((h) => h.from === version)) {
+      if (hop.to === to) {
+        return [...path, hop]
+      }
+      if (!paths.has(hop.to)) {
+        paths.set(hop.to, [...path, hop])
+        queue.push(hop.to)
+      }
+    }
+  }
+  throw Error(`no migration path from v${from} to v${to}`)
+}
+
+/**
+ * Find the migration between two adjacent registries. Upkeeps can only move
+ * between registries one hop at a time, so when the versions need a longer
+ * path this throws, naming the versions to add registries for.
+ *
+ * @param from The version of the source registry
+ * @param to The version of the destination registry
+ * @param hops The migrations to choose from, defaults to the ones the transcoders support
+ */
+export function findMigrationHop(
+  from: RegistryVersion,
+  to: RegistryVersion,
+  hops: MigrationHop[] = migrationHops,
+): MigrationHop {
+  const path = findMigrationPath(from, to, hops)
+  if (path.length > 1) {
+    const chain = [path[0].from, ...path.map((hop) => hop.to)]
+    throw Error(
+      `cannot migrate from v${from} to v${to} directly, ` +
+        `migrate through v${chain.join(' -> v')}`,
+    )
+  }
+  return path[0]
+}
+
+/**
+ * Read an upkeep from a registry
+ *
+ * @param registry The registry, with the full ABI of its version
+ * @param version The version of the registry
+ * @param id The ID of the upkeep
+ */
+export async function getUpkeepSnapshot(
+  registry: Contract,
+  version: RegistryVersion,
+  id: BigNumberish,
+): Promise<UpkeepSnapshot> {
+  // v1.2 & v1.3 return the fields separately, later versions return an UpkeepInfo struct
+  const upkeep = await registry.getUpkeep(id)
+  const snapshot: UpkeepSnapshot = {
+    id: BigNumber.from(id),
+    target: upkeep.target,
+    admin: upkeep.admin,
+    balance: BigNumber.from(upkeep.balance),
+    amountSpent: BigNumber.from(upkeep.amountSpent),
+    gasLimit: upkeep.executeGas ?? upkeep.performGas,
+    checkData: upkeep.checkData,
+    paused: upkeep.paused ?? false,
+    offchainConfig: upkeep.offchainConfig ?? '0x',
+    triggerConfig: '0x',
+  }
+  if (compareRegistryVersions(version, '2.1') >= 0) {
+    snapshot.triggerConfig = await registry.getUpkeepTriggerConfig(id)
+  }
+  if (compareRegistryVersions(version, '2.3') >= 0) {
+    snapshot.billingToken = await registry.getBillingToken(id)
+  }
+  return snapshot
+}
+
+/**
+ * Plan the migration of upkeeps through a chain of registries, checking that
+ * the upkeeps exist and that each registry is configured with the transcoder
+ * its migration needs
+ *
+ * @param registries The source registry, any registries to migrate through,
+ * and the destination registry, each with the full ABI of its version. Each
+ * pair of adjacent registries must be a single hop apart, see {@link findMigrationHop}
+ * @param ids The IDs of the upkeeps to migrate
+ */
+export async function planMigration(
+  registries: Contract[],
+  ids: BigNumberish[],
+): Promise<MigrationPlan> {
+  if (registries.length < 2) {
+    throw Error('expected a source and a destination registry')
+  }
+  if (ids.length === 0) {
+    throw Error('expected at least one upkeep to migrate')
+  }
+  const issues: string[] = []
+  const versions: RegistryVersion[] = []
+  for (const registry of registries) {
+    versions.push(getRegistryVersion(await registry.typeAndVersion()))
+  }
+
+  const steps: MigrationStep[] = []
+  for (let idx = 0; idx < registries.length - 1; idx++) {
+    const [source, destination] = [registries[idx], registries[idx + 1]]
+    const hop = findMigrationHop(versions[idx], versions[idx + 1])
+    const transcoder = await getTranscoder(source)
+    if (transcoder.typeAndVersion !== hop.transcoder) {
+      issues.push(
+        `registry ${source.address} is configured with transcoder ` +
+          `${transcoder.typeAndVersion ?? transcoder.address}, ` +
+          `migrating from v${hop.from} to v${hop.to} requires ${hop.transcoder}`,
+      )
+    }
+    steps.push({
+      hop,
+      source,
+      destination,
+      transcoder,
+      permitted: await getPermissions(source, destination),
+    })
+  }
+
+  const upkeeps: UpkeepSnapshot[] = []
+  for (const id of ids) {
+    const upkeep = await getUpkeepSnapshot(registries[0], versions[0], id)
+    if (upkeep.admin === constants.AddressZero) {
+      issues.push(
+        `upkeep ${upkeep.id.toString()} does not exist on the source registry`,
+      )
+    }
+    upkeeps.push(upkeep)
+  }
+  return { steps, upkeeps, issues }
+}
+
+/**
+ * Dry run a migration plan: grant the missing migration permissions, migrate
+ * the upkeeps as their admins, then read them back from the destination. The
+ * network is reverted to its state before the dry run afterwards.
+ *
+ * @param plan The plan to dry run, without any issues
+ * @param provider A hardhat network provider, which supports snapshots and impersonation
+ */
+export async function dryRunMigration(
+  plan: MigrationPlan,
+  provider: providers.JsonRpcProvider,
+): Promise<MigrationReport> {
+  if (plan.issues.length > 0) {
+    throw Error(`cannot dry run migration:\n  ${plan.issues.join('\n  ')}`)
+  }
+  const reports = plan.upkeeps.map(
+    (before): UpkeepMigrationReport => ({
+      id: before.id,
+      before,
+      diffs: [],
+    }),
+  )
+  const snapshotId = await provider.send('evm_snapshot', [])
+  try {
+    for (const step of plan.steps) {
+      await grantPermissions(step, provider)
+      const pending = reports.filter((report) => !report.error)
+      const byAdmin = new Map<string, UpkeepMigrationReport[]>()
+      for (const report of pending) {
+        const { admin } = await step.source.getUpkeep(report.id)
+        byAdmin.set(admin, [...(byAdmin.get(admin) ?? []), report])
+      }
+      for (const [admin, group] of byAdmin) {
+        try {
+          await asImpersonated(provider, admin, async (signer) => {
+            const tx = await step.source.connect(signer).migrateUpkeeps(
+              group.map((report) => report.id),
+              step.destination.address,
+            )
+            await tx.wait()
+          })
+        } catch (e) {
+          const error = `migration from v${step.hop.from} to v${step.hop.to} failed: ${errorMessage(e)}`
+          group.forEach((report) => (report.error = error))
+        }
+      }
+    }
+
+    const { destination, hop } = plan.steps[plan.steps.length - 1]
+    for (const report of reports.filter((r) => !r.error)) {
+      report.after = await getUpkeepSnapshot(destination, hop.to, report.id)
+      report.diffs = diffUpkeeps(report.before, report.after)
+    }
+  } finally {
+    await provider.send('evm_revert', [snapshotId])
+  }
+  return {
+    plan,
+    upkeeps: reports,
+    success: reports.every((report) => !report.error),
+  }
+}
+
+/**
+ * Compare an upkeep before and after a migration
+ *
+ * @param before The upkeep on the source registry
+ * @param after The upkeep on the destination registry
+ */
+export function diffUpkeeps(
+  before: UpkeepSnapshot,
+  after: UpkeepSnapshot,
+): FieldDiff[] {
+  const diffs: FieldDiff[] = []
+  for (const field of diffedFields) {
+    const [a, b] = [format(before[field]), format(after[field])]
+    if (a !== b) {
+      diffs.push({ field, before: a, after: b })
+    }
+  }
+  return diffs
+}
+
+/**
+ * Render a migration report for review, one line per changed field
+ *
+ * @param report The report of a dry run
+ */
+export function formatMigrationReport(report: MigrationReport): string {
+  const lines = report.plan.steps.map(
+    ({ hop, source, destination }) =>
+      `v${hop.from} ${source.address} -> v${hop.to} ${destination.address} using ${hop.transcoder}`,
+  )
+  for (const upkeep of report.upkeeps) {
+    if (upkeep.error) {
+      lines.push(`upkeep ${upkeep.id.toString()}: ${upkeep.error}`)
+      continue
+    }
+    lines.push(
+      `upkeep ${upkeep.id.toString()}: ` +
+        (upkeep.diffs.length ? `${upkeep.diffs.length} changes` : 'unchanged'),
+    )
+    for (const { field, before, after } of upkeep.diffs) {
+      lines.push(`  ${field}: ${before} -> ${after}`)
+    }
+  }
+  return lines.join('\n')
+}
+
+async function getTranscoder(
+  registry: Contract,
+): Promise<MigrationStep['transcoder']> {
+  const { config } = await registry.getState()
+  const address: string = config.transcoder
+  if (address === constants.AddressZero) {
+    return { address }
+  }
+  const transcoder = new Contract(
+    address,
+    transcoderInterface,
+    registry.provider,
+  )
+  try {
+    return { address, typeAndVersion: await transcoder.typeAndVersion() }
+  } catch {
+    return { address }
+  }
+}
+
+async function getPermissions(
+  source: Contract,
+  destination: Contract,
+): Promise<MigrationStep['permitted']> {
+  const outgoing: MigrationPermission =
+    await source.getPeerRegistryMigrationPermission(destination.address)
+  const incoming: MigrationPermission =
+    await destination.getPeerRegistryMigrationPermission(source.address)
+  return {
+    outgoing:
+      outgoing === MigrationPermission.OUTGOING ||
+      outgoing === MigrationPermission.BIDIRECTIONAL,
+    incoming:
+      incoming === MigrationPermission.INCOMING ||
+      incoming === MigrationPermission.BIDIRECTIONAL,
+  }
+}
+
+async function grantPermissions(
+  step: MigrationStep,
+  provider: providers.JsonRpcProvider,
+) {
+  const grants: [Contract, Contract, MigrationPermission][] = []
+  if (!step.permitted.outgoing) {
+    grants.push([step.source, step.destination, MigrationPermission.OUTGOING])
+  }
+  if (!step.permitted.incoming) {
+    grants.push([step.destination, step.source, MigrationPermission.INCOMING])
+  }
+  for (const [registry, peer, permission] of grants) {
+    await asImpersonated(provider, await registry.owner(), async (signer) => {
+      const tx = await registry
+        .connect(signer)
+        .setPeerRegistryMigrationPermission(peer.address, permission)
+      await tx.wait()
+    })
+  }
+}
+
+async function asImpersonated(
+  provider: providers.JsonRpcProvider,
+  address: string,
+  action: (signer: providers.JsonRpcSigner) => Promise<void>,
+) {
+  await provider.send('hardhat_impersonateAccount', [address])
+  try {
+    await provider.send('hardhat_setBalance', [address, IMPERSONATED_BALANCE])
+    await action(provider.getSigner(address))
+  } finally {
+    await provider.send('hardhat_stopImpersonatingAccount', [address])
+  }
+}
+
+function format(value: UpkeepSnapshot[keyof UpkeepSnapshot]): string {
+  if (value === undefined) {
+    return '-'
+  }
+  return BigNumber.isBigNumber(value) ? value.toString() : String(value)
+}
+
+function errorMessage(e: unknown): string {
+  const error = e as { reason?: string; errorName?: string; message?: string }
+  return error.errorName ?? error.reason ?? error.message ?? String(e)
+}
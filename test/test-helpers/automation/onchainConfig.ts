@@ -0,0 +1,251 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains a schema for the onchain config of v2.3 registries, which
+ * is passed to `setConfigTypeSafe`. Configs are checked against it before they
+ * are sent, so that values which don't fit the registry's storage, or which
+ * aren't addresses, are caught locally rather than by a failed or truncated
+ * config. It also contains functions for reading the current config of a
+ * registry and listing what a proposed config would change.
+ */
+import { BigNumber, BigNumberish, Contract, utils } from 'ethers'
+
+// copied from AutomationRegistryBase2_3.sol
+export type OnchainConfig = {
+  checkGasLimit: BigNumberish
+  stalenessSeconds: BigNumberish
+  gasCeilingMultiplier: BigNumberish
+  maxCheckDataSize: BigNumberish
+  maxPerformDataSize: BigNumberish
+  maxRevertDataSize: BigNumberish
+  maxPerformGas: BigNumberish
+  fallbackGasPrice: BigNumberish
+  fallbackPliPrice: BigNumberish
+  fallbackNativePrice: BigNumberish
+  transcoder: string
+  registrars: string[]
+  upkeepPrivilegeManager: string
+  chainModule: string
+  reorgProtectionEnabled: boolean
+  financeAdmin: string
+}
+
+export type FieldSchema =
+  | { type: 'uint'; bits: number }
+  | { type: 'address' }
+  | { type: 'address[]' }
+  | { type: 'bool' }
+
+/**
+ * The type of each onchain config field, uints are sized by the narrowest
+ * storage slot the registry copies them into, ex. stalenessSeconds is a uint24
+ * in HotVars
+ */
+export const onchainConfigSchema: {
+  [field in keyof OnchainConfig]: FieldSchema
+} = {
+  checkGasLimit: { type: 'uint', bits: 32 },
+  stalenessSeconds: { type: 'uint', bits: 24 },
+  gasCeilingMultiplier: { type: 'uint', bits: 16 },
+  maxCheckDataSize: { type: 'uint', bits: 32 },
+  maxPerformDataSize: { type: 'uint', bits: 32 },
+  maxRevertDataSize: { type: 'uint', bits: 32 },
+  maxPerformGas: { type: 'uint', bits: 32 },
+  fallbackGasPrice: { type: 'uint', bits: 256 },
+  fallbackPliPrice: { type: 'uint', bits: 256 },
+  fallbackNativePrice: { type: 'uint', bits: 256 },
+  transcoder: { type: 'address' },
+  registrars: { type: 'address[]' },
+  upkeepPrivilegeManager: { type: 'address' },
+  chainModule: { type: 'address' },
+  reorgProtectionEnabled: { type: 'bool' },
+  financeAdmin: { type: 'address' },
+}
+
+export type ConfigChange = {
+  field: keyof OnchainConfig
+  current: string
+  proposed: string
+}
+
+const fields = Object.keys(onchainConfigSchema) as (keyof OnchainConfig)[]
+
+/**
+ * Check a value against the schema of a field, returning a description of
+ * the problem if it doesn't match
+ *
+ * @param schema The schema of the field
+ * @param value The value to check
+ */
+function checkField(schema: FieldSchema, value: unknown): string | null {
+  const isAddress = (v: unknown) => typeof v === 'string' && utils.isAddress(v)
+  switch (schema.type) {
+    case 'uint': {
+      let n: BigNumber
+      try {
+        n = BigNumber.from(value)
+      } catch {
+        return `must be a uint${schema.bits}, got ${JSON.stringify(value)}`
+      }
+      if (n.isNegative() || n.gte(BigNumber.from(2).pow(schema.bits))) {
+        return `must fit in a uint${schema.bits}, got ${n.toString()}`
+      }
+      return null
+    }
+    case 'address':
+      return isAddress(value)
+        ? null
+        : `must be an address, got ${JSON.stringify(value)}`
+    case 'address[]':
+      if (!Array.isArray(value)) {
+        return `must be a list of addresses, got ${JSON.stringify(value)}`
+      }
+      for (const [idx, v] of value.entries()) {
+        if (!isAddress(v)) {
+          return `must be a list of addresses, got ${JSON.stringify(v)} at index ${idx}`
+        }
+      }
+      return null
+    case 'bool':
+      return typeof value === 'boolean'
+        ? null
+        : `must be a boolean, got ${JSON.stringify(value)}`
+  }
+}
+
+/**
+ * Check every field of an onchain config against the schema, throwing an
+ * error listing all of the problems found
+ *
+ * @param config The config to check
+ * @param prefix A prefix for the field names in the error, ex. "onchainConfig."
+ */
+export function validateOnchainConfig(
+  config: { [field: string]: unknown },
+  prefix = '',
+): OnchainConfig {
+  const errors = onchainConfigErrors(config, prefix)
+  if (errors.length > 0) {
+    throw Error(`invalid onchain config:\n  ${errors.join('\n  ')}`)
+  }
+  return config as OnchainConfig
+}
+
+/**
+ * List the problems with an onchain config without throwing, for callers which
+ * collect errors from several configs
+ *
+ * @param config The config to check
+ * @param prefix A prefix for the field names in the errors
+ */
+export function onchainConfigErrors(
+  config: { [field: string]: unknown },
+  prefix = '',
+): string[] {
+  const errors: string[] = []
+  for (const field of fields) {
+    if (config[field] === undefined) {
+      errors.push(`${prefix}${field} is required`)
+      continue
+    }
+    const error = checkField(onchainConfigSchema[field], config[field])
+    if (error) {
+      errors.push(`${prefix}${field} ${error}`)
+    }
+  }
+  for (const field of Object.keys(config)) {
+    if (!(field in onchainConfigSchema)) {
+      errors.push(`${prefix}${field} is not an onchain config field`)
+    }
+  }
+  return errors
+}
+
+/**
+ * Read the current onchain config of a v2.3 registry. The config returned by
+ * `getState()` predates some of the fields, so those are read with their own
+ * getters.
+ *
+ * @param registry The registry to read from
+ */
+export async function getOnchainConfig(
+  registry: Contract,
+): Promise<OnchainConfig> {
+  const { config } = await registry.getState()
+  return {
+    checkGasLimit: config.checkGasLimit,
+    stalenessSeconds: config.stalenessSeconds,
+    gasCeilingMultiplier: config.gasCeilingMultiplier,
+    maxCheckDataSize: config.maxCheckDataSize,
+    maxPerformDataSize: config.maxPerformDataSize,
+    maxRevertDataSize: config.maxRevertDataSize,
+    maxPerformGas: config.maxPerformGas,
+    fallbackGasPrice: config.fallbackGasPrice,
+    fallbackPliPrice: config.fallbackPliPrice,
+    fallbackNativePrice: await registry.getFallbackNativePrice(),
+    transcoder: config.transcoder,
+    registrars: config.registrars,
+    upkeepPrivilegeManager: config.upkeepPrivilegeManager,
+    chainModule: await registry.getChainModule(),
+    reorgProtectionEnabled: await registry.getReorgProtectionEnabled(),
+    financeAdmin: (await registry.getStorage()).financeAdmin,
+  }
+}
+
+function format(schema: FieldSchema, value: unknown): string {
+  switch (schema.type) {
+    case 'uint':
+      return BigNumber.from(value).toString()
+    case 'address':
+      return utils.getAddress(value as string)
+    case 'address[]':
+      // the registry keeps registrars in a set, so their order isn't preserved
+      return `[${(value as string[])
+        .map((v) => utils.getAddress(v))
+        .sort()
+        .join(', ')}]`
+    case 'bool':
+      return String(value)
+  }
+}
+
+/**
+ * List the fields a proposed onchain config would change
+ *
+ * @param current The config the registry has, ex. from getOnchainConfig()
+ * @param proposed The config to compare against it
+ */
+export function diffOnchainConfig(
+  current: OnchainConfig,
+  proposed: OnchainConfig,
+): ConfigChange[] {
+  const changes: ConfigChange[] = []
+  for (const field of fields) {
+    const schema = onchainConfigSchema[field]
+    const [a, b] = [
+      format(schema, current[field]),
+      format(schema, proposed[field]),
+    ]
+    if (a !== b) {
+      changes.push({ field, current: a, proposed: b })
+    }
+  }
+  return changes
+}
+
+/**
+ * Render a config change set for review, one line per changed field
+ *
+ * @param changes The changes returned by diffOnchainConfig()
+ */
+export function formatConfigChanges(changes: ConfigChange[]): string {
+  if (changes.length === 0) {
+    return 'onchain config unchanged'
+  }
+  return [
+    `onchain config: ${changes.length} changes`,
+    ...changes.map(
+      ({ field, current, proposed }) => `  ${field}: ${current} -> ${proposed}`,
+    ),
+  ].join('\n')
+}
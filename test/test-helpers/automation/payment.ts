@@ -0,0 +1,305 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains an offchain model of how v2.3 registries price upkeeps.
+ * Given the feed prices, the billing token's config and the chain module's
+ * overheads and L1 fee, it reproduces `getMaxPaymentForGas` /
+ * `getMinBalanceForUpkeep` and itemizes what the charge is made of, so that
+ * upkeep spend can be forecast before an upkeep is registered.
+ *
+ * All USD prices have the 8 decimals of the USD feeds, all gas prices and
+ * L1 fees are in wei of the chain's native token.
+ */
+import { BigNumber, BigNumberish, Contract, utils } from 'ethers'
+import { Trigger } from './upkeep'
+
+// copied from AutomationRegistryBase2_3.sol
+export const registryGasOverheads = {
+  conditional: BigNumber.from(98_200),
+  log: BigNumber.from(123_500),
+  perSigner: BigNumber.from(5_600),
+  perPerformByte: BigNumber.from(24),
+  transmitCalldataFixedBytes: BigNumber.from(932),
+  transmitCalldataPerSignerBytes: BigNumber.from(64),
+}
+
+export type ChainModuleFees = {
+  fixedGasOverhead: BigNumberish
+  perByteGasOverhead: BigNumberish
+  /**
+   * The L1 fee the chain module charges for the max transmit calldata size,
+   * before the gas ceiling multiplier is applied, 0 on L1s
+   */
+  maxL1Fee: BigNumberish
+}
+
+/**
+ * The gas overheads of the chain modules in src/v0.8/automation/chains, for
+ * forecasting without a deployed module. Their L1 fees depend on the L2's gas
+ * price oracle, so they are left to the caller.
+ */
+export const chainModuleGasOverheads: {
+  [name: string]: Omit<ChainModuleFees, 'maxL1Fee'>
+} = {
+  ChainModuleBase: { fixedGasOverhead: 300, perByteGasOverhead: 0 },
+  ArbitrumModule: { fixedGasOverhead: 5_000, perByteGasOverhead: 0 },
+  OptimismModule: { fixedGasOverhead: 60_000, perByteGasOverhead: 270 },
+  OptimismModuleV2: { fixedGasOverhead: 28_000, perByteGasOverhead: 0 },
+  ScrollModule: { fixedGasOverhead: 45_000, perByteGasOverhead: 170 },
+}
+
+export type FeedPrices = {
+  fastGasWei: BigNumberish
+  pliUSD: BigNumberish
+  nativeUSD: BigNumberish
+}
+
+/**
+ * The billing config of the token an upkeep pays with, and its USD price
+ */
+export type BillingTokenParams = {
+  gasFeePPB: BigNumberish
+  flatFeeMilliCents: BigNumberish
+  priceUSD: BigNumberish
+  decimals: number
+}
+
+export type PaymentParams = {
+  gasLimit: BigNumberish
+  gasOverhead: BigNumberish
+  l1CostWei: BigNumberish
+  gasCeilingMultiplier: BigNumberish
+  feeds: FeedPrices
+  billingToken: BillingTokenParams
+  /**
+   * The gas price of the perform transaction, which is charged instead of the
+   * gas ceiling if it's lower. Max payments are estimated without one.
+   */
+  txGasPrice?: BigNumberish
+}
+
+export type PaymentReceipt = {
+  gasChargeInBillingToken: BigNumber
+  premiumInBillingToken: BigNumber
+  gasReimbursementInJuels: BigNumber
+  premiumInJuels: BigNumber
+}
+
+export type MaxPaymentParams = {
+  triggerType: Trigger
+  performGas: BigNumberish
+  f: number
+  maxPerformDataSize: BigNumberish
+  gasCeilingMultiplier: BigNumberish
+  feeds: FeedPrices
+  billingToken: BillingTokenParams
+  chainModule: ChainModuleFees
+}
+
+/**
+ * An itemized max payment, as charged against an upkeep's balance
+ */
+export type Bill = {
+  performGas: BigNumber
+  gasOverhead: {
+    trigger: BigNumber
+    signers: BigNumber
+    calldata: BigNumber
+    chainModule: BigNumber
+    total: BigNumber
+  }
+  calldataSize: BigNumber
+  gasWei: BigNumber
+  l1CostWei: BigNumber
+  receipt: PaymentReceipt
+  /**
+   * The max payment in the billing token, which is also the upkeep's min balance
+   */
+  total: BigNumber
+}
+
+const uint96Max = BigNumber.from(2).pow(96).sub(1)
+
+function toUint96(value: BigNumber): BigNumber {
+  if (value.gt(uint96Max)) {
+    throw Error(`payment ${value.toString()} overflows a uint96`)
+  }
+  return value
+}
+
+/**
+ * Calculate a payment the same way as the registry's _calculatePaymentAmount()
+ *
+ * @param params The gas usage and prices to calculate the payment for
+ */
+export function calculatePaymentAmount(params: PaymentParams): PaymentReceipt {
+  const { feeds, billingToken } = params
+  const nativeUSD = BigNumber.from(feeds.nativeUSD)
+  const gasLimit = BigNumber.from(params.gasLimit)
+  const l1CostWei = BigNumber.from(params.l1CostWei)
+  let gasWei = BigNumber.from(feeds.fastGasWei).mul(params.gasCeilingMultiplier)
+  if (params.txGasPrice !== undefined && gasWei.gt(params.txGasPrice)) {
+    gasWei = BigNumber.from(params.txGasPrice)
+  }
+
+  const decimals = billingToken.decimals
+  const numeratorScalingFactor = BigNumber.from(10).pow(
+    Math.max(decimals - 18, 0),
+  )
+  const denominatorScalingFactor = BigNumber.from(10).pow(
+    Math.max(18 - decimals, 0),
+  )
+  const denominator = BigNumber.from(billingToken.priceUSD).mul(
+    denominatorScalingFactor,
+  )
+  // rounds up, so that at least the smallest unit of the token is charged
+  const toBillingToken = (hexaicosaUSD: BigNumber) =>
+    toUint96(
+      hexaicosaUSD
+        .mul(numeratorScalingFactor)
+        .add(denominator.sub(1))
+        .div(denominator),
+    )
+
+  const gasPaymentHexaicosaUSD = gasWei
+    .mul(gasLimit.add(params.gasOverhead))
+    .add(l1CostWei)
+    .mul(nativeUSD)
+  const flatFeeHexaicosaUSD = BigNumber.from(
+    billingToken.flatFeeMilliCents,
+  ).mul(BigNumber.from(10).pow(21))
+  const premiumHexaicosaUSD = gasWei
+    .mul(gasLimit)
+    .add(l1CostWei)
+    .mul(billingToken.gasFeePPB)
+    .mul(nativeUSD)
+    .div(1e9)
+    .add(flatFeeHexaicosaUSD)
+
+  return {
+    gasChargeInBillingToken: toBillingToken(gasPaymentHexaicosaUSD),
+    premiumInBillingToken: toBillingToken(premiumHexaicosaUSD),
+    gasReimbursementInJuels: toUint96(gasPaymentHexaicosaUSD.div(feeds.pliUSD)),
+    premiumInJuels: toUint96(premiumHexaicosaUSD.div(feeds.pliUSD)),
+  }
+}
+
+/**
+ * Calculate the max payment for an upkeep the same way as the registry's
+ * getMaxPaymentForGas(), which is also what getMinBalanceForUpkeep() returns
+ * for the upkeep's perform gas
+ *
+ * @param params The upkeep, registry config and prices to price it with
+ */
+export function getMaxPayment(params: MaxPaymentParams): Bill {
+  const fPlusOne = params.f + 1
+  const { chainModule } = params
+  const calldataSize = BigNumber.from(params.maxPerformDataSize)
+    .add(registryGasOverheads.transmitCalldataFixedBytes)
+    .add(registryGasOverheads.transmitCalldataPerSignerBytes.mul(fPlusOne))
+  let trigger: BigNumber
+  switch (params.triggerType) {
+    case Trigger.CONDITION:
+      trigger = registryGasOverheads.conditional
+      break
+    case Trigger.LOG:
+      trigger = registryGasOverheads.log
+      break
+    default:
+      throw Error(`unknown trigger type ${params.triggerType}`)
+  }
+  const signers = registryGasOverheads.perSigner.mul(fPlusOne)
+  const calldata = registryGasOverheads.perPerformByte
+    .add(chainModule.perByteGasOverhead)
+    .mul(calldataSize)
+  const chainModuleOverhead = BigNumber.from(chainModule.fixedGasOverhead)
+  const gasOverhead = trigger
+    .add(signers)
+    .add(calldata)
+    .add(chainModuleOverhead)
+  const l1CostWei = BigNumber.from(chainModule.maxL1Fee).mul(
+    params.gasCeilingMultiplier,
+  )
+
+  const receipt = calculatePaymentAmount({
+    gasLimit: params.performGas,
+    gasOverhead,
+    l1CostWei,
+    gasCeilingMultiplier: params.gasCeilingMultiplier,
+    feeds: params.feeds,
+    billingToken: params.billingToken,
+  })
+  return {
+    performGas: BigNumber.from(params.performGas),
+    gasOverhead: {
+      trigger,
+      signers,
+      calldata,
+      chainModule: chainModuleOverhead,
+      total: gasOverhead,
+    },
+    calldataSize,
+    gasWei: BigNumber.from(params.feeds.fastGasWei).mul(
+      params.gasCeilingMultiplier,
+    ),
+    l1CostWei,
+    receipt,
+    total: receipt.gasChargeInBillingToken.add(receipt.premiumInBillingToken),
+  }
+}
+
+/**
+ * Read the overheads and the max L1 fee of a deployed chain module
+ *
+ * @param chainModule The chain module the registry is configured with
+ * @param f The number of faulty oracles the registry tolerates
+ * @param maxPerformDataSize The registry's max perform data size
+ */
+export async function getChainModuleFees(
+  chainModule: Contract,
+  f: number,
+  maxPerformDataSize: BigNumberish,
+): Promise<ChainModuleFees> {
+  const calldataSize = BigNumber.from(maxPerformDataSize)
+    .add(registryGasOverheads.transmitCalldataFixedBytes)
+    .add(registryGasOverheads.transmitCalldataPerSignerBytes.mul(f + 1))
+  const [fixedGasOverhead, perByteGasOverhead] =
+    await chainModule.getGasOverhead()
+  return {
+    fixedGasOverhead,
+    perByteGasOverhead,
+    maxL1Fee: await chainModule.getMaxL1Fee(calldataSize),
+  }
+}
+
+/**
+ * Render a bill for review, one line per item
+ *
+ * @param bill The bill returned by getMaxPayment()
+ * @param decimals The decimals of the billing token
+ * @param symbol The symbol of the billing token
+ */
+export function formatBill(bill: Bill, decimals = 18, symbol = 'PLI'): string {
+  const amount = (value: BigNumber) =>
+    `${utils.formatUnits(value, decimals)} ${symbol}`
+  const { gasOverhead, receipt } = bill
+  const items: [string, string][] = [
+    ['perform gas', bill.performGas.toString()],
+    ['gas overhead', gasOverhead.total.toString()],
+    ['  trigger', gasOverhead.trigger.toString()],
+    ['  signers', gasOverhead.signers.toString()],
+    [
+      '  calldata',
+      `${gasOverhead.calldata.toString()} (${bill.calldataSize.toString()} bytes)`,
+    ],
+    ['  chain module', gasOverhead.chainModule.toString()],
+    ['gas price', `${bill.gasWei.toString()} wei`],
+    ['L1 fee', `${bill.l1CostWei.toString()} wei`],
+    ['gas charge', amount(receipt.gasChargeInBillingToken)],
+    ['premium', amount(receipt.premiumInBillingToken)],
+    ['total (min balance)', amount(bill.total)],
+  ]
+  return items
+    .map(([label, value]) => `${label}:`.padEnd(22) + value)
+    .join('\n')
+}
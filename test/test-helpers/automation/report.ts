@@ -0,0 +1,311 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains functionality for building, signing and transmitting OCR3
+ * reports to an automation registry (v2.3 and the ZKSync v2.3 variant), without
+ * having to deploy the AutomationCompatibleUtils / AutomationUtils2_3 helper contracts.
+ * Triggers are encoded with the functions in upkeep.ts.
+ */
+import {
+  BigNumberish,
+  BytesLike,
+  ContractTransaction,
+  Signer,
+  Wallet,
+  constants,
+  utils,
+} from 'ethers'
+import { IAutomationRegistryMaster2_3 as IAutomationRegistry } from '../../../typechain/IAutomationRegistryMaster2_3'
+
+/**
+ * The default epoch (5) and round (1) used when building a report context
+ */
+export const epochAndRound5_1 =
+  '0x0000000000000000000000000000000000000000000000000000000000000501'
+
+// copied from AutomationRegistryBase2_3.sol
+export type Report = {
+  fastGasWei: BigNumberish
+  pliUSD: BigNumberish
+  upkeepIds: BigNumberish[]
+  gasLimits: BigNumberish[]
+  triggers: BytesLike[]
+  performDatas: BytesLike[]
+}
+
+export type UpkeepData = {
+  Id: BigNumberish
+  performGas: BigNumberish
+  performData: BytesLike
+  trigger: BytesLike
+}
+
+export type ReportContext = [BytesLike, BytesLike, BytesLike]
+
+export type ReportSignatures = {
+  rs: string[]
+  ss: string[]
+  vs: string
+}
+
+export type TransmitOverrides = {
+  gasLimit?: BigNumberish
+  gasPrice?: BigNumberish
+}
+
+const reportType =
+  'tuple(uint256 fastGasWei, uint256 pliUSD, uint256[] upkeepIds, uint256[] gasLimits, bytes[] triggers, bytes[] performDatas)'
+
+/**
+ * ABI encode a report struct
+ *
+ * @param report The report to encode
+ */
+export function encodeReport(report: Report): string {
+  return utils.defaultAbiCoder.encode([reportType], [report])
+}
+
+/**
+ * Decode a raw report back into its struct representation
+ *
+ * @param rawReport The ABI encoded report
+ */
+export function decodeReport(rawReport: BytesLike): Report {
+  const [report] = utils.defaultAbiCoder.decode([reportType], rawReport)
+  return {
+    fastGasWei: report.fastGasWei,
+    pliUSD: report.pliUSD,
+    upkeepIds: report.upkeepIds,
+    gasLimits: report.gasLimits,
+    triggers: report.triggers,
+    performDatas: report.performDatas,
+  }
+}
+
+/**
+ * Build an encoded report performing the given upkeeps
+ *
+ * @param upkeeps The upkeeps to include in the report, in order
+ * @param fastGasWei The gas price reported by the DON
+ * @param pliUSD The PLI / USD price reported by the DON
+ */
+export function makeReport(
+  upkeeps: UpkeepData[],
+  fastGasWei: BigNumberish,
+  pliUSD: BigNumberish,
+): string {
+  return encodeReport({
+    fastGasWei,
+    pliUSD,
+    upkeepIds: upkeeps.map((u) => u.Id),
+    gasLimits: upkeeps.map((u) => u.performGas),
+    triggers: upkeeps.map((u) => u.trigger),
+    performDatas: upkeeps.map((u) => u.performData),
+  })
+}
+
+/**
+ * Build the report context passed alongside a report to transmit()
+ *
+ * @param configDigest The latest config digest of the registry
+ * @param epochAndRound The epoch and round of the report
+ * @param extraHash Unused by the registry, but part of the signed payload
+ */
+export function makeReportContext(
+  configDigest: BytesLike,
+  epochAndRound: BytesLike = epochAndRound5_1,
+  extraHash: BytesLike = constants.HashZero,
+): ReportContext {
+  return [configDigest, epochAndRound, extraHash]
+}
+
+/**
+ * Compute the digest that signers sign over, matching _verifyReportSignature in the registry
+ *
+ * @param reportContext The report context the report is transmitted with
+ * @param report The encoded report
+ */
+export function reportContextDigest(
+  reportContext: BytesLike[],
+  report: BytesLike,
+): string {
+  const reportDigest = utils.keccak256(report)
+  const packedArgs = utils.solidityPack(
+    ['bytes32', 'bytes32[3]'],
+    [reportDigest, reportContext],
+  )
+  return utils.keccak256(packedArgs)
+}
+
+/**
+ * Sign a report with each of the given wallets, in order
+ *
+ * @param reportContext The report context the report is transmitted with
+ * @param report The encoded report
+ * @param signers The wallets to sign the report with
+ */
+export function signReport(
+  reportContext: BytesLike[],
+  report: BytesLike,
+  signers: Wallet[],
+): ReportSignatures {
+  const packedDigest = reportContextDigest(reportContext, report)
+
+  const signatures = []
+  for (const signer of signers) {
+    signatures.push(signer._signingKey().signDigest(packedDigest))
+  }
+  const vs = signatures.map((i) => '0' + (i.v - 27).toString(16)).join('')
+  return {
+    vs: '0x' + vs.padEnd(64, '0'),
+    rs: signatures.map((i) => i.r),
+    ss: signatures.map((i) => i.s),
+  }
+}
+
+/**
+ * Derive the signer wallets of a local DON from a seed, so the same DON can be
+ * configured on a registry and restarted later
+ *
+ * @param count The number of signers
+ * @param seed The seed to derive the wallets from
+ */
+export function donSigners(
+  count: number,
+  seed = 'local automation DON',
+): Wallet[] {
+  return Array.from(
+    { length: count },
+    (_, idx) =>
+      new Wallet(utils.keccak256(utils.toUtf8Bytes(`${seed}/${idx}`))),
+  )
+}
+
+/**
+ * Select the f + 1 signers the registry requires for a valid report
+ *
+ * @param signers The full, ordered set of signers configured on the registry
+ * @param f The fault tolerance the registry is configured with
+ * @param startingIndex The index of the first signer to use
+ */
+export function quorumSigners(
+  signers: Wallet[],
+  f: number,
+  startingIndex = 0,
+): Wallet[] {
+  if (startingIndex + f + 1 > signers.length) {
+    throw Error(
+      `need ${f + 1} signers starting at index ${startingIndex}, but only ${signers.length} were provided`,
+    )
+  }
+  return signers.slice(startingIndex, startingIndex + f + 1)
+}
+
+/**
+ * Create signer sets that the registry is expected to reject
+ */
+export const malformedSigners = {
+  /**
+   * A set with one signer fewer than the required f + 1
+   */
+  tooFew: (signers: Wallet[], f: number): Wallet[] => signers.slice(0, f),
+  /**
+   * A set with one signer more than the required f + 1
+   */
+  tooMany: (signers: Wallet[], f: number): Wallet[] => signers.slice(0, f + 2),
+  /**
+   * A set where the same signer signs f + 1 times
+   */
+  duplicated: (signer: Wallet, f: number): Wallet[] =>
+    Array(f + 1).fill(signer),
+  /**
+   * A set of f + 1 freshly generated wallets which are not configured on any registry
+   */
+  inactive: (f: number): Wallet[] =>
+    Array.from({ length: f + 1 }, () => Wallet.createRandom()),
+}
+
+/**
+ * Tamper with an otherwise valid set of signatures so that signature recovery
+ * yields a different (unknown) signer for the first signature
+ *
+ * @param sigs The valid signatures to tamper with
+ */
+export function corruptSignatures(sigs: ReportSignatures): ReportSignatures {
+  if (sigs.rs.length === 0) {
+    throw Error('cannot corrupt an empty signature set')
+  }
+  const vs = utils.arrayify(sigs.vs)
+  vs[0] = vs[0] ^ 1
+  return {
+    rs: [...sigs.rs],
+    ss: [...sigs.ss],
+    vs: utils.hexlify(vs),
+  }
+}
+
+/**
+ * Transmit an already signed report to a registry
+ *
+ * @param registry The registry to transmit to
+ * @param transmitter The transmitter to send the transaction from
+ * @param reportContext The report context the report was signed with
+ * @param report The encoded report
+ * @param sigs The signatures over the report
+ * @param overrides Optional gas overrides for the transaction
+ */
+export function transmitSigned(
+  registry: IAutomationRegistry,
+  transmitter: Signer,
+  reportContext: ReportContext,
+  report: BytesLike,
+  sigs: ReportSignatures,
+  overrides: TransmitOverrides = {},
+): Promise<ContractTransaction> {
+  const txOverrides: TransmitOverrides = {}
+  if (overrides.gasLimit) {
+    txOverrides.gasLimit = overrides.gasLimit
+  }
+  if (overrides.gasPrice) {
+    txOverrides.gasPrice = overrides.gasPrice
+  }
+  return registry
+    .connect(transmitter)
+    .transmit(
+      [reportContext[0], reportContext[1], reportContext[2]],
+      report,
+      sigs.rs,
+      sigs.ss,
+      sigs.vs,
+      txOverrides,
+    )
+}
+
+/**
+ * Sign a report against the registry's latest config digest and transmit it
+ *
+ * @param registry The registry to transmit to
+ * @param transmitter The transmitter to send the transaction from
+ * @param report The encoded report
+ * @param signers The wallets to sign the report with
+ * @param overrides Optional gas overrides for the transaction
+ */
+export async function signAndTransmit(
+  registry: IAutomationRegistry,
+  transmitter: Signer,
+  report: BytesLike,
+  signers: Wallet[],
+  overrides: TransmitOverrides = {},
+): Promise<ContractTransaction> {
+  const configDigest = (await registry.getState()).state.latestConfigDigest
+  const reportContext = makeReportContext(configDigest)
+  const sigs = signReport(reportContext, report, signers)
+  return transmitSigned(
+    registry,
+    transmitter,
+    reportContext,
+    report,
+    sigs,
+    overrides,
+  )
+}
@@ -0,0 +1,531 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains a local stand-in for the data streams (Mercury) API, and
+ * the DON side of a StreamsLookup: upkeeps like StreamsLookupUpkeep and
+ * MercuryRegistry revert with StreamsLookup from checkUpkeep, the DON fetches
+ * the reports the revert asks for, and calls checkCallback on the registry
+ * with them to get the performData to perform the upkeep with.
+ *
+ * The server serves reports for the feeds it is configured with, signed by its
+ * signer wallets like the reports of a real streams DON, on the endpoints of
+ * both API versions:
+ *
+ *   GET /client?feedIdHex=<feed ID>&blockNumber=<block>                (v0.2)
+ *   GET /api/v1/reports/bulk?feedIDs=<feed ID>,...&timestamp=<time>    (v0.3)
+ *
+ * v0.2 reports use the V1 report schema of the llo-feeds verifier (which
+ * MercuryRegistry decodes), and v0.3 reports the V3 schema.
+ */
+import http from 'http'
+import { AddressInfo } from 'net'
+import {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  Contract,
+  Wallet,
+  providers,
+  utils,
+} from 'ethers'
+import {
+  donSigners,
+  epochAndRound5_1,
+  makeReportContext,
+  signReport,
+} from './report'
+
+/**
+ * A feed the server serves reports for
+ */
+export type StreamsFeed = {
+  /**
+   * The hex encoded bytes32 ID of the feed
+   */
+  feedId: string
+  price: BigNumberish
+  /**
+   * The bid and ask of the feed, the price if omitted
+   */
+  bid?: BigNumberish
+  ask?: BigNumberish
+}
+
+// copied from StreamsLookupCompatibleInterface.sol
+export type StreamsLookup = {
+  feedParamKey: string
+  feeds: string[]
+  timeParamKey: string
+  time: BigNumber
+  extraData: string
+}
+
+// copied from BaseVerifierTest.t.sol
+export type StreamsReportV1 = {
+  feedId: BytesLike
+  observationsTimestamp: number
+  median: BigNumberish
+  bid: BigNumberish
+  ask: BigNumberish
+  blocknumberUpperBound: number
+  upperBlockhash: BytesLike
+  blocknumberLowerBound: number
+  currentBlockTimestamp: number
+}
+
+// copied from BaseVerifierTest.t.sol
+export type StreamsReportV3 = {
+  feedId: BytesLike
+  observationsTimestamp: number
+  validFromTimestamp: number
+  nativeFee: BigNumberish
+  pliFee: BigNumberish
+  expiresAt: number
+  benchmarkPrice: BigNumberish
+  bid: BigNumberish
+  ask: BigNumberish
+}
+
+/**
+ * A report as the verifier receives it
+ */
+export type SignedStreamsReport = {
+  reportContext: string[]
+  reportData: string
+  rs: string[]
+  ss: string[]
+  rawVs: string
+}
+
+export type StreamsServerOptions = {
+  /**
+   * The node the server reads the blocks of v0.2 reports from
+   */
+  provider: providers.Provider
+  feeds: StreamsFeed[]
+  /**
+   * The wallets reports are signed with, donSigners(2, 'local streams DON')
+   * if omitted
+   */
+  signers?: Wallet[]
+  /**
+   * The config digest reports are signed with, which a verifier must be
+   * configured with
+   */
+  configDigest?: BytesLike
+  /**
+   * How long v0.3 reports are valid for, in seconds
+   */
+  validity?: number
+  /**
+   * The port to listen on, a free one if omitted
+   */
+  port?: number
+}
+
+/**
+ * The result of calling checkCallback with the reports a StreamsLookup asked
+ * for
+ */
+export type StreamsCallback = {
+  lookup: StreamsLookup
+  /**
+   * The signed reports the upkeep was called back with
+   */
+  values: string[]
+  upkeepNeeded: boolean
+  performData: string
+  upkeepFailureReason: number
+  gasUsed: BigNumber
+}
+
+export const streamsLookupInterface = new utils.Interface([
+  'error StreamsLookup(string feedParamKey, string[] feeds, string timeParamKey, uint256 time, bytes extraData)',
+])
+
+const reportV1Types = [
+  'bytes32',
+  'uint32',
+  'int192',
+  'int192',
+  'int192',
+  'uint64',
+  'bytes32',
+  'uint64',
+  'uint64',
+]
+
+const reportV3Types = [
+  'bytes32',
+  'uint32',
+  'uint32',
+  'uint192',
+  'uint192',
+  'uint32',
+  'int192',
+  'int192',
+  'int192',
+]
+
+const signedReportTypes = [
+  'bytes32[3]',
+  'bytes',
+  'bytes32[]',
+  'bytes32[]',
+  'bytes32',
+]
+
+/**
+ * Decode the StreamsLookup error a check reverted with
+ *
+ * @param revertData The revert data of the check, which registries return as
+ * performData when the target's check reverts
+ * @returns the lookup, or undefined if the check reverted with anything else
+ */
+export function decodeStreamsLookup(
+  revertData: BytesLike,
+): StreamsLookup | undefined {
+  const selector = streamsLookupInterface.getSighash('StreamsLookup')
+  if (utils.hexDataLength(revertData) < 4) {
+    return undefined
+  }
+  if (utils.hexDataSlice(revertData, 0, 4) !== selector) {
+    return undefined
+  }
+  const [feedParamKey, feeds, timeParamKey, time, extraData] =
+    streamsLookupInterface.decodeErrorResult('StreamsLookup', revertData)
+  return { feedParamKey, feeds, timeParamKey, time, extraData }
+}
+
+/**
+ * ABI encode a V1 report, as served by the v0.2 API
+ *
+ * @param report The report
+ */
+export function encodeStreamsReportV1(report: StreamsReportV1): string {
+  return utils.defaultAbiCoder.encode(reportV1Types, [
+    report.feedId,
+    report.observationsTimestamp,
+    report.median,
+    report.bid,
+    report.ask,
+    report.blocknumberUpperBound,
+    report.upperBlockhash,
+    report.blocknumberLowerBound,
+    report.currentBlockTimestamp,
+  ])
+}
+
+/**
+ * ABI encode a V3 report, as served by the v0.3 API
+ *
+ * @param report The report
+ */
+export function encodeStreamsReportV3(report: StreamsReportV3): string {
+  return utils.defaultAbiCoder.encode(reportV3Types, [
+    report.feedId,
+    report.observationsTimestamp,
+    report.validFromTimestamp,
+    report.nativeFee,
+    report.pliFee,
+    report.expiresAt,
+    report.benchmarkPrice,
+    report.bid,
+    report.ask,
+  ])
+}
+
+/**
+ * Sign an encoded report the way a streams DON does, matching
+ * _verifySignatures in the llo-feeds verifier
+ *
+ * @param reportData The encoded report
+ * @param signers The wallets to sign the report with
+ * @param configDigest The config digest of the verifier
+ * @param epochAndRound The epoch and round of the report
+ */
+export function signStreamsReport(
+  reportData: BytesLike,
+  signers: Wallet[],
+  configDigest: BytesLike,
+  epochAndRound: BytesLike = epochAndRound5_1,
+): string {
+  const reportContext = makeReportContext(configDigest, epochAndRound)
+  const { rs, ss, vs } = signReport(reportContext, reportData, signers)
+  return utils.defaultAbiCoder.encode(signedReportTypes, [
+    reportContext,
+    reportData,
+    rs,
+    ss,
+    vs,
+  ])
+}
+
+/**
+ * Decode a signed report, as the verifier does before checking it
+ *
+ * @param signedReport The signed report
+ */
+export function decodeSignedStreamsReport(
+  signedReport: BytesLike,
+): SignedStreamsReport {
+  const [reportContext, reportData, rs, ss, rawVs] =
+    utils.defaultAbiCoder.decode(signedReportTypes, signedReport)
+  return { reportContext, reportData, rs, ss, rawVs }
+}
+
+/**
+ * A local data streams API which serves signed reports of the feeds it is
+ * configured with. Prices can be changed while it runs with setFeed.
+ */
+export class StreamsServer {
+  private readonly feeds = new Map<string, StreamsFeed>()
+  private readonly signers: Wallet[]
+  private readonly configDigest: BytesLike
+  private readonly validity: number
+
+  private constructor(
+    private readonly server: http.Server,
+    private readonly provider: providers.Provider,
+    options: StreamsServerOptions,
+  ) {
+    this.signers = options.signers ?? donSigners(2, 'local streams DON')
+    this.configDigest =
+      options.configDigest ?? utils.id('local streams config digest')
+    this.validity = options.validity ?? 3600
+    for (const feed of options.feeds) {
+      this.setFeed(feed)
+    }
+  }
+
+  /**
+   * Start a server, which listens on localhost until stopped
+   *
+   * @param options The feeds and signers of the server
+   */
+  static async start(options: StreamsServerOptions): Promise<StreamsServer> {
+    const server = http.createServer()
+    const streams = new StreamsServer(server, options.provider, options)
+    server.on('request', (req, res) => streams.handle(req, res))
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(options.port ?? 0, '127.0.0.1', resolve)
+    })
+    return streams
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo
+    return `http://127.0.0.1:${port}`
+  }
+
+  /**
+   * The addresses of the wallets reports are signed with
+   */
+  get signerAddresses(): string[] {
+    return this.signers.map((signer) => signer.address)
+  }
+
+  /**
+   * Add a feed, or change the prices of one the server already serves
+   *
+   * @param feed The feed
+   */
+  setFeed(feed: StreamsFeed): void {
+    this.feeds.set(feed.feedId.toLowerCase(), feed)
+  }
+
+  async stop(): Promise<void> {
+    const closed = new Promise<void>((resolve, reject) =>
+      this.server.close((err) => (err ? reject(err) : resolve())),
+    )
+    // don't wait for clients to drop keep-alive connections
+    this.server.closeAllConnections()
+    await closed
+  }
+
+  private getFeed(feedId: string): StreamsFeed {
+    const feed = this.feeds.get(feedId.toLowerCase())
+    if (feed === undefined) {
+      throw Error(`unknown feed ${feedId}`)
+    }
+    return feed
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? '/', this.url)
+    const param = (name: string) => {
+      const value = url.searchParams.get(name)
+      if (value === null) {
+        throw Error(`missing query parameter ${name}`)
+      }
+      return value
+    }
+    let status = 200
+    let body: unknown
+    try {
+      if (req.method !== 'GET') {
+        status = 405
+        throw Error(`unsupported method ${req.method}`)
+      }
+      if (url.pathname === '/client') {
+        body = {
+          pluginBlob: await this.reportV1(
+            param('feedIdHex'),
+            Number(param('blockNumber')),
+          ),
+        }
+      } else if (url.pathname === '/api/v1/reports/bulk') {
+        const timestamp = Number(param('timestamp'))
+        body = {
+          reports: param('feedIDs')
+            .split(',')
+            .map((feedId) => this.reportV3(feedId, timestamp)),
+        }
+      } else {
+        status = 404
+        throw Error(`unknown path ${url.pathname}`)
+      }
+    } catch (e) {
+      status = status === 200 ? 400 : status
+      body = { error: (e as Error).message }
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+
+  private async reportV1(feedId: string, blockNumber: number) {
+    const feed = this.getFeed(feedId)
+    // lookups at the latest block ask for the block being checked, which the
+    // node hasn't mined yet
+    const block = await this.provider.getBlock(
+      Math.min(blockNumber, await this.provider.getBlockNumber()),
+    )
+    const reportData = encodeStreamsReportV1({
+      feedId,
+      observationsTimestamp: block.timestamp,
+      median: feed.price,
+      bid: feed.bid ?? feed.price,
+      ask: feed.ask ?? feed.price,
+      blocknumberUpperBound: block.number,
+      upperBlockhash: block.hash,
+      blocknumberLowerBound: block.number,
+      currentBlockTimestamp: block.timestamp,
+    })
+    return signStreamsReport(reportData, this.signers, this.configDigest)
+  }
+
+  private reportV3(feedId: string, timestamp: number) {
+    const feed = this.getFeed(feedId)
+    const reportData = encodeStreamsReportV3({
+      feedId,
+      observationsTimestamp: timestamp,
+      validFromTimestamp: timestamp,
+      nativeFee: 0,
+      pliFee: 0,
+      expiresAt: timestamp + this.validity,
+      benchmarkPrice: feed.price,
+      bid: feed.bid ?? feed.price,
+      ask: feed.ask ?? feed.price,
+    })
+    return {
+      feedID: feedId,
+      validFromTimestamp: timestamp,
+      observationsTimestamp: timestamp,
+      fullReport: signStreamsReport(
+        reportData,
+        this.signers,
+        this.configDigest,
+      ),
+    }
+  }
+}
+
+/**
+ * Fetch the signed reports a StreamsLookup asks for from a data streams API,
+ * in the order of its feeds
+ *
+ * @param url The base URL of the API
+ * @param lookup The lookup
+ */
+export async function fetchStreamsReports(
+  url: string,
+  lookup: StreamsLookup,
+): Promise<string[]> {
+  const time = lookup.time.toString()
+  if (
+    lookup.feedParamKey === 'feedIdHex' &&
+    lookup.timeParamKey === 'blockNumber'
+  ) {
+    const values: string[] = []
+    for (const feedId of lookup.feeds) {
+      const { pluginBlob } = await utils.fetchJson(
+        `${url}/client?feedIdHex=${feedId}&blockNumber=${time}`,
+      )
+      values.push(pluginBlob)
+    }
+    return values
+  }
+  if (
+    lookup.feedParamKey === 'feedIDs' &&
+    lookup.timeParamKey === 'timestamp'
+  ) {
+    const { reports } = await utils.fetchJson(
+      `${url}/api/v1/reports/bulk?feedIDs=${lookup.feeds.join(',')}&timestamp=${time}`,
+    )
+    return lookup.feeds.map((feedId) => {
+      const report = reports.find(
+        (r: { feedID: string }) =>
+          r.feedID.toLowerCase() === feedId.toLowerCase(),
+      )
+      if (report === undefined) {
+        throw Error(`no report for feed ${feedId}`)
+      }
+      return report.fullReport
+    })
+  }
+  throw Error(
+    `unsupported StreamsLookup keys ${lookup.feedParamKey} and ${lookup.timeParamKey}`,
+  )
+}
+
+/**
+ * Complete the StreamsLookup an upkeep's check reverted with: fetch the
+ * reports it asks for and simulate checkCallback on the registry with them,
+ * which passes them on to the upkeep
+ *
+ * @param registry The registry the upkeep is registered with (v2.1+)
+ * @param id The ID of the upkeep
+ * @param revertData The revert data the check returned as performData
+ * @param url The base URL of the data streams API
+ * @param overrides The block and address to simulate checkCallback at and from
+ * @returns the result of the callback, or undefined if the check didn't revert
+ * with StreamsLookup
+ */
+export async function checkStreamsLookup(
+  registry: Contract,
+  id: BigNumberish,
+  revertData: BytesLike,
+  url: string,
+  overrides: { blockTag?: number; from?: string } = {},
+): Promise<StreamsCallback | undefined> {
+  const lookup = decodeStreamsLookup(revertData)
+  if (lookup === undefined) {
+    return undefined
+  }
+  const values = await fetchStreamsReports(url, lookup)
+  const result = await registry.callStatic.checkCallback(
+    id,
+    values,
+    lookup.extraData,
+    overrides,
+  )
+  return {
+    lookup,
+    values,
+    upkeepNeeded: result.upkeepNeeded,
+    performData: result.performData,
+    upkeepFailureReason: result.upkeepFailureReason,
+    gasUsed: result.gasUsed,
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains functionality for working with automation upkeep IDs and
+ * triggers (v2.1 - v2.3): constructing and parsing upkeep IDs and their
+ * trigger type marker, encoding and decoding the trigger and log structs the
+ * registries expect, encoding log trigger configs and matching logs against
+ * them, and extracting the IDs of registered upkeeps from transaction receipts.
+ */
+import {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  ContractTransaction,
+  constants,
+  providers,
+  utils,
+} from 'ethers'
+
+// copied from AutomationRegistryBase2_3.sol (unchanged since v2.1)
+export enum Trigger {
+  CONDITION,
+  LOG,
+}
+
+// copied from IAutomationV21PlusCommon.sol
+export type ConditionalTrigger = {
+  blockNum: BigNumberish
+  blockHash: BytesLike
+}
+
+// copied from IAutomationV21PlusCommon.sol
+export type LogTrigger = {
+  logBlockHash: BytesLike
+  txHash: BytesLike
+  logIndex: BigNumberish
+  blockNum: BigNumberish
+  blockHash: BytesLike
+}
+
+// copied from ILogAutomation.sol
+export type Log = {
+  index: BigNumberish
+  timestamp: BigNumberish
+  txHash: BytesLike
+  blockNumber: BigNumberish
+  blockHash: BytesLike
+  source: string
+  topics: BytesLike[]
+  data: BytesLike
+}
+
+// copied from IAutomationV21PlusCommon.sol
+export type LogTriggerConfig = {
+  contractAddress: string
+  /**
+   * A bitmask of the topics after topic0 that logs must match: 1 for topic1,
+   * 2 for topic2 and 4 for topic3. Logs always have to match topic0.
+   */
+  filterSelector: number
+  topic0: BytesLike
+  topic1: BytesLike
+  topic2: BytesLike
+  topic3: BytesLike
+}
+
+/**
+ * The components of an upkeep ID
+ */
+export type ParsedUpkeepId = {
+  id: BigNumber
+  triggerType: Trigger
+  /**
+   * True for IDs created before trigger types were encoded in the ID, which
+   * are always treated as conditional upkeeps
+   */
+  legacy: boolean
+}
+
+const conditionalTriggerType = 'tuple(uint32 blockNum, bytes32 blockHash)'
+const logTriggerType =
+  'tuple(bytes32 logBlockHash, bytes32 txHash, uint32 logIndex, uint32 blockNum, bytes32 blockHash)'
+const logTriggerConfigType =
+  'tuple(address contractAddress, uint8 filterSelector, bytes32 topic0, bytes32 topic1, bytes32 topic2, bytes32 topic3)'
+const logType =
+  'tuple(uint256 index, uint256 timestamp, bytes32 txHash, uint256 blockNumber, bytes32 blockHash, address source, bytes32[] topics, bytes data)'
+
+// the trigger type is stored in byte 15, and bytes 4 - 14 are zeroed out to mark it
+const TRIGGER_TYPE_INDEX = 15
+const MARKER_START = 4
+
+const upkeepEvents = new utils.Interface([
+  // emitted by every registry from v2.1
+  'event UpkeepRegistered(uint256 indexed id, uint32 performGas, address admin)',
+  // emitted by every registrar from v2.1
+  'event RegistrationApproved(bytes32 indexed hash, string displayName, uint256 indexed upkeepId)',
+])
+
+/**
+ * Parse an upkeep ID into its trigger type, matching _getTriggerType in the registry
+ *
+ * @param upkeepId The upkeep ID to parse
+ */
+export function parseUpkeepId(upkeepId: BigNumberish): ParsedUpkeepId {
+  const id = BigNumber.from(upkeepId)
+  const bytes = utils.arrayify(utils.hexZeroPad(id.toHexString(), 32))
+  if (bytes.slice(MARKER_START, TRIGGER_TYPE_INDEX).some((b) => b !== 0)) {
+    return { id, triggerType: Trigger.CONDITION, legacy: true }
+  }
+  const triggerType = bytes[TRIGGER_TYPE_INDEX]
+  if (Trigger[triggerType] === undefined) {
+    throw Error(
+      `upkeep ID ${id.toString()} has unknown trigger type ${triggerType}`,
+    )
+  }
+  return { id, triggerType, legacy: false }
+}
+
+/**
+ * Get the trigger type of an upkeep, matching _getTriggerType in the registry
+ *
+ * @param upkeepId The upkeep ID to get the trigger type of
+ */
+export function getTriggerType(upkeepId: BigNumberish): Trigger {
+  return parseUpkeepId(upkeepId).triggerType
+}
+
+/**
+ * Construct an upkeep ID with the given trigger type from 32 bytes of entropy,
+ * by setting the trigger type marker like _createID in the registry does
+ *
+ * @param triggerType The trigger type to encode in the ID
+ * @param entropy The 32 bytes to derive the rest of the ID from, random if omitted
+ */
+export function makeUpkeepId(
+  triggerType: Trigger,
+  entropy: BytesLike = utils.randomBytes(32),
+): BigNumber {
+  const bytes = utils.arrayify(entropy)
+  if (bytes.length !== 32) {
+    throw Error(`expected 32 bytes of entropy, got ${bytes.length}`)
+  }
+  bytes.fill(0, MARKER_START, TRIGGER_TYPE_INDEX)
+  bytes[TRIGGER_TYPE_INDEX] = triggerType
+  return BigNumber.from(bytes)
+}
+
+/**
+ * Compute the ID a registry assigns to the next upkeep it registers
+ *
+ * @param registry The address of the registry
+ * @param blockHash The hash of the block before the registration
+ * @param nonce The registry's nonce (getState().state.nonce) before the registration
+ * @param triggerType The trigger type of the upkeep
+ */
+export function computeUpkeepId(
+  registry: string,
+  blockHash: BytesLike,
+  nonce: BigNumberish,
+  triggerType: Trigger,
+): BigNumber {
+  const preimage = utils.defaultAbiCoder.encode(
+    ['bytes32', 'address', 'uint256'],
+    [blockHash, registry, nonce],
+  )
+  return makeUpkeepId(triggerType, utils.keccak256(preimage))
+}
+
+/**
+ * ABI encode a conditional (block) trigger, as the registry expects to find it in a report
+ *
+ * @param conditionalTrigger The block number and hash the upkeep was checked at
+ */
+export function encodeBlockTrigger(
+  conditionalTrigger: ConditionalTrigger,
+): string {
+  return utils.defaultAbiCoder.encode(
+    [conditionalTriggerType],
+    [conditionalTrigger],
+  )
+}
+
+/**
+ * Decode an ABI encoded conditional (block) trigger
+ *
+ * @param trigger The encoded trigger
+ */
+export function decodeBlockTrigger(trigger: BytesLike): ConditionalTrigger {
+  const [decoded] = utils.defaultAbiCoder.decode(
+    [conditionalTriggerType],
+    trigger,
+  )
+  return { blockNum: decoded.blockNum, blockHash: decoded.blockHash }
+}
+
+/**
+ * ABI encode a log trigger, as the registry expects to find it in a report
+ *
+ * @param logTrigger The log that triggered the upkeep and the block it was checked at
+ */
+export function encodeLogTrigger(logTrigger: LogTrigger): string {
+  return utils.defaultAbiCoder.encode([logTriggerType], [logTrigger])
+}
+
+/**
+ * Decode an ABI encoded log trigger
+ *
+ * @param trigger The encoded trigger
+ */
+export function decodeLogTrigger(trigger: BytesLike): LogTrigger {
+  const [decoded] = utils.defaultAbiCoder.decode([logTriggerType], trigger)
+  return {
+    logBlockHash: decoded.logBlockHash,
+    txHash: decoded.txHash,
+    logIndex: decoded.logIndex,
+    blockNum: decoded.blockNum,
+    blockHash: decoded.blockHash,
+  }
+}
+
+/**
+ * Build the trigger config of a log upkeep, setting the filter selector bit of
+ * every topic after topic0 that's given
+ *
+ * @param contractAddress The contract the logs are emitted by
+ * @param topic0 The signature hash of the event
+ * @param topics The other topics logs must match, if any
+ */
+export function makeLogTriggerConfig(
+  contractAddress: string,
+  topic0: BytesLike,
+  topics: { topic1?: BytesLike; topic2?: BytesLike; topic3?: BytesLike } = {},
+): LogTriggerConfig {
+  const filtered = [topics.topic1, topics.topic2, topics.topic3]
+  return {
+    contractAddress,
+    filterSelector: filtered.reduce<number>(
+      (selector, topic, idx) =>
+        topic === undefined ? selector : selector | (1 << idx),
+      0,
+    ),
+    topic0,
+    topic1: topics.topic1 ?? constants.HashZero,
+    topic2: topics.topic2 ?? constants.HashZero,
+    topic3: topics.topic3 ?? constants.HashZero,
+  }
+}
+
+/**
+ * ABI encode a log trigger config, as upkeeps are registered with it
+ *
+ * @param config The log trigger config
+ */
+export function encodeLogTriggerConfig(config: LogTriggerConfig): string {
+  return utils.defaultAbiCoder.encode([logTriggerConfigType], [config])
+}
+
+/**
+ * Decode an ABI encoded log trigger config
+ *
+ * @param triggerConfig The encoded log trigger config
+ */
+export function decodeLogTriggerConfig(
+  triggerConfig: BytesLike,
+): LogTriggerConfig {
+  const [decoded] = utils.defaultAbiCoder.decode(
+    [logTriggerConfigType],
+    triggerConfig,
+  )
+  return {
+    contractAddress: decoded.contractAddress,
+    filterSelector: decoded.filterSelector,
+    topic0: decoded.topic0,
+    topic1: decoded.topic1,
+    topic2: decoded.topic2,
+    topic3: decoded.topic3,
+  }
+}
+
+/**
+ * Check whether a log triggers an upkeep with the given trigger config, the
+ * way the DON filters logs: by contract address, topic0, and the other topics
+ * the filter selector picks
+ *
+ * @param config The trigger config of the upkeep
+ * @param log The log emitted on-chain
+ */
+export function matchesLogTriggerConfig(
+  config: LogTriggerConfig,
+  log: providers.Log,
+): boolean {
+  if (
+    log.address.toLowerCase() !== config.contractAddress.toLowerCase() ||
+    !sameTopic(log.topics[0], config.topic0)
+  ) {
+    return false
+  }
+  const topics = [config.topic1, config.topic2, config.topic3]
+  return topics.every(
+    (topic, idx) =>
+      (config.filterSelector & (1 << idx)) === 0 ||
+      sameTopic(log.topics[idx + 1], topic),
+  )
+}
+
+function sameTopic(topic: string | undefined, expected: BytesLike): boolean {
+  return (
+    topic !== undefined &&
+    topic.toLowerCase() === utils.hexlify(expected).toLowerCase()
+  )
+}
+
+/**
+ * ABI encode a log, as log-triggered upkeeps receive it as check data
+ *
+ * @param log The log to encode
+ */
+export function encodeLog(log: Log): string {
+  return utils.defaultAbiCoder.encode([logType], [log])
+}
+
+/**
+ * Decode an ABI encoded log
+ *
+ * @param encodedLog The encoded log
+ */
+export function decodeLog(encodedLog: BytesLike): Log {
+  const [decoded] = utils.defaultAbiCoder.decode([logType], encodedLog)
+  return {
+    index: decoded.index,
+    timestamp: decoded.timestamp,
+    txHash: decoded.txHash,
+    blockNumber: decoded.blockNumber,
+    blockHash: decoded.blockHash,
+    source: decoded.source,
+    topics: decoded.topics,
+    data: decoded.data,
+  }
+}
+
+/**
+ * Convert an EVM log into the struct log-triggered upkeeps receive
+ *
+ * @param log The log emitted on-chain
+ * @param timestamp The timestamp of the block the log was emitted in
+ */
+export function toAutomationLog(log: providers.Log, timestamp: number): Log {
+  return {
+    index: log.logIndex,
+    timestamp,
+    txHash: log.transactionHash,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    source: log.address,
+    topics: log.topics,
+    data: log.data,
+  }
+}
+
+/**
+ * Extract the IDs of the upkeeps registered in a transaction, from both
+ * registry (UpkeepRegistered) and registrar (RegistrationApproved) events.
+ * IDs are returned once, in the order they were first emitted.
+ *
+ * @param receipt The receipt of the registration transaction
+ */
+export function getUpkeepIDs(
+  receipt: providers.TransactionReceipt,
+): BigNumber[] {
+  const ids: BigNumber[] = []
+  for (const log of receipt.logs) {
+    let event: utils.LogDescription
+    try {
+      event = upkeepEvents.parseLog(log)
+    } catch {
+      continue
+    }
+    const id: BigNumber =
+      event.name === 'UpkeepRegistered' ? event.args.id : event.args.upkeepId
+    if (!ids.some((known) => known.eq(id))) {
+      ids.push(id)
+    }
+  }
+  return ids
+}
+
+/**
+ * Wait for a registration transaction and extract the ID of the upkeep it registered
+ *
+ * @param tx The registration transaction, sent to either a registry or a registrar
+ */
+export async function getUpkeepID(tx: ContractTransaction): Promise<BigNumber> {
+  const ids = getUpkeepIDs(await tx.wait())
+  if (ids.length !== 1) {
+    throw Error(
+      ids.length === 0
+        ? 'could not find upkeep ID in tx event logs'
+        : `found ${ids.length} upkeep IDs in tx event logs, expected 1`,
+    )
+  }
+  return ids[0]
+}
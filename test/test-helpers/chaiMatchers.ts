@@ -0,0 +1,450 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains a chai plugin with matchers for the contracts in this
+ * repo, so that tests can state what a transaction should do instead of
+ * parsing its logs:
+ *
+ * ```ts
+ *  await expect(pli.transferAndCall(operator.address, paid, args))
+ *    .to.emitOracleRequest({ specId, payment: paid })
+ *  await expect(tx).to.changePliBalances(pli, [operator, admin], [paid, -paid])
+ *  await expect(tx).to.performUpkeep(registry, upkeepId)
+ *  await expect(tx).to.skipUpkeepAs('stale', registry, upkeepId)
+ *  await expect(tx).to.revertWithTypedError(registry, 'OnlyActiveSigners', [])
+ * ```
+ *
+ * Every matcher is asynchronous and must be awaited. The subject is a
+ * transaction response, a receipt, a promise of either, or a function
+ * returning one. The plugin is registered with chai when this file is
+ * imported, so tests using the matchers import it for its side effect:
+ *
+ * ```ts
+ *  import '../../test-helpers/chaiMatchers'
+ * ```
+ */
+import chai from 'chai'
+import {
+  BigNumber,
+  BigNumberish,
+  Contract,
+  ContractReceipt,
+  Signer,
+  utils,
+} from 'ethers'
+import { decodeRunRequest, RunRequest } from './oracle'
+import { parseRegistryLogs } from './automation/indexer'
+
+export type Account = string | Signer | { address: string }
+
+/**
+ * The fields of an OracleRequest event to match, any omitted field matches
+ */
+export type ExpectedOracleRequest = {
+  specId?: string
+  requester?: string
+  payment?: BigNumberish
+  callbackAddr?: string
+  callbackFunc?: string
+  dataVersion?: number
+}
+
+export type SkipReason = 'stale' | 'reorged' | 'insufficientFunds' | 'cancelled'
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Chai {
+    interface Assertion {
+      emitOracleRequest(expected?: ExpectedOracleRequest): Promise<void>
+      changePliBalances(
+        token: Contract,
+        accounts: Account[],
+        deltas: BigNumberish[],
+      ): Promise<void>
+      performUpkeep(
+        registry: Contract | string,
+        id: BigNumberish,
+      ): Promise<void>
+      skipUpkeepAs(
+        reason: SkipReason,
+        registry?: Contract | string,
+        id?: BigNumberish,
+      ): Promise<void>
+      revertWithTypedError(
+        contract: Contract,
+        name: string,
+        args?: unknown[],
+      ): Promise<void>
+    }
+  }
+}
+
+const oracleRequestTopic = utils.id(
+  'OracleRequest(bytes32,address,bytes32,uint256,address,bytes4,uint256,uint256,bytes)',
+)
+
+const skipEvents: { [reason in SkipReason]: string } = {
+  stale: 'StaleUpkeepReport',
+  reorged: 'ReorgedUpkeepReport',
+  insufficientFunds: 'InsufficientFundsUpkeepReport',
+  cancelled: 'CancelledUpkeepReport',
+}
+
+async function resolve(subject: unknown): Promise<any> {
+  return typeof subject === 'function' ? subject() : subject
+}
+
+async function getReceipt(subject: unknown): Promise<ContractReceipt> {
+  const value = await resolve(subject)
+  if (value && typeof value.wait === 'function') {
+    return value.wait()
+  }
+  if (value && Array.isArray(value.logs)) {
+    return value
+  }
+  throw Error('expected a transaction response or receipt, or a promise of one')
+}
+
+async function getAddress(account: Account): Promise<string> {
+  if (typeof account === 'string') {
+    return utils.getAddress(account)
+  }
+  if ('address' in account && typeof account.address === 'string') {
+    return utils.getAddress(account.address)
+  }
+  return (account as Signer).getAddress()
+}
+
+function sameHex(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+/**
+ * List the fields of a run request which don't match the expected ones
+ */
+function oracleRequestMismatches(
+  request: RunRequest,
+  expected: ExpectedOracleRequest,
+): string[] {
+  const mismatches: string[] = []
+  const check = (field: string, matches: boolean, actual: unknown) => {
+    if (!matches) {
+      mismatches.push(
+        `${field} ${String(actual)}, expected ${String(
+          expected[field as keyof ExpectedOracleRequest],
+        )}`,
+      )
+    }
+  }
+  if (expected.specId !== undefined) {
+    check('specId', sameHex(request.specId, expected.specId), request.specId)
+  }
+  if (expected.requester !== undefined) {
+    check(
+      'requester',
+      sameHex(request.requester, expected.requester),
+      request.requester,
+    )
+  }
+  if (expected.payment !== undefined) {
+    check(
+      'payment',
+      BigNumber.from(request.payment).eq(expected.payment),
+      BigNumber.from(request.payment).toString(),
+    )
+  }
+  if (expected.callbackAddr !== undefined) {
+    check(
+      'callbackAddr',
+      sameHex(request.callbackAddr, expected.callbackAddr),
+      request.callbackAddr,
+    )
+  }
+  if (expected.callbackFunc !== undefined) {
+    check(
+      'callbackFunc',
+      sameHex(request.callbackFunc, expected.callbackFunc),
+      request.callbackFunc,
+    )
+  }
+  if (expected.dataVersion !== undefined) {
+    check(
+      'dataVersion',
+      request.dataVersion === expected.dataVersion,
+      request.dataVersion,
+    )
+  }
+  return mismatches
+}
+
+async function upkeepEvents(
+  receipt: ContractReceipt,
+  name: string,
+  registry?: Contract | string,
+  id?: BigNumberish,
+): Promise<utils.LogDescription[]> {
+  const address =
+    registry === undefined ? undefined : await getAddress(registry)
+  const logs = receipt.logs.filter(
+    (log) => address === undefined || sameHex(log.address, address),
+  )
+  return parseRegistryLogs(logs, name).filter(
+    (event) => id === undefined || event.args.id.eq(id),
+  )
+}
+
+/**
+ * Find the revert data of a failed call in the error ethers or hardhat threw
+ */
+function findRevertData(error: any, depth = 0): string | undefined {
+  if (error === undefined || error === null || depth > 4) {
+    return undefined
+  }
+  if (typeof error === 'string') {
+    return utils.isHexString(error) ? error : undefined
+  }
+  return (
+    findRevertData(error.data, depth + 1) ??
+    findRevertData(error.error, depth + 1)
+  )
+}
+
+function normalize(value: unknown): unknown {
+  if (BigNumber.isBigNumber(value) || typeof value === 'number') {
+    return BigNumber.from(value).toString()
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize)
+  }
+  if (typeof value === 'string' && utils.isHexString(value)) {
+    return value.toLowerCase()
+  }
+  return value
+}
+
+function formatError(name: string, args: unknown[]): string {
+  return `${name}(${args.map((arg) => JSON.stringify(normalize(arg))).join(', ')})`
+}
+
+/**
+ * The chai plugin, registered with chai at the bottom of this file
+ */
+export function pluginChaiMatchers(
+  chaiStatic: Chai.ChaiStatic,
+  chaiUtils: Chai.ChaiUtils,
+): void {
+  const { Assertion } = chaiStatic
+
+  // makes the assertion awaitable, the same way as hardhat-chai-matchers
+  function asyncAssertion(
+    assertion: Chai.AssertionStatic,
+    check: () => Promise<void>,
+  ) {
+    const promise = check()
+    const thenable = assertion as unknown as Promise<void>
+    thenable.then = promise.then.bind(promise) as typeof thenable.then
+    thenable.catch = promise.catch.bind(promise) as typeof thenable.catch
+    return assertion
+  }
+
+  Assertion.addMethod(
+    'emitOracleRequest',
+    function (
+      this: Chai.AssertionStatic,
+      expected: ExpectedOracleRequest = {},
+    ) {
+      const subject = chaiUtils.flag(this, 'object')
+      return asyncAssertion(this, async () => {
+        const receipt = await getReceipt(subject)
+        const requests = receipt.logs
+          .filter((log) => log.topics[0] === oracleRequestTopic)
+          .map((log) => decodeRunRequest(log))
+        const mismatches = requests.map((request) =>
+          oracleRequestMismatches(request, expected),
+        )
+        const found = mismatches.some((m) => m.length === 0)
+        this.assert(
+          found,
+          requests.length === 0
+            ? 'expected transaction to emit an OracleRequest, but it emitted none'
+            : `expected transaction to emit a matching OracleRequest, but got:\n  ${mismatches
+                .map((m) => m.join(', '))
+                .join('\n  ')}`,
+          'expected transaction not to emit a matching OracleRequest',
+          expected,
+        )
+      })
+    },
+  )
+
+  Assertion.addMethod(
+    'changePliBalances',
+    function (
+      this: Chai.AssertionStatic,
+      token: Contract,
+      accounts: Account[],
+      deltas: BigNumberish[],
+    ) {
+      const subject = chaiUtils.flag(this, 'object')
+      return asyncAssertion(this, async () => {
+        if (accounts.length !== deltas.length) {
+          throw Error(
+            `got ${accounts.length} accounts but ${deltas.length} balance changes`,
+          )
+        }
+        const receipt = await getReceipt(subject)
+        const mismatches: string[] = []
+        for (const [idx, account] of accounts.entries()) {
+          const address = await getAddress(account)
+          const [before, after]: BigNumber[] = await Promise.all([
+            token.balanceOf(address, { blockTag: receipt.blockNumber - 1 }),
+            token.balanceOf(address, { blockTag: receipt.blockNumber }),
+          ])
+          const change = after.sub(before)
+          if (!change.eq(deltas[idx])) {
+            mismatches.push(
+              `${address} changed by ${change.toString()}, expected ${BigNumber.from(
+                deltas[idx],
+              ).toString()}`,
+            )
+          }
+        }
+        this.assert(
+          mismatches.length === 0,
+          `expected transaction to change PLI balances:\n  ${mismatches.join(
+            '\n  ',
+          )}`,
+          'expected transaction not to change PLI balances by the given amounts',
+          deltas,
+        )
+      })
+    },
+  )
+
+  Assertion.addMethod(
+    'performUpkeep',
+    function (
+      this: Chai.AssertionStatic,
+      registry: Contract | string,
+      id: BigNumberish,
+    ) {
+      const subject = chaiUtils.flag(this, 'object')
+      return asyncAssertion(this, async () => {
+        const receipt = await getReceipt(subject)
+        const [performed] = await upkeepEvents(
+          receipt,
+          'UpkeepPerformed',
+          registry,
+          id,
+        )
+        let reason = 'it was not performed'
+        if (performed && !performed.args.success) {
+          reason = 'its perform failed'
+        } else if (!performed) {
+          for (const [skip, name] of Object.entries(skipEvents)) {
+            if ((await upkeepEvents(receipt, name, registry, id)).length > 0) {
+              reason = `it was skipped as ${skip}`
+            }
+          }
+        }
+        const upkeep = BigNumber.from(id).toString()
+        this.assert(
+          performed !== undefined && performed.args.success,
+          `expected upkeep ${upkeep} to be performed, but ${reason}`,
+          `expected upkeep ${upkeep} not to be performed`,
+          upkeep,
+        )
+      })
+    },
+  )
+
+  Assertion.addMethod(
+    'skipUpkeepAs',
+    function (
+      this: Chai.AssertionStatic,
+      reason: SkipReason,
+      registry?: Contract | string,
+      id?: BigNumberish,
+    ) {
+      const subject = chaiUtils.flag(this, 'object')
+      return asyncAssertion(this, async () => {
+        if (!(reason in skipEvents)) {
+          throw Error(`unknown skip reason ${reason}`)
+        }
+        const receipt = await getReceipt(subject)
+        const skipped = await upkeepEvents(
+          receipt,
+          skipEvents[reason],
+          registry,
+          id,
+        )
+        const upkeep =
+          id === undefined
+            ? 'an upkeep'
+            : `upkeep ${BigNumber.from(id).toString()}`
+        this.assert(
+          skipped.length > 0,
+          `expected ${upkeep} to be skipped as ${reason}, but it wasn't`,
+          `expected ${upkeep} not to be skipped as ${reason}`,
+          reason,
+        )
+      })
+    },
+  )
+
+  Assertion.addMethod(
+    'revertWithTypedError',
+    function (
+      this: Chai.AssertionStatic,
+      contract: Contract,
+      name: string,
+      args?: unknown[],
+    ) {
+      const subject = chaiUtils.flag(this, 'object')
+      return asyncAssertion(this, async () => {
+        const expected = contract.interface.getError(name)
+        let error: unknown
+        try {
+          await getReceipt(subject)
+        } catch (err) {
+          error = err
+        }
+        let actual = "it didn't revert"
+        let matches = false
+        if (error !== undefined) {
+          const data = findRevertData(error)
+          let parsed: ReturnType<utils.Interface['parseError']> | undefined
+          try {
+            parsed = data ? contract.interface.parseError(data) : undefined
+          } catch {
+            parsed = undefined
+          }
+          if (!parsed) {
+            actual = `it reverted with ${
+              data ?? (error as Error).message
+            }, which isn't an error of the contract`
+          } else {
+            actual = `it reverted with ${formatError(parsed.name, [
+              ...parsed.args,
+            ])}`
+            matches =
+              parsed.name === expected.name &&
+              (args === undefined ||
+                JSON.stringify(normalize([...parsed.args])) ===
+                  JSON.stringify(normalize(args)))
+          }
+        }
+        const wanted =
+          args === undefined ? expected.name : formatError(expected.name, args)
+        this.assert(
+          matches,
+          `expected transaction to revert with ${wanted}, but ${actual}`,
+          `expected transaction not to revert with ${wanted}`,
+          wanted,
+        )
+      })
+    },
+  )
+}
+
+chai.use(pluginChaiMatchers)
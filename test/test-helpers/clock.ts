@@ -0,0 +1,232 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains a single API for controlling time and blocks in the
+ * Hardhat network, so tests don't have to piece it together from
+ * evm_increaseTime, evm_mine and hardhat_reset calls. Every method that moves
+ * time sets the timestamp of the next block explicitly, rather than adding an
+ * offset to the wall clock, so the timestamps a test sees don't depend on how
+ * long the test took to run.
+ *
+ * Snapshots are kept on a stack, so scopes can be nested across describe
+ * blocks: each scope reverts the state it snapshotted, including whether time
+ * was frozen, and nothing from an inner scope leaks into an outer one.
+ *
+ * ```ts
+ *  describe('CronUpkeep', () => {
+ *    clock.scope() // every test starts from the same state
+ *    beforeEach(async () => { ... deploy ... })
+ *
+ *    it('performs on the next tick', async () => {
+ *      await clock.advanceToTick('0 * * * *')
+ *      ...
+ *    })
+ *  })
+ * ```
+ */
+import { network } from 'hardhat'
+import { EthereumProvider } from 'hardhat/types'
+import { Spec, nextTick, toSpec } from './cron'
+
+type Snapshot = {
+  id: string
+  frozen: boolean
+}
+
+function toQuantity(value: number): string {
+  return `0x${value.toString(16)}`
+}
+
+export class Clock {
+  private frozen = false
+  private readonly snapshots: Snapshot[] = []
+
+  /**
+   * @param provider The provider of the network to control
+   */
+  constructor(private readonly provider: EthereumProvider = network.provider) {}
+
+  private async send(method: string, params: unknown[] = []): Promise<any> {
+    return this.provider.request({ method, params })
+  }
+
+  /**
+   * While frozen, pin the next block to one second after the latest block
+   */
+  private async pin(): Promise<void> {
+    if (this.frozen) {
+      await this.send('evm_setNextBlockTimestamp', [(await this.now()) + 1])
+    }
+  }
+
+  /**
+   * @returns The timestamp of the latest block
+   */
+  async now(): Promise<number> {
+    const block = await this.send('eth_getBlockByNumber', ['latest', false])
+    return parseInt(block.timestamp, 16)
+  }
+
+  /**
+   * @returns The number of the latest block
+   */
+  async blockNumber(): Promise<number> {
+    return parseInt(await this.send('eth_blockNumber'), 16)
+  }
+
+  /**
+   * Mine a block at exactly the given time
+   *
+   * @param timestamp The unix timestamp (in seconds) of the block, which must
+   * be after the latest block
+   */
+  async setTime(timestamp: number): Promise<void> {
+    const now = await this.now()
+    if (timestamp <= now) {
+      throw Error(
+        `cannot set time to ${timestamp}, the latest block is at ${now}`,
+      )
+    }
+    await this.send('evm_setNextBlockTimestamp', [timestamp])
+    await this.send('evm_mine')
+    await this.pin()
+  }
+
+  /**
+   * Mine a block the given number of seconds after the latest block
+   *
+   * @param seconds The number of seconds to advance by
+   * @returns The timestamp of the mined block
+   */
+  async advance(seconds: number): Promise<number> {
+    if (seconds <= 0) {
+      throw Error(`cannot advance time by ${seconds} seconds`)
+    }
+    const timestamp = (await this.now()) + seconds
+    await this.setTime(timestamp)
+    return timestamp
+  }
+
+  /**
+   * Mine a block at the next tick of a cron schedule after the latest block
+   *
+   * @param cron The cron string or spec to advance to, ex. "0 0 * * *"
+   * @returns The timestamp of the tick
+   */
+  async advanceToTick(cron: string | Spec): Promise<number> {
+    const spec = typeof cron === 'string' ? toSpec(cron) : cron
+    const now = await this.now()
+    let tick = nextTick(spec, now)
+    if (tick <= now) {
+      // the minute containing the latest block ticked, take the one after it
+      tick = nextTick(spec, tick + 60)
+    }
+    await this.setTime(tick)
+    return tick
+  }
+
+  /**
+   * Mine a number of blocks, a fixed interval apart
+   *
+   * @param blocks The number of blocks to mine
+   * @param interval The number of seconds between blocks, starting from the
+   * latest block
+   * @returns The number of the last block mined
+   */
+  async mine(blocks = 1, interval = 1): Promise<number> {
+    if (blocks < 1 || interval < 1) {
+      throw Error(`cannot mine ${blocks} blocks ${interval} seconds apart`)
+    }
+    await this.send('evm_setNextBlockTimestamp', [
+      (await this.now()) + interval,
+    ])
+    await this.send('hardhat_mine', [toQuantity(blocks), toQuantity(interval)])
+    await this.pin()
+    return this.blockNumber()
+  }
+
+  /**
+   * Keep the time that passes in the test runner off the chain: until
+   * unfreeze() is called, the block after each clock call is one second after
+   * the one before it. Hardhat can't pin every block, so later blocks only
+   * move by the real time that passes, normally a second each.
+   */
+  async freeze(): Promise<void> {
+    this.frozen = true
+    await this.pin()
+  }
+
+  unfreeze(): void {
+    this.frozen = false
+  }
+
+  get isFrozen(): boolean {
+    return this.frozen
+  }
+
+  /**
+   * Snapshot the state of the network
+   *
+   * @returns The id of the snapshot, to pass to revert()
+   */
+  async snapshot(): Promise<string> {
+    const id: string = await this.send('evm_snapshot')
+    this.snapshots.push({ id, frozen: this.frozen })
+    return id
+  }
+
+  /**
+   * Revert the network to a snapshot. Hardhat discards every snapshot taken
+   * after it, so they can't be reverted to afterwards.
+   *
+   * @param id The id of the snapshot, the latest one if omitted
+   */
+  async revert(id?: string): Promise<void> {
+    const index =
+      id === undefined
+        ? this.snapshots.length - 1
+        : this.snapshots.findIndex((snapshot) => snapshot.id === id)
+    if (index < 0) {
+      throw Error(
+        id === undefined
+          ? 'no snapshot to revert to'
+          : `unknown snapshot ${id}`,
+      )
+    }
+    const [snapshot] = this.snapshots.splice(index)
+    if (!(await this.send('evm_revert', [snapshot.id]))) {
+      throw Error(`could not revert to snapshot ${snapshot.id}`)
+    }
+    this.frozen = snapshot.frozen
+  }
+
+  /**
+   * Register mocha hooks which snapshot the network before and revert it
+   * after the tests of the enclosing describe block. Call it before the
+   * block's other hooks, so the state they set up is reverted too.
+   *
+   * @param hooks Whether to revert after each test, or once after all of them
+   */
+  scope(hooks: 'each' | 'all' = 'each'): void {
+    let id: string
+    const [setup, teardown] =
+      hooks === 'each' ? [beforeEach, afterEach] : [before, after]
+    setup(async () => {
+      id = await this.snapshot()
+    })
+    teardown(async () => {
+      await this.revert(id)
+    })
+  }
+
+  /**
+   * Reset the network to its initial state, discarding every snapshot
+   */
+  async reset(): Promise<void> {
+    await this.send('hardhat_reset')
+    this.snapshots.length = 0
+    this.frozen = false
+  }
+}
+
+export const clock = new Clock()
@@ -0,0 +1,549 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains an off-chain implementation of the Cron library
+ * (src/v0.8/automation/libraries/internal/Cron.sol). It mirrors the on-chain
+ * parsing, validation, encoding and tick calculation exactly, including the
+ * library's quirks, so that it can be used to validate specs before they are
+ * sent to CronUpkeep and as a reference to check the contracts against.
+ */
+import { BytesLike, utils } from 'ethers'
+
+// copied from Cron.sol
+export enum FieldType {
+  WILD,
+  EXACT,
+  INTERVAL,
+  RANGE,
+  LIST,
+}
+
+// copied from Cron.sol
+export type Field = {
+  fieldType: FieldType
+  singleValue: number
+  interval: number
+  rangeStart: number
+  rangeEnd: number
+  listLength: number
+  list: number[]
+}
+
+// copied from Cron.sol
+export type Spec = {
+  minute: Field
+  hour: Field
+  day: Field
+  month: Field
+  dayOfWeek: Field
+}
+
+// The fields of a cron spec, by name
+const MINUTE = 'minute'
+const HOUR = 'hour'
+const DAY = 'day'
+const MONTH = 'month'
+const DAY_OF_WEEK = 'day of week'
+
+const MAX_LIST_LENGTH = 26
+const DAY_IN_SECONDS = 86400
+const ORIGIN_YEAR = 1970
+// the gregorian calendar repeats itself (including weekdays) every 400 years,
+// so a spec that doesn't tick within that window never ticks
+const MAX_SEARCH_YEARS = 401
+
+const fieldType =
+  'tuple(uint8 fieldType, uint8 singleValue, uint8 interval, uint8 rangeStart, uint8 rangeEnd, uint8 listLength, uint8[26] list)'
+const specType = `tuple(${fieldType} minute, ${fieldType} hour, ${fieldType} day, ${fieldType} month, ${fieldType} dayOfWeek)`
+
+/**
+ * Convert a cron string to a validated spec, mirroring Cron.toSpec()
+ *
+ * @param cronString The cron string to convert, ex "0 0 * * *"
+ */
+export function toSpec(cronString: string): Spec {
+  if (cronString.split(' ').length - 1 !== 4) {
+    throw Error('InvalidSpec: 4 spaces required')
+  }
+  const [minute, hour, day, month, dayOfWeek] = cronString.split(' ')
+  if (
+    minute.length === 0 ||
+    hour.length === 0 ||
+    day.length === 0 ||
+    month.length === 0 ||
+    dayOfWeek.length === 0
+  ) {
+    throw Error('InvalidSpec: some fields missing')
+  }
+  return validate({
+    minute: toField(minute),
+    hour: toField(hour),
+    day: toField(day),
+    month: toField(month),
+    dayOfWeek: toField(dayOfWeek),
+  })
+}
+
+/**
+ * Convert a cron string to an abi-encoded spec, mirroring Cron.toEncodedSpec()
+ *
+ * @param cronString The cron string to convert and encode
+ */
+export function encodeCronString(cronString: string): string {
+  return encodeSpec(toSpec(cronString))
+}
+
+/**
+ * ABI encode a spec struct
+ *
+ * @param spec The spec to encode
+ */
+export function encodeSpec(spec: Spec): string {
+  return utils.defaultAbiCoder.encode([specType], [spec])
+}
+
+/**
+ * Decode an abi-encoded spec struct
+ *
+ * @param encodedSpec The abi-encoded spec, as stored by CronUpkeep
+ */
+export function decodeSpec(encodedSpec: BytesLike): Spec {
+  const [spec] = utils.defaultAbiCoder.decode([specType], encodedSpec)
+  const decodeField = (field: utils.Result): Field => {
+    if (field.fieldType > FieldType.LIST) {
+      throw Error(`invalid field type: ${field.fieldType}`)
+    }
+    return {
+      fieldType: field.fieldType,
+      singleValue: field.singleValue,
+      interval: field.interval,
+      rangeStart: field.rangeStart,
+      rangeEnd: field.rangeEnd,
+      listLength: field.listLength,
+      list: [...field.list],
+    }
+  }
+  return {
+    minute: decodeField(spec.minute),
+    hour: decodeField(spec.hour),
+    day: decodeField(spec.day),
+    month: decodeField(spec.month),
+    dayOfWeek: decodeField(spec.dayOfWeek),
+  }
+}
+
+/**
+ * Convert a spec back to a human-readable cron string, mirroring Cron.toCronString()
+ *
+ * @param spec The spec to stringify
+ */
+export function toCronString(spec: Spec): string {
+  return [
+    fieldToString(spec.minute),
+    fieldToString(spec.hour),
+    fieldToString(spec.day),
+    fieldToString(spec.month),
+    fieldToString(spec.dayOfWeek),
+  ].join(' ')
+}
+
+/**
+ * Convert an abi-encoded spec back to a human-readable cron string
+ *
+ * @param encodedSpec The abi-encoded spec
+ */
+export function encodedSpecToString(encodedSpec: BytesLike): string {
+  return toCronString(decodeSpec(encodedSpec))
+}
+
+/**
+ * Check whether a cron string would be accepted by the Cron library
+ *
+ * @param cronString The cron string to check
+ */
+export function isValidCronString(cronString: string): boolean {
+  try {
+    toSpec(cronString)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Calculate the next time a spec "ticks", mirroring Cron.nextTick(). Like the
+ * library, the minute containing the timestamp is considered a candidate tick.
+ *
+ * @param spec The spec to evaluate
+ * @param timestamp The unix timestamp (in seconds) to start from, normally the block timestamp
+ */
+export function nextTick(spec: Spec, timestamp: number): number {
+  const start = new Date(timestamp * 1000)
+  let year = start.getUTCFullYear()
+  let month = start.getUTCMonth() + 1
+  let day = start.getUTCDate()
+  let hour = getHour(timestamp)
+  let minute = getMinute(timestamp)
+  const maxYear = year + MAX_SEARCH_YEARS
+  for (; year < maxYear; year++) {
+    for (; month <= 12; month++) {
+      if (!matchesField(spec.month, month)) {
+        day = 1
+        hour = 0
+        minute = 0
+        continue
+      }
+      const maxDay = getDaysInMonth(month, year)
+      for (; day <= maxDay; day++) {
+        if (!matchesField(spec.day, day)) {
+          hour = 0
+          minute = 0
+          continue
+        }
+        const dayOfWeek = getWeekday(toTimestamp(year, month, day))
+        if (!matchesField(spec.dayOfWeek, dayOfWeek)) {
+          hour = 0
+          minute = 0
+          continue
+        }
+        for (; hour < 24; hour++) {
+          if (!matchesField(spec.hour, hour)) {
+            minute = 0
+            continue
+          }
+          for (; minute < 60; minute++) {
+            if (!matchesField(spec.minute, minute)) {
+              continue
+            }
+            return toTimestamp(year, month, day, hour, minute)
+          }
+          minute = 0
+        }
+        hour = 0
+      }
+      day = 1
+    }
+    month = 1
+  }
+  throw Error(`spec "${toCronString(spec)}" never ticks`)
+}
+
+/**
+ * Calculate the previous time a spec "ticked", mirroring Cron.lastTick()
+ *
+ * @param spec The spec to evaluate
+ * @param timestamp The unix timestamp (in seconds) to start from, normally the block timestamp
+ */
+export function lastTick(spec: Spec, timestamp: number): number {
+  const start = new Date(timestamp * 1000)
+  let year = start.getUTCFullYear()
+  let month = start.getUTCMonth() + 1
+  let day = start.getUTCDate()
+  let hour = getHour(timestamp)
+  let minute = getMinute(timestamp)
+  let resetDay = false
+  const minYear = year - MAX_SEARCH_YEARS
+  for (; year > minYear; year--) {
+    for (; month > 0; month--) {
+      if (!matchesField(spec.month, month)) {
+        resetDay = true
+        hour = 23
+        minute = 59
+        continue
+      }
+      if (resetDay) {
+        day = getDaysInMonth(month, year)
+      }
+      for (; day > 0; day--) {
+        if (!matchesField(spec.day, day)) {
+          hour = 23
+          minute = 59
+          continue
+        }
+        const dayOfWeek = getWeekday(toTimestamp(year, month, day))
+        if (!matchesField(spec.dayOfWeek, dayOfWeek)) {
+          hour = 23
+          minute = 59
+          continue
+        }
+        for (; hour >= 0; hour--) {
+          if (!matchesField(spec.hour, hour)) {
+            minute = 59
+            continue
+          }
+          for (; minute >= 0; minute--) {
+            if (!matchesField(spec.minute, minute)) {
+              continue
+            }
+            return toTimestamp(year, month, day, hour, minute)
+          }
+          minute = 59
+        }
+        hour = 23
+      }
+      resetDay = true
+    }
+    month = 12
+  }
+  throw Error(`spec "${toCronString(spec)}" never ticked`)
+}
+
+/**
+ * Calculate the next tick of a cron string, mirroring the calculateNextTick()
+ * function of the Cron test helper contracts
+ *
+ * @param cronString The cron string to evaluate
+ * @param timestamp The unix timestamp (in seconds) to start from
+ */
+export function calculateNextTick(
+  cronString: string,
+  timestamp: number,
+): number {
+  return nextTick(toSpec(cronString), timestamp)
+}
+
+/**
+ * Calculate the last tick of a cron string, mirroring the calculateLastTick()
+ * function of the Cron test helper contracts
+ *
+ * @param cronString The cron string to evaluate
+ * @param timestamp The unix timestamp (in seconds) to start from
+ */
+export function calculateLastTick(
+  cronString: string,
+  timestamp: number,
+): number {
+  return lastTick(toSpec(cronString), timestamp)
+}
+
+/**
+ * Evaluate whether a spec ticks at a given timestamp, mirroring Cron.matches().
+ * Note that, like the library, this does not consider the day of week field.
+ *
+ * @param spec The spec to evaluate
+ * @param timestamp The unix timestamp (in seconds) to compare against
+ */
+export function matches(spec: Spec, timestamp: number): boolean {
+  const dt = new Date(timestamp * 1000)
+  return (
+    matchesField(spec.month, dt.getUTCMonth() + 1) &&
+    matchesField(spec.day, dt.getUTCDate()) &&
+    matchesField(spec.hour, getHour(timestamp)) &&
+    matchesField(spec.minute, getMinute(timestamp))
+  )
+}
+
+function matchesField(field: Field, value: number): boolean {
+  switch (field.fieldType) {
+    case FieldType.WILD:
+      return true
+    case FieldType.INTERVAL:
+      return value % field.interval === 0
+    case FieldType.EXACT:
+      return value === field.singleValue
+    case FieldType.RANGE:
+      return value >= field.rangeStart && value <= field.rangeEnd
+    case FieldType.LIST:
+      return field.list.slice(0, field.listLength).includes(value)
+  }
+}
+
+// VALIDATIONS
+
+function validate(spec: Spec): Spec {
+  validateField(spec.dayOfWeek, DAY_OF_WEEK, 0, 6)
+  validateField(spec.month, MONTH, 1, 12)
+  const maxDay = maxDayForMonthField(spec.month)
+  validateField(spec.day, DAY, 1, maxDay)
+  validateField(spec.hour, HOUR, 0, 23)
+  validateField(spec.minute, MINUTE, 0, 59)
+  return spec
+}
+
+function validateField(
+  field: Field,
+  fieldName: string,
+  min: number,
+  max: number,
+) {
+  const invalid = (reason: string) =>
+    Error(`InvalidField: ${fieldName}: ${reason}`)
+  switch (field.fieldType) {
+    case FieldType.WILD:
+      return
+    case FieldType.EXACT:
+      if (field.singleValue < min || field.singleValue > max) {
+        throw invalid(`value must be >=${min} and <=${max}`)
+      }
+      return
+    case FieldType.INTERVAL:
+      if (field.interval < 1 || field.interval > max) {
+        throw invalid(`interval must be */(1-${max})`)
+      }
+      return
+    case FieldType.RANGE:
+      // the library does not check the start of a range against the minimum
+      if (field.rangeEnd > max || field.rangeEnd <= field.rangeStart) {
+        throw invalid(`interval must be within ${min}-${max}`)
+      }
+      return
+    case FieldType.LIST:
+      if (field.listLength < 2) {
+        throw invalid('lists must have at least 2 items')
+      }
+      for (const item of field.list.slice(0, field.listLength)) {
+        if (item < min || item > max) {
+          throw invalid(`items in list must be within ${min}-${max}`)
+        }
+      }
+      return
+  }
+}
+
+function maxDayForMonthField(month: Field): number {
+  switch (month.fieldType) {
+    // ranges are always safe because any two consecutive months will always
+    // contain a month with 31 days
+    case FieldType.WILD:
+    case FieldType.RANGE:
+      return 31
+    case FieldType.EXACT:
+      // assume leap year in order to get max value
+      return getDaysInMonth(month.singleValue, 4)
+    case FieldType.INTERVAL:
+      return month.interval === 9 || month.interval === 11 ? 30 : 31
+    case FieldType.LIST:
+      return Math.max(
+        ...month.list
+          .slice(0, month.listLength)
+          .map((m) => getDaysInMonth(m, 4)),
+      )
+  }
+}
+
+// PARSING
+
+function toField(fieldString: string): Field {
+  const field: Field = {
+    fieldType: FieldType.WILD,
+    singleValue: 0,
+    interval: 0,
+    rangeStart: 0,
+    rangeEnd: 0,
+    listLength: 0,
+    list: Array(MAX_LIST_LENGTH).fill(0),
+  }
+  if (fieldString === '*') {
+    field.fieldType = FieldType.WILD
+  } else if (fieldString.includes('-')) {
+    const idx = fieldString.indexOf('-')
+    field.fieldType = FieldType.RANGE
+    field.rangeStart = toUint8(fieldString.slice(0, idx))
+    field.rangeEnd = toUint8(fieldString.slice(idx + 1))
+  } else if (fieldString.includes('/')) {
+    field.fieldType = FieldType.INTERVAL
+    field.interval = toUint8(fieldString.slice(fieldString.indexOf('/') + 1))
+  } else if (fieldString.includes(',')) {
+    field.fieldType = FieldType.LIST
+    // a trailing comma does not produce an (empty) item, just like strings.split()
+    const tokens = fieldString.split(',')
+    if (tokens[tokens.length - 1] === '') {
+      tokens.pop()
+    }
+    for (const token of tokens) {
+      if (field.listLength >= MAX_LIST_LENGTH) {
+        throw Error('ListTooLarge')
+      }
+      field.list[field.listLength] = toUint8(token)
+      field.listLength++
+    }
+  } else {
+    field.fieldType = FieldType.EXACT
+    field.singleValue = toUint8(fieldString)
+  }
+  return field
+}
+
+// like Cron.sliceToUint8(), non-digit characters are ignored and
+// values which don't fit in a uint8 overflow (revert)
+function toUint8(token: string): number {
+  let result = 0
+  for (const c of token) {
+    if (c >= '0' && c <= '9') {
+      result = result * 10 + Number(c)
+      if (result > 255) {
+        throw Error(`uint8 overflow parsing "${token}"`)
+      }
+    }
+  }
+  return result
+}
+
+function fieldToString(field: Field): string {
+  switch (field.fieldType) {
+    case FieldType.WILD:
+      return '*'
+    case FieldType.EXACT:
+      return field.singleValue.toString()
+    case FieldType.RANGE:
+      return `${field.rangeStart}-${field.rangeEnd}`
+    case FieldType.INTERVAL:
+      return `*/${field.interval}`
+    case FieldType.LIST:
+      return [field.list[0], ...field.list.slice(1, field.listLength)].join(',')
+  }
+}
+
+// DATETIME, mirroring src/v0.8/vendor/DateTime.sol
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+}
+
+function leapYearsBefore(year: number): number {
+  year -= 1
+  return Math.floor(year / 4) - Math.floor(year / 100) + Math.floor(year / 400)
+}
+
+function getDaysInMonth(month: number, year: number): number {
+  if ([1, 3, 5, 7, 8, 10, 12].includes(month)) {
+    return 31
+  } else if ([4, 6, 9, 11].includes(month)) {
+    return 30
+  }
+  return isLeapYear(year) ? 29 : 28
+}
+
+function getHour(timestamp: number): number {
+  return Math.floor(timestamp / 60 / 60) % 24
+}
+
+function getMinute(timestamp: number): number {
+  return Math.floor(timestamp / 60) % 60
+}
+
+function getWeekday(timestamp: number): number {
+  return (Math.floor(timestamp / DAY_IN_SECONDS) + 4) % 7
+}
+
+function toTimestamp(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+): number {
+  let days = 0
+  // years before the origin year are not counted by DateTime.toTimestamp()
+  if (year > ORIGIN_YEAR) {
+    days +=
+      365 * (year - ORIGIN_YEAR) +
+      leapYearsBefore(year) -
+      leapYearsBefore(ORIGIN_YEAR)
+  }
+  for (let m = 1; m < month; m++) {
+    days += getDaysInMonth(m, year)
+  }
+  days += day - 1
+  return days * DAY_IN_SECONDS + hour * 3600 + minute * 60
+}
@@ -15,3 +15,20 @@ import debug from 'debug'
 export function makeDebug(name: string): debug.Debugger {
   return debug(name)
 }
+
+/**
+ * Register mocha hooks which send console.log to a debug logger during the
+ * tests of the enclosing describe block, to keep the output of the code under
+ * test, like hardhat tasks, out of the test report.
+ *
+ * @param name The namespace to log under, ex. DEBUG=test:tasks to print it
+ */
+export function quietConsole(name: string): void {
+  const log = console.log
+  before(() => {
+    console.log = makeDebug(name)
+  })
+  after(() => {
+    console.log = log
+  })
+}
@@ -0,0 +1,236 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains a gas recorder for the Hardhat test suites, which
+ * captures the gas used by labeled transactions and compares it against a
+ * snapshot committed to gas-snapshots/hardhat, in the same format as the forge
+ * snapshots next to it. Each suite records into its own snapshot, since the
+ * suites run in parallel.
+ *
+ * Recording is always on and cheap. What happens with the recorded numbers
+ * depends on the GAS_SNAPSHOT environment variable:
+ *
+ *   GAS_SNAPSHOT=check   fail if any label moved by more than the tolerance
+ *   GAS_SNAPSHOT=update  overwrite the snapshot with the recorded numbers
+ *
+ * and nothing happens when it's unset, so regular test runs don't write files.
+ */
+import fs from 'fs'
+import path from 'path'
+import { ContractReceipt } from 'ethers'
+import { assert } from 'chai'
+
+export type GasSnapshot = { [label: string]: number }
+
+/**
+ * How far a label may move from the baseline before it's reported. A change
+ * is within tolerance if it's within either bound.
+ */
+export type GasTolerance = {
+  /**
+   * The gas a label may move by
+   */
+  absolute?: number
+  /**
+   * The fraction of the baseline a label may move by, ex. 0.01 for 1%
+   */
+  relative?: number
+}
+
+export type GasDiff = {
+  label: string
+  baseline?: number
+  current?: number
+  delta: number
+  exceedsTolerance: boolean
+}
+
+const linePattern = /^(.+) \(gas: (\d+)\)$/
+
+/**
+ * Parse the contents of a snapshot file
+ *
+ * @param contents The lines of the snapshot, "<label> (gas: <gasUsed>)"
+ */
+export function parseGasSnapshot(contents: string): GasSnapshot {
+  const snapshot: GasSnapshot = {}
+  for (const line of contents.split(/\r?\n/)) {
+    if (line.trim() === '') {
+      continue
+    }
+    const match = line.match(linePattern)
+    if (!match) {
+      throw Error(`invalid gas snapshot line: ${line}`)
+    }
+    snapshot[match[1]] = parseInt(match[2], 10)
+  }
+  return snapshot
+}
+
+/**
+ * Format a snapshot for writing, sorted by label so that diffs are stable
+ */
+export function formatGasSnapshot(snapshot: GasSnapshot): string {
+  return Object.keys(snapshot)
+    .sort()
+    .map((label) => `${label} (gas: ${snapshot[label]})\n`)
+    .join('')
+}
+
+/**
+ * Compare a snapshot against a baseline. Labels missing from either side
+ * always exceed the tolerance, since the baseline needs updating for them.
+ *
+ * @param baseline The committed snapshot
+ * @param current The recorded snapshot
+ * @param tolerance How far a label may move before it's reported
+ */
+export function diffGasSnapshots(
+  baseline: GasSnapshot,
+  current: GasSnapshot,
+  tolerance: GasTolerance = {},
+): GasDiff[] {
+  const labels = [
+    ...new Set([...Object.keys(baseline), ...Object.keys(current)]),
+  ].sort()
+  const diffs: GasDiff[] = []
+  for (const label of labels) {
+    const [before, after] = [baseline[label], current[label]]
+    if (before === after) {
+      continue
+    }
+    if (before === undefined || after === undefined) {
+      diffs.push({
+        label,
+        baseline: before,
+        current: after,
+        delta: (after ?? 0) - (before ?? 0),
+        exceedsTolerance: true,
+      })
+      continue
+    }
+    const delta = after - before
+    const withinAbsolute =
+      tolerance.absolute !== undefined && Math.abs(delta) <= tolerance.absolute
+    const withinRelative =
+      tolerance.relative !== undefined &&
+      Math.abs(delta) <= before * tolerance.relative
+    diffs.push({
+      label,
+      baseline: before,
+      current: after,
+      delta,
+      exceedsTolerance: !withinAbsolute && !withinRelative,
+    })
+  }
+  return diffs
+}
+
+/**
+ * Render a diff for review, one line per changed label
+ */
+export function formatGasDiffs(diffs: GasDiff[]): string {
+  return diffs
+    .map(({ label, baseline, current, delta, exceedsTolerance }) => {
+      const marker = exceedsTolerance ? '!' : ' '
+      if (baseline === undefined) {
+        return `${marker} ${label}: added (gas: ${current})`
+      }
+      if (current === undefined) {
+        return `${marker} ${label}: removed (gas: ${baseline})`
+      }
+      const percent = ((delta / baseline) * 100).toFixed(2)
+      return `${marker} ${label}: ${baseline} -> ${current} (${
+        delta > 0 ? '+' : ''
+      }${delta}, ${delta > 0 ? '+' : ''}${percent}%)`
+    })
+    .join('\n')
+}
+
+/**
+ * Records the gas used by labeled transactions in a test suite
+ *
+ * ```ts
+ *  const gas = new GasRecorder('AutomationRegistry2_3', { relative: 0.01 })
+ *  after(() => gas.finish())
+ *
+ *  await gas.record('transmit(upkeeps=1)', registry.transmit(...))
+ * ```
+ */
+export class GasRecorder {
+  readonly path: string
+  private readonly recorded: GasSnapshot = {}
+
+  /**
+   * @param name The name of the snapshot, ex. the suite's contract
+   * @param tolerance How far a label may move before `finish` fails
+   * @param dir The directory snapshots are kept in
+   */
+  constructor(
+    name: string,
+    private readonly tolerance: GasTolerance = {},
+    dir = 'gas-snapshots/hardhat',
+  ) {
+    this.path = path.join(dir, `${name}.gas-snapshot`)
+  }
+
+  /**
+   * Record the gas used by a transaction. Recording a label again replaces
+   * the earlier value.
+   *
+   * @param label The label of the transaction, ex. "transmit(upkeeps=5)"
+   * @param tx The transaction, its receipt, or a promise of either
+   * @returns The receipt of the transaction
+   */
+  async record(
+    label: string,
+    tx:
+      | ContractReceipt
+      | { wait(): Promise<ContractReceipt> }
+      | Promise<ContractReceipt | { wait(): Promise<ContractReceipt> }>,
+  ): Promise<ContractReceipt> {
+    const resolved = await tx
+    const receipt = 'wait' in resolved ? await resolved.wait() : resolved
+    this.recorded[label] = receipt.gasUsed.toNumber()
+    return receipt
+  }
+
+  get snapshot(): GasSnapshot {
+    return { ...this.recorded }
+  }
+
+  /**
+   * Check or update the snapshot, depending on GAS_SNAPSHOT
+   *
+   * @returns The differences from the committed snapshot, empty if it isn't
+   * being checked
+   */
+  finish(): GasDiff[] {
+    const mode = process.env.GAS_SNAPSHOT
+    if (mode === 'update') {
+      fs.mkdirSync(path.dirname(this.path), { recursive: true })
+      fs.writeFileSync(this.path, formatGasSnapshot(this.recorded))
+      return []
+    }
+    if (mode !== 'check') {
+      return []
+    }
+    assert.isTrue(
+      fs.existsSync(this.path),
+      `${this.path} does not exist, create it with GAS_SNAPSHOT=update`,
+    )
+    const diffs = diffGasSnapshots(
+      parseGasSnapshot(fs.readFileSync(this.path).toString()),
+      this.recorded,
+      this.tolerance,
+    )
+    // the failure lists every change, the ones beyond the tolerance marked with "!"
+    assert.isEmpty(
+      diffs.filter((diff) => diff.exceedsTolerance),
+      `gas changed beyond the tolerance, update ${this.path} with GAS_SNAPSHOT=update if expected:\n${formatGasDiffs(
+        diffs,
+      )}`,
+    )
+    return diffs
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains a table of gas measurements, with an operation per row
+ * and a variant per column (ex. a registry version), which renders as Markdown
+ * for review or as CSV for spreadsheets. Cells which weren't measured, ex. an
+ * operation a version doesn't support, render as "n/a".
+ */
+import fs from 'fs'
+import path from 'path'
+import { BigNumber } from 'ethers'
+
+const notApplicable = 'n/a'
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export class GasTable {
+  private readonly rows: string[]
+  private readonly cells = new Map<string, number>()
+
+  /**
+   * @param title The heading of the row labels, ex. "operation"
+   * @param columns The variants measured, in the order they're rendered
+   * @param rows The operations measured, in the order they're rendered. Rows
+   * which aren't listed are added after them, in the order they're first set.
+   */
+  constructor(
+    readonly title: string,
+    readonly columns: string[],
+    rows: string[] = [],
+  ) {
+    this.rows = [...rows]
+  }
+
+  /**
+   * Record the gas used by an operation
+   *
+   * @param row The operation
+   * @param column The variant, one of the table's columns
+   * @param gas The gas used, ex. a receipt's gasUsed
+   */
+  set(row: string, column: string, gas: number | BigNumber): void {
+    if (!this.columns.includes(column)) {
+      throw Error(`unknown gas table column ${column}`)
+    }
+    if (!this.rows.includes(row)) {
+      this.rows.push(row)
+    }
+    this.cells.set(
+      JSON.stringify([row, column]),
+      BigNumber.from(gas).toNumber(),
+    )
+  }
+
+  get(row: string, column: string): number | undefined {
+    return this.cells.get(JSON.stringify([row, column]))
+  }
+
+  private cellValues(): string[][] {
+    return this.rows.map((row) => [
+      row,
+      ...this.columns.map((column) => {
+        const gas = this.get(row, column)
+        return gas === undefined ? notApplicable : gas.toString()
+      }),
+    ])
+  }
+
+  toMarkdown(): string {
+    const lines = [
+      `| ${[this.title, ...this.columns].join(' | ')} |`,
+      `| --- | ${this.columns.map(() => '---:').join(' | ')} |`,
+      ...this.cellValues().map((cells) => `| ${cells.join(' | ')} |`),
+    ]
+    return lines.join('\n') + '\n'
+  }
+
+  toCSV(): string {
+    return [[this.title, ...this.columns], ...this.cellValues()]
+      .map((cells) => cells.map(csvCell).join(','))
+      .join('\n')
+      .concat('\n')
+  }
+
+  /**
+   * Write the table to a file, as CSV if the file ends in .csv and as Markdown
+   * otherwise
+   *
+   * @param file The path to write to
+   */
+  write(file: string): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(
+      file,
+      path.extname(file).toLowerCase() === '.csv'
+        ? this.toCSV()
+        : this.toMarkdown(),
+    )
+  }
+}
@@ -179,6 +179,7 @@ export async function increaseTime5Minutes(
 /**
  * Increase the current time within the evm to "n" seconds past the current time
  *
+ * @deprecated use clock.advance() from clock.ts, which also mines the block
  * @param seconds The number of seconds to increase to the current time by
  * @param provider The ethers provider to send the time increase request to
  */
@@ -192,6 +193,7 @@ export async function increaseTimeBy(
 /**
  * Instruct the provider to mine an additional block
  *
+ * @deprecated use clock.mine() from clock.ts
  * @param provider The ethers provider to instruct to mine an additional block
  */
 export async function mineBlock(provider: providers.JsonRpcProvider) {
@@ -308,6 +310,12 @@ export async function assertSubscriptionBalance(
   )
 }
 
+/**
+ * Mine a block at the given time
+ *
+ * @deprecated use clock.setTime() from clock.ts
+ * @param timestamp The unix timestamp (in seconds) of the block
+ */
 export async function setTimestamp(timestamp: number) {
   await network.provider.request({
     method: 'evm_setNextBlockTimestamp',
@@ -319,6 +327,13 @@ export async function setTimestamp(timestamp: number) {
   })
 }
 
+/**
+ * Increase the time offset of the evm and mine a block. Unlike
+ * clock.advance(), the block also includes the time the test took to run.
+ *
+ * @deprecated use clock.advance() from clock.ts
+ * @param duration The number of seconds to increase the offset by
+ */
 export async function fastForward(duration: number) {
   await network.provider.request({
     method: 'evm_increaseTime',
@@ -330,6 +345,11 @@ export async function fastForward(duration: number) {
   })
 }
 
+/**
+ * Reset the network to its initial state
+ *
+ * @deprecated use clock.reset() from clock.ts, which also discards its snapshots
+ */
 export async function reset() {
   await network.provider.request({
     method: 'hardhat_reset',
@@ -58,7 +58,8 @@ export async function evmRevertCustomError(
 }
 
 /**
- * Assert that an event doesnt exist
+ * Assert that the gas used by one transaction is less than a maximum above
+ * the gas used by another
  *
  * @param max The maximum allowable gas difference
  * @param receipt1 The contract receipt to compare to
@@ -69,8 +70,12 @@ export function gasDiffLessThan(
   receipt1: ContractReceipt,
   receipt2: ContractReceipt,
 ) {
-  assert(receipt1, 'receipt1 is not present for gas comparison')
-  assert(receipt2, 'receipt2 is not present for gas comparison')
-  const diff = receipt2.gasUsed?.sub(receipt1.gasUsed || 0)
-  assert.isAbove(max, diff?.toNumber() || Infinity)
+  assert(receipt1?.gasUsed, 'receipt1 is not present for gas comparison')
+  assert(receipt2?.gasUsed, 'receipt2 is not present for gas comparison')
+  const diff = receipt2.gasUsed.sub(receipt1.gasUsed)
+  assert.isAbove(
+    max,
+    diff.toNumber(),
+    `gas difference ${diff.toString()} is not less than ${max}`,
+  )
 }
@@ -0,0 +1,337 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains a local stand-in for a plugin node, which drives the
+ * request lifecycle of an `Operator.sol` contract: it picks up `OracleRequest`
+ * events, runs a job handler for the requested spec ID, and fulfills the
+ * request with `fulfillOracleRequest2` through an `AuthorizedForwarder.sol`.
+ * Requests which are not fulfilled are tracked until they expire, so that
+ * consumers can exercise `cancelOracleRequest`.
+ */
+import { Contract, ContractReceipt, providers, Signer } from 'ethers'
+import { makeDebug } from './debug'
+import {
+  CallbackFragment,
+  convertCallbackFulfill2Params,
+  convertCancelParams,
+  convertFulfill2Params,
+  decodeRunRequest,
+  RunRequest,
+} from './oracle'
+import { decodePluginRequest, PluginRequestParams } from './pluginRequest'
+const debug = makeDebug('operatorNode')
+
+/**
+ * The values a job responds with, along with either their ABI types or the
+ * consumer's callback function to encode them for. The request ID is
+ * prepended to the response, as `fulfillOracleRequest2` requires.
+ */
+export type JobResponse =
+  | { types: string[]; values: string[] }
+  | { callback: CallbackFragment; values: ReadonlyArray<unknown> }
+
+/**
+ * Computes the response to a run request. Returning undefined leaves the
+ * request unfulfilled, ex. to let it expire.
+ */
+export type JobHandler = (
+  request: RunRequest,
+  params: PluginRequestParams,
+) => Promise<JobResponse | undefined> | JobResponse | undefined
+
+export type RequestStatus =
+  | 'pending'
+  | 'fulfilled'
+  | 'cancelled'
+  | 'errored'
+  | 'unhandled'
+
+/**
+ * A run request seen by the node, and what has happened to it since
+ */
+export interface TrackedRequest {
+  request: RunRequest
+  status: RequestStatus
+  /**
+   * The block the request was made in
+   */
+  blockNumber: number
+  /**
+   * The receipt of the forwarded fulfillment, if the node fulfilled the request
+   */
+  receipt?: ContractReceipt
+  /**
+   * The error thrown by the job handler or the fulfillment, if any
+   */
+  error?: Error
+}
+
+export interface MockPluginNodeOptions {
+  /**
+   * The operator contract to watch for requests
+   */
+  operator: Contract
+  /**
+   * The forwarder to fulfill through, which must be an authorized sender on
+   * the operator, see authorizeForwarder
+   */
+  forwarder: Contract
+  /**
+   * The node's transmitter, which must be an authorized sender on the forwarder
+   */
+  transmitter: Signer
+  /**
+   * The block to start watching from, defaults to the latest block
+   */
+  fromBlock?: number
+}
+
+/**
+ * Authorize a node's transmitter to forward fulfillments to an operator
+ *
+ * @param operator The operator, connected as its owner
+ * @param forwarder The forwarder, connected as its owner
+ * @param transmitter The address of the node's transmitter
+ */
+export async function authorizeForwarder(
+  operator: Contract,
+  forwarder: Contract,
+  transmitter: string,
+): Promise<void> {
+  await (await forwarder.setAuthorizedSenders([transmitter])).wait()
+  await (await operator.setAuthorizedSenders([forwarder.address])).wait()
+}
+
+/**
+ * A mock plugin node, which fulfills the requests made to an operator with
+ * the job handlers registered for their spec IDs. Call `poll` to process the
+ * requests made since the last poll, or `start` to poll in the background.
+ */
+export class MockPluginNode {
+  private readonly operator: Contract
+  private readonly forwarder: Contract
+  private readonly transmitter: Signer
+  private readonly provider: providers.Provider
+  private readonly jobs = new Map<string, JobHandler>()
+  private readonly requests = new Map<string, TrackedRequest>()
+  private nextBlock?: number
+  private timer?: NodeJS.Timeout
+  private polling?: Promise<TrackedRequest[]>
+
+  constructor(options: MockPluginNodeOptions) {
+    if (!options.transmitter.provider) {
+      throw Error('transmitter must be connected to a provider')
+    }
+    this.operator = options.operator
+    this.forwarder = options.forwarder
+    this.transmitter = options.transmitter
+    this.provider = options.transmitter.provider
+    this.nextBlock = options.fromBlock
+  }
+
+  /**
+   * Register the handler that computes responses for a job
+   *
+   * @param specId The spec ID of the job, as requested by consumers
+   * @param handler The handler to run for each request
+   */
+  addJob(specId: string, handler: JobHandler): this {
+    this.jobs.set(specId.toLowerCase(), handler)
+    return this
+  }
+
+  /**
+   * Process the operator's events since the last poll: run and fulfill new
+   * requests, and update the status of requests which were fulfilled or
+   * cancelled by someone else. Concurrent calls share the same poll.
+   *
+   * @returns The requests made since the last poll
+   */
+  poll(): Promise<TrackedRequest[]> {
+    if (!this.polling) {
+      this.polling = this.processEvents().finally(() => {
+        this.polling = undefined
+      })
+    }
+    return this.polling
+  }
+
+  /**
+   * Poll in the background until `stop` is called
+   *
+   * @param intervalMs The time between polls
+   */
+  start(intervalMs = 250): void {
+    if (this.timer) {
+      return
+    }
+    this.timer = setInterval(() => {
+      this.poll().catch((e) => debug('poll failed: %o', e))
+    }, intervalMs)
+  }
+
+  /**
+   * Stop polling in the background, and wait for an ongoing poll to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+    await this.polling?.catch(() => undefined)
+  }
+
+  /**
+   * Get a request the node has seen
+   *
+   * @param requestId The ID of the request
+   */
+  getRequest(requestId: string): TrackedRequest {
+    const tracked = this.requests.get(requestId.toLowerCase())
+    if (!tracked) {
+      throw Error(`unknown request ${requestId}`)
+    }
+    return tracked
+  }
+
+  /**
+   * Get all the requests the node has seen with the given status
+   *
+   * @param status The status to filter by, all requests are returned if omitted
+   */
+  getRequests(status?: RequestStatus): TrackedRequest[] {
+    return [...this.requests.values()].filter(
+      (tracked) => !status || tracked.status === status,
+    )
+  }
+
+  /**
+   * Get the unfulfilled requests whose expiration has passed as of the latest
+   * block, which their requesters are allowed to cancel
+   */
+  async expiredRequests(): Promise<TrackedRequest[]> {
+    const { timestamp } = await this.provider.getBlock('latest')
+    return this.getRequests().filter(
+      (tracked) =>
+        tracked.status !== 'fulfilled' &&
+        tracked.status !== 'cancelled' &&
+        Number(tracked.request.expiration) <= timestamp,
+    )
+  }
+
+  /**
+   * Get the parameters the requester must pass to `cancelOracleRequest` to
+   * cancel a request
+   *
+   * @param requestId The ID of the request
+   */
+  cancelParams(requestId: string): [string, string, string, string] {
+    const [id, payment, callbackFunc, expiration] = convertCancelParams(
+      this.getRequest(requestId).request,
+    )
+    return [id, payment, callbackFunc, expiration]
+  }
+
+  private async processEvents(): Promise<TrackedRequest[]> {
+    const latest = await this.provider.getBlockNumber()
+    const fromBlock = this.nextBlock ?? latest
+    if (fromBlock > latest) {
+      return []
+    }
+    const logs = await this.provider.getLogs({
+      address: this.operator.address,
+      fromBlock,
+      toBlock: latest,
+    })
+    this.nextBlock = latest + 1
+
+    const created: TrackedRequest[] = []
+    for (const log of logs) {
+      const tracked = this.trackEvent(log)
+      if (tracked) {
+        created.push(tracked)
+      }
+    }
+    for (const tracked of created) {
+      if (tracked.status === 'pending') {
+        await this.runJob(tracked)
+      }
+    }
+    return created
+  }
+
+  private trackEvent(log: providers.Log): TrackedRequest | undefined {
+    const event = this.operator.interface.parseLog(log)
+    switch (event.name) {
+      case 'OracleRequest': {
+        const request = decodeRunRequest(log)
+        const tracked: TrackedRequest = {
+          request,
+          status: 'pending',
+          blockNumber: log.blockNumber,
+        }
+        this.requests.set(request.requestId.toLowerCase(), tracked)
+        return tracked
+      }
+      case 'OracleResponse':
+        this.updateStatus(event.args.requestId, 'fulfilled')
+        return undefined
+      case 'CancelOracleRequest':
+        this.updateStatus(event.args.requestId, 'cancelled')
+        return undefined
+      default:
+        return undefined
+    }
+  }
+
+  private updateStatus(requestId: string, status: RequestStatus) {
+    const tracked = this.requests.get(requestId.toLowerCase())
+    if (tracked) {
+      tracked.status = status
+    }
+  }
+
+  private async runJob(tracked: TrackedRequest) {
+    const { request } = tracked
+    const d = debug.extend('runJob')
+    const handler = this.jobs.get(request.specId.toLowerCase())
+    if (!handler) {
+      d(
+        'no job for spec %s, ignoring request %s',
+        request.specId,
+        request.requestId,
+      )
+      tracked.status = 'unhandled'
+      return
+    }
+    try {
+      const response = await handler(request, decodePluginRequest(request.data))
+      if (!response) {
+        d('job declined request %s', request.requestId)
+        return
+      }
+      const [requestId, payment, callbackAddr, callbackFunc, expiration, data] =
+        'callback' in response
+          ? convertCallbackFulfill2Params(
+              request,
+              response.callback,
+              response.values,
+            )
+          : convertFulfill2Params(request, response.types, response.values)
+      const fulfillData = this.operator.interface.encodeFunctionData(
+        'fulfillOracleRequest2',
+        [requestId, payment, callbackAddr, callbackFunc, expiration, data],
+      )
+      const tx = await this.forwarder
+        .connect(this.transmitter)
+        .forward(this.operator.address, fulfillData)
+      tracked.receipt = await tx.wait()
+      tracked.status = 'fulfilled'
+      d('fulfilled request %s', request.requestId)
+    } catch (e) {
+      tracked.error = e instanceof Error ? e : Error(String(e))
+      tracked.status = 'errored'
+      d('failed to fulfill request %s: %s', request.requestId, tracked.error)
+    }
+  }
+}
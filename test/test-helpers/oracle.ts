@@ -186,6 +186,94 @@ export function convertFulfill2Params(
   ]
 }
 
+/**
+ * A consumer's fulfillment callback, either as a function fragment (ex. from
+ * a typechain contract's `interface.getFunction`) or as its signature
+ */
+export type CallbackFragment = ethers.utils.FunctionFragment | string
+
+/**
+ * Check that a run request will call back the given function, and that the
+ * function can receive a multi-word response, ie. that its first argument is
+ * the `bytes32` request ID.
+ *
+ * @param runRequest The run request to check the callback selector of
+ * @param callback The callback function the response is encoded for
+ */
+export function validateCallback(
+  runRequest: RunRequest,
+  callback: CallbackFragment,
+): ethers.utils.FunctionFragment {
+  const fragment = ethers.utils.FunctionFragment.from(callback)
+  const signature = fragment.format()
+  const [firstInput] = fragment.inputs
+  if (!firstInput || firstInput.type !== 'bytes32') {
+    throw Error(
+      `Callback ${signature} must take the bytes32 request ID as its first argument`,
+    )
+  }
+  const selector = ethers.utils.Interface.getSighash(fragment)
+  if (selector !== runRequest.callbackFunc.toLowerCase()) {
+    throw Error(
+      `Callback ${signature} has selector ${selector}, but request ${runRequest.requestId} calls back ${runRequest.callbackFunc}`,
+    )
+  }
+  return fragment
+}
+
+/**
+ * ABI encode a multi-word response for a consumer's callback, with the
+ * request ID as the first word as `Operator.sol#fulfillOracleRequest2` requires.
+ *
+ * @param runRequest The run request to respond to
+ * @param callback The callback function the response is encoded for
+ * @param values The values of the callback's arguments, excluding the request ID
+ */
+export function encodeMultiWordResponse(
+  runRequest: RunRequest,
+  callback: CallbackFragment,
+  values: ReadonlyArray<unknown>,
+): string {
+  const fragment = validateCallback(runRequest, callback)
+  const inputs = fragment.inputs.slice(1)
+  if (values.length !== inputs.length) {
+    throw Error(
+      `Callback ${fragment.format()} expects ${inputs.length} response values, but got ${values.length}`,
+    )
+  }
+  return ethers.utils.defaultAbiCoder.encode(fragment.inputs, [
+    runRequest.requestId,
+    ...values,
+  ])
+}
+
+/**
+ * Convert the javascript format of the parameters needed to call the
+ * `fulfillOracleRequest2` method on an Operator.sol contract, encoding the
+ * response for the consumer's callback function.
+ *
+ * @param runRequest The run request to flatten into the correct order to perform the `fulfillOracleRequest2` function
+ * @param callback The callback function the response is encoded for
+ * @param values The values of the callback's arguments, excluding the request ID
+ * @param txOpts Additional ethereum tx options
+ */
+export function convertCallbackFulfill2Params(
+  runRequest: RunRequest,
+  callback: CallbackFragment,
+  values: ReadonlyArray<unknown>,
+  txOpts: TxOptions = {},
+): [string, string, string, string, string, string, TxOptions] {
+  return [
+    runRequest.requestId,
+    runRequest.payment,
+    runRequest.callbackAddr,
+    runRequest.callbackFunc,
+    runRequest.expiration,
+    encodeMultiWordResponse(runRequest, callback, values),
+    txOpts,
+  ]
+}
+
 /**
  * Convert the javascript format of the parameters needed to call the
  * ```solidity
@@ -0,0 +1,435 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains an off-chain implementation of the request buffer built by
+ * `Plugin.sol` (and sent by `PluginClient.sol` as the `data` of an `oracleRequest` /
+ * `operatorRequest`), and a strict decoder for such buffers. Requests are
+ * encoded as "diet CBOR": a sequence of key / value pairs without the
+ * surrounding map delimiters, which the node adds back before decoding.
+ */
+import { BigNumber, BigNumberish, BytesLike, constants, utils } from 'ethers'
+
+const MAJOR_TYPE_INT = 0
+const MAJOR_TYPE_NEGATIVE_INT = 1
+const MAJOR_TYPE_BYTES = 2
+const MAJOR_TYPE_STRING = 3
+const MAJOR_TYPE_ARRAY = 4
+const MAJOR_TYPE_MAP = 5
+const MAJOR_TYPE_TAG = 6
+const MAJOR_TYPE_CONTENT_FREE = 7
+
+const TAG_TYPE_BIGNUM = 2
+const TAG_TYPE_NEGATIVE_BIGNUM = 3
+
+const INDEFINITE_LENGTH = 31
+const BREAK = 0xff
+
+const MAX_UINT64 = BigNumber.from('0xffffffffffffffff')
+// -2^64, the smallest integer CBOR encodes without a bignum: a negative
+// integer (major type 1) is encoded as the uint64 n of -1 - n
+const MIN_NEGATIVE_INT = BigNumber.from('-0x10000000000000000')
+
+/**
+ * A decoded request value. Integers (including bignums) are decoded as
+ * BigNumbers, byte strings as Uint8Arrays and floats as numbers.
+ */
+export type PluginRequestValue =
+  | string
+  | Uint8Array
+  | BigNumber
+  | number
+  | boolean
+  | null
+  | PluginRequestValue[]
+  | PluginRequestParams
+
+/**
+ * The decoded parameters of a request, keyed by name in the order they were added
+ */
+export type PluginRequestParams = { [key: string]: PluginRequestValue }
+
+/**
+ * Builds request buffers which are byte-identical to the ones built on-chain
+ * with the `Plugin.Request` library, ex.
+ * ```ts
+ *  const data = new PluginRequestBuilder()
+ *    .add('get', 'https://example.com/price')
+ *    .add('path', 'USD')
+ *    .addInt('times', 100)
+ *    .build()
+ * ```
+ */
+export class PluginRequestBuilder {
+  private chunks: Uint8Array[] = []
+
+  /**
+   * Replaces the contents of the buffer with raw data, like `Plugin._setBuffer`
+   *
+   * @param data The (CBOR encoded) data to use as the buffer
+   */
+  setBuffer(data: BytesLike): this {
+    this.chunks = [utils.arrayify(data)]
+    return this
+  }
+
+  /**
+   * Adds a string value, like `Plugin._add`
+   *
+   * @param key The name of the key
+   * @param value The string value to add
+   */
+  add(key: string, value: string): this {
+    this.encodeString(key)
+    this.encodeString(value)
+    return this
+  }
+
+  /**
+   * Adds a bytes value, like `Plugin._addBytes`
+   *
+   * @param key The name of the key
+   * @param value The bytes value to add
+   */
+  addBytes(key: string, value: BytesLike): this {
+    this.encodeString(key)
+    this.encodeBytes(utils.arrayify(value))
+    return this
+  }
+
+  /**
+   * Adds an int256 value, like `Plugin._addInt`
+   *
+   * @param key The name of the key
+   * @param value The int256 value to add
+   */
+  addInt(key: string, value: BigNumberish): this {
+    const bn = BigNumber.from(value)
+    if (bn.lt(constants.MinInt256) || bn.gt(constants.MaxInt256)) {
+      throw Error(`addInt: ${bn.toString()} is out of the int256 range`)
+    }
+    this.encodeString(key)
+    if (bn.lt(MIN_NEGATIVE_INT)) {
+      this.encodeBigNum(TAG_TYPE_NEGATIVE_BIGNUM, bn.mul(-1).sub(1))
+    } else if (bn.gt(MAX_UINT64)) {
+      this.encodeBigNum(TAG_TYPE_BIGNUM, bn)
+    } else if (bn.gte(0)) {
+      this.encodeFixedNumeric(MAJOR_TYPE_INT, bn)
+    } else {
+      this.encodeFixedNumeric(MAJOR_TYPE_NEGATIVE_INT, bn.mul(-1).sub(1))
+    }
+    return this
+  }
+
+  /**
+   * Adds a uint256 value, like `Plugin._addUint`
+   *
+   * @param key The name of the key
+   * @param value The uint256 value to add
+   */
+  addUint(key: string, value: BigNumberish): this {
+    const bn = BigNumber.from(value)
+    if (bn.lt(0) || bn.gt(constants.MaxUint256)) {
+      throw Error(`addUint: ${bn.toString()} is out of the uint256 range`)
+    }
+    this.encodeString(key)
+    if (bn.gt(MAX_UINT64)) {
+      this.encodeBigNum(TAG_TYPE_BIGNUM, bn)
+    } else {
+      this.encodeFixedNumeric(MAJOR_TYPE_INT, bn)
+    }
+    return this
+  }
+
+  /**
+   * Adds an array of strings, like `Plugin._addStringArray`
+   *
+   * @param key The name of the key
+   * @param values The array of string values to add
+   */
+  addStringArray(key: string, values: string[]): this {
+    this.encodeString(key)
+    this.push([(MAJOR_TYPE_ARRAY << 5) | INDEFINITE_LENGTH])
+    for (const value of values) {
+      this.encodeString(value)
+    }
+    this.push([BREAK])
+    return this
+  }
+
+  /**
+   * Returns the buffer as a hex string, as it would be sent in the `data`
+   * field of an `oracleRequest` / `operatorRequest`
+   */
+  build(): string {
+    return utils.hexlify(utils.concat(this.chunks))
+  }
+
+  private push(bytes: ArrayLike<number>) {
+    this.chunks.push(Uint8Array.from(bytes))
+  }
+
+  private encodeFixedNumeric(major: number, value: BigNumber) {
+    if (value.lte(23)) {
+      this.push([(major << 5) | value.toNumber()])
+      return
+    }
+    const [additionalInfo, length] = value.lte(0xff)
+      ? [24, 1]
+      : value.lte(0xffff)
+        ? [25, 2]
+        : value.lte(0xffffffff)
+          ? [26, 4]
+          : [27, 8]
+    this.push([(major << 5) | additionalInfo])
+    this.push(utils.zeroPad(value.toHexString(), length))
+  }
+
+  private encodeBytes(value: Uint8Array) {
+    this.encodeFixedNumeric(MAJOR_TYPE_BYTES, BigNumber.from(value.length))
+    this.push(value)
+  }
+
+  private encodeString(value: string) {
+    const bytes = utils.toUtf8Bytes(value)
+    this.encodeFixedNumeric(MAJOR_TYPE_STRING, BigNumber.from(bytes.length))
+    this.push(bytes)
+  }
+
+  private encodeBigNum(tag: number, value: BigNumber) {
+    this.push([(MAJOR_TYPE_TAG << 5) | tag])
+    this.encodeBytes(
+      utils.arrayify(utils.defaultAbiCoder.encode(['uint256'], [value])),
+    )
+  }
+}
+
+// reads CBOR data items, following the decoding rules of decodePluginRequest
+class CBORReader {
+  offset = 0
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  done(): boolean {
+    return this.offset >= this.bytes.length
+  }
+
+  peek(): number {
+    if (this.done()) {
+      throw Error(
+        `InvalidRequest: unexpected end of data at offset ${this.offset}`,
+      )
+    }
+    return this.bytes[this.offset]
+  }
+
+  readItem(): PluginRequestValue {
+    const start = this.offset
+    const initialByte = this.take(1)[0]
+    const major = initialByte >> 5
+    const additionalInfo = initialByte & 0x1f
+
+    if (major === MAJOR_TYPE_CONTENT_FREE) {
+      return this.readContentFree(additionalInfo, start)
+    }
+    if (additionalInfo === INDEFINITE_LENGTH) {
+      if (major === MAJOR_TYPE_ARRAY) {
+        const items: PluginRequestValue[] = []
+        while (!this.readBreak()) {
+          items.push(this.readItem())
+        }
+        return items
+      }
+      if (major === MAJOR_TYPE_MAP) {
+        return this.readMapEntries(() => this.readBreak())
+      }
+      throw Error(
+        `InvalidRequest: unsupported indefinite length item of major type ${major} at offset ${start}`,
+      )
+    }
+
+    const argument = this.readArgument(additionalInfo, start)
+    switch (major) {
+      case MAJOR_TYPE_INT:
+        return argument
+      case MAJOR_TYPE_NEGATIVE_INT:
+        return argument.mul(-1).sub(1)
+      case MAJOR_TYPE_BYTES:
+        return this.take(this.toLength(argument))
+      case MAJOR_TYPE_STRING:
+        return this.readText(this.toLength(argument), start)
+      case MAJOR_TYPE_ARRAY: {
+        const length = this.toLength(argument)
+        const items: PluginRequestValue[] = []
+        for (let idx = 0; idx < length; idx++) {
+          items.push(this.readItem())
+        }
+        return items
+      }
+      case MAJOR_TYPE_MAP: {
+        let remaining = this.toLength(argument)
+        return this.readMapEntries(() => remaining-- === 0)
+      }
+      default:
+        return this.readTag(argument, start)
+    }
+  }
+
+  readMapEntries(isEnd: () => boolean): PluginRequestParams {
+    const params: PluginRequestParams = {}
+    while (!isEnd()) {
+      const start = this.offset
+      const key = this.readItem()
+      if (typeof key !== 'string') {
+        throw Error(
+          `InvalidRequest: key at offset ${start} is not a text string`,
+        )
+      }
+      if (Object.prototype.hasOwnProperty.call(params, key)) {
+        throw Error(`InvalidRequest: duplicate key "${key}" at offset ${start}`)
+      }
+      if (this.done()) {
+        throw Error(`InvalidRequest: key "${key}" has no value`)
+      }
+      params[key] = this.readItem()
+    }
+    return params
+  }
+
+  private readBreak(): boolean {
+    if (this.peek() === BREAK) {
+      this.offset++
+      return true
+    }
+    return false
+  }
+
+  private readTag(tag: BigNumber, start: number): BigNumber {
+    if (!tag.eq(TAG_TYPE_BIGNUM) && !tag.eq(TAG_TYPE_NEGATIVE_BIGNUM)) {
+      throw Error(
+        `InvalidRequest: unsupported tag ${tag.toString()} at offset ${start}`,
+      )
+    }
+    const initialByte = this.peek()
+    if (initialByte >> 5 !== MAJOR_TYPE_BYTES) {
+      throw Error(
+        `InvalidRequest: bignum at offset ${start} does not contain a byte string`,
+      )
+    }
+    const value = this.readItem() as Uint8Array
+    const magnitude = BigNumber.from(value.length ? utils.hexlify(value) : 0)
+    return tag.eq(TAG_TYPE_BIGNUM) ? magnitude : magnitude.mul(-1).sub(1)
+  }
+
+  private readContentFree(
+    additionalInfo: number,
+    start: number,
+  ): number | boolean | null {
+    switch (additionalInfo) {
+      case 20:
+        return false
+      case 21:
+        return true
+      case 22:
+      case 23:
+        return null
+      case 25:
+        return decodeHalfFloat(this.take(2))
+      case 26:
+        return new DataView(this.take(4).buffer).getFloat32(0)
+      case 27:
+        return new DataView(this.take(8).buffer).getFloat64(0)
+      case INDEFINITE_LENGTH:
+        throw Error(`InvalidRequest: unexpected break at offset ${start}`)
+      default:
+        throw Error(
+          `InvalidRequest: unsupported simple value ${additionalInfo} at offset ${start}`,
+        )
+    }
+  }
+
+  private readArgument(additionalInfo: number, start: number): BigNumber {
+    if (additionalInfo <= 23) {
+      return BigNumber.from(additionalInfo)
+    }
+    if (additionalInfo > 27) {
+      throw Error(
+        `InvalidRequest: reserved additional information ${additionalInfo} at offset ${start}`,
+      )
+    }
+    const length = 1 << (additionalInfo - 24)
+    return BigNumber.from(utils.hexlify(this.take(length)))
+  }
+
+  private readText(length: number, start: number): string {
+    try {
+      return utils.toUtf8String(this.take(length))
+    } catch {
+      throw Error(
+        `InvalidRequest: text string at offset ${start} is not valid UTF-8`,
+      )
+    }
+  }
+
+  private toLength(argument: BigNumber): number {
+    if (argument.gt(this.bytes.length - this.offset)) {
+      throw Error(
+        `InvalidRequest: length ${argument.toString()} at offset ${this.offset} exceeds the remaining data`,
+      )
+    }
+    return argument.toNumber()
+  }
+
+  private take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw Error(
+        `InvalidRequest: unexpected end of data at offset ${this.offset}`,
+      )
+    }
+    const bytes = this.bytes.slice(this.offset, this.offset + length)
+    this.offset += length
+    return bytes
+  }
+}
+
+/**
+ * Decode a request buffer into its parameters. The buffer can either be diet
+ * CBOR (as built by `Plugin.sol`) or a complete CBOR map (as can be set with
+ * `Plugin._setBuffer`).
+ *
+ * The decoder is strict, and throws on anything the node would fail to parse
+ * or that it would interpret ambiguously: truncated or malformed items,
+ * trailing data, keys which are not text strings, duplicate keys, invalid
+ * UTF-8, and tags other than (negative) bignums.
+ *
+ * @param data The request buffer to decode
+ */
+export function decodePluginRequest(data: BytesLike): PluginRequestParams {
+  const reader = new CBORReader(utils.arrayify(data))
+  if (reader.done()) {
+    return {}
+  }
+  if (reader.peek() >> 5 === MAJOR_TYPE_MAP) {
+    const params = reader.readItem()
+    if (!reader.done()) {
+      throw Error(
+        `InvalidRequest: trailing data after the request map at offset ${reader.offset}`,
+      )
+    }
+    return params as PluginRequestParams
+  }
+  return reader.readMapEntries(() => reader.done())
+}
+
+function decodeHalfFloat(bytes: Uint8Array): number {
+  const half = (bytes[0] << 8) | bytes[1]
+  const exponent = (half >> 10) & 0x1f
+  const mantissa = half & 0x3ff
+  const sign = half & 0x8000 ? -1 : 1
+  if (exponent === 0) {
+    return sign * mantissa * 2 ** -24
+  }
+  if (exponent === 0x1f) {
+    return mantissa ? NaN : sign * Infinity
+  }
+  return sign * (mantissa + 1024) * 2 ** (exponent - 25)
+}
@@ -0,0 +1,186 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains a minimal property-based testing runner. Values are
+ * generated from a seeded random number generator so that failures can be
+ * reproduced, and failing values are shrunk to a minimal counterexample.
+ */
+
+/**
+ * A seeded pseudo random number generator (mulberry32)
+ */
+export class Random {
+  private state: number
+
+  constructor(seed: number) {
+    this.state = seed >>> 0
+  }
+
+  /**
+   * Returns a float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /**
+   * Returns an integer in [min, max] (inclusive)
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1))
+  }
+
+  /**
+   * Returns true with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  /**
+   * Returns a random element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)]
+  }
+}
+
+/**
+ * Describes how to generate random values of a type, and how to simplify them
+ */
+export interface Arbitrary<T> {
+  generate: (random: Random) => T
+  /**
+   * Yields "smaller" candidates for a value, simplest first
+   */
+  shrink: (value: T) => Iterable<T>
+  /**
+   * Formats a value for failure messages, defaults to JSON
+   */
+  show?: (value: T) => string
+}
+
+/**
+ * The seed used when none is configured, so that runs are reproducible by default
+ */
+export const DEFAULT_PROPERTY_SEED = 0x5eed
+
+export interface PropertyOptions {
+  runs: number
+  seed: number
+  /**
+   * The environment variable the seed can be overridden with, included in failure messages
+   */
+  seedVariable?: string
+  /**
+   * The maximum number of shrink candidates to evaluate
+   */
+  maxShrinks?: number
+}
+
+/**
+ * Read the number of runs and the seed for a property from the environment,
+ * falling back to the provided number of runs and {@link DEFAULT_PROPERTY_SEED}
+ *
+ * @param prefix The prefix of the environment variables, ex CRON_FUZZ reads CRON_FUZZ_RUNS and CRON_FUZZ_SEED
+ * @param defaultRuns The number of runs to use when none is configured
+ */
+export function propertyOptionsFromEnv(
+  prefix: string,
+  defaultRuns: number,
+): PropertyOptions {
+  const runs = process.env[`${prefix}_RUNS`]
+  const seedVariable = `${prefix}_SEED`
+  const seed = process.env[seedVariable]
+  return {
+    runs: runs ? parseInt(runs, 10) : defaultRuns,
+    seed: seed ? parseInt(seed, 10) : DEFAULT_PROPERTY_SEED,
+    seedVariable,
+  }
+}
+
+/**
+ * Check that a property holds for randomly generated values. If it doesn't,
+ * the failing value is shrunk and an error describing the minimal
+ * counterexample (and the seed to reproduce it) is thrown.
+ *
+ * @param arbitrary The generator for values to check
+ * @param property An assertion which throws (or rejects) if the property does not hold
+ * @param options The number of runs and the seed to generate values from
+ */
+export async function checkProperty<T>(
+  arbitrary: Arbitrary<T>,
+  property: (value: T) => Promise<void> | void,
+  options: PropertyOptions,
+): Promise<void> {
+  const show = arbitrary.show || ((value: T) => JSON.stringify(value))
+  const random = new Random(options.seed)
+  for (let run = 0; run < options.runs; run++) {
+    const value = arbitrary.generate(random)
+    const error = await failureOf(property, value)
+    if (!error) {
+      continue
+    }
+    const shrunk = await shrinkFailure(
+      arbitrary,
+      property,
+      value,
+      error,
+      options.maxShrinks ?? 1000,
+    )
+    const rerun = options.seedVariable
+      ? `, rerun with ${options.seedVariable}=${options.seed}`
+      : ''
+    throw Error(
+      `property failed after ${run + 1} runs (seed: ${options.seed}${rerun})\n` +
+        `  original: ${show(value)}\n` +
+        `  shrunk (${shrunk.steps} steps): ${show(shrunk.value)}\n` +
+        `  error: ${shrunk.error.message}`,
+    )
+  }
+}
+
+async function shrinkFailure<T>(
+  arbitrary: Arbitrary<T>,
+  property: (value: T) => Promise<void> | void,
+  value: T,
+  error: Error,
+  maxShrinks: number,
+): Promise<{ value: T; error: Error; steps: number }> {
+  let steps = 0
+  let attempts = 0
+  let improved = true
+  while (improved && attempts < maxShrinks) {
+    improved = false
+    for (const candidate of arbitrary.shrink(value)) {
+      if (attempts++ >= maxShrinks) {
+        break
+      }
+      const candidateError = await failureOf(property, candidate)
+      if (candidateError) {
+        value = candidate
+        error = candidateError
+        steps++
+        improved = true
+        break
+      }
+    }
+  }
+  return { value, error, steps }
+}
+
+async function failureOf<T>(
+  property: (value: T) => Promise<void> | void,
+  value: T,
+): Promise<Error | undefined> {
+  try {
+    await property(value)
+    return undefined
+  } catch (e) {
+    return e instanceof Error ? e : Error(String(e))
+  }
+}
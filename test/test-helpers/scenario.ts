@@ -0,0 +1,341 @@
+/**
+ * @packageDocumentation
+ *
+ * This file contains a builder for test fixtures, so suites can describe the
+ * contracts they need instead of deploying them into module-level variables
+ * in a beforeEach hook:
+ *
+ * ```ts
+ *  const setup = scenario()
+ *    .withPliToken()
+ *    .withOperator({ authorizedSenders: 3 })
+ *    .withConsumer('BasicConsumer', { pli: toWei('1') })
+ *
+ *  let s: ScenarioHandles<typeof setup>
+ *  beforeEach(async () => {
+ *    s = await setup.load()
+ *  })
+ *
+ *  it('requests data', async () => {
+ *    await s.basicConsumer.connect(s.roles.consumer).requestEthereumPrice(...)
+ *  })
+ * ```
+ *
+ * Every scenario is a Hardhat fixture, loaded with loadFixture, so its
+ * deployments only run the first time it's loaded in a test file and later
+ * loads revert to a snapshot. Scenarios extend the fixture of the scenario
+ * they were built from, so suites that share a prefix of steps share its
+ * snapshot too. Builders are immutable, so a common prefix can be kept in a
+ * variable and extended differently per describe block.
+ *
+ * The signers from setup.ts are always bound, as `roles`, `personas` and
+ * `contracts`.
+ */
+import { ethers } from 'hardhat'
+import { BigNumberish, Signer } from 'ethers'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { getUsers, Users } from './setup'
+import {
+  AuthorizedForwarder,
+  BasicConsumer,
+  GasGuzzlingConsumer,
+  MaliciousConsumer,
+  MaliciousMultiWordConsumer,
+  MaliciousRequester,
+  MultiWordConsumer,
+  Operator,
+  PliTokenTestHelper,
+} from '../../typechain'
+
+export const defaultSpecId =
+  '0x4c7b7ffb66b344fbaa64995af81e355a00000000000000000000000000000000'
+
+const zeroAddress = ethers.constants.AddressZero
+
+/**
+ * The consumers withConsumer() can deploy, and the contract each deploys
+ */
+export interface ScenarioConsumers {
+  BasicConsumer: BasicConsumer
+  MultiWordConsumer: MultiWordConsumer
+  GasGuzzlingConsumer: GasGuzzlingConsumer
+  MaliciousConsumer: MaliciousConsumer
+  MaliciousMultiWordConsumer: MaliciousMultiWordConsumer
+  MaliciousRequester: MaliciousRequester
+}
+
+export type ConsumerName = keyof ScenarioConsumers
+
+/**
+ * Whether each consumer's constructor takes a spec ID after the PLI token and
+ * operator addresses
+ */
+const consumerTakesSpecId: { [name in ConsumerName]: boolean } = {
+  BasicConsumer: true,
+  MultiWordConsumer: true,
+  GasGuzzlingConsumer: true,
+  MaliciousConsumer: false,
+  MaliciousMultiWordConsumer: false,
+  MaliciousRequester: false,
+}
+
+export type WithPliToken = { pli: PliTokenTestHelper }
+
+export type WithOperator = WithPliToken & {
+  operator: Operator
+  /**
+   * The signers authorized to fulfill requests on the operator
+   */
+  authorizedSenders: Signer[]
+}
+
+export interface OperatorOptions {
+  /**
+   * How many of the oracle node roles to authorize as senders, from
+   * roles.oracleNode onwards. Defaults to 1.
+   */
+  authorizedSenders?: number
+  /**
+   * The owner of the operator, roles.defaultAccount if omitted
+   */
+  owner?: keyof Users['roles']
+}
+
+export interface ConsumerOptions<K extends string> {
+  /**
+   * The name of the consumer's handle, its contract name starting with a
+   * lowercase letter if omitted
+   */
+  as?: K
+  /**
+   * The spec ID the consumer requests, for consumers which take one
+   */
+  specId?: string
+  /**
+   * The amount of PLI to fund the consumer with
+   */
+  pli?: BigNumberish
+}
+
+/**
+ * The handles a scenario's fixture resolves to
+ */
+export type ScenarioHandles<S> = S extends Scenario<infer T> ? T : never
+
+type Step<T, U> = {
+  key: string
+  run: (handles: T) => Promise<U>
+}
+
+const fixtures = new Map<string, () => Promise<unknown>>()
+const customStepIds = new WeakMap<object, number>()
+let customSteps = 0
+
+function customStepKey(name: string, deploy: object): string {
+  if (!customStepIds.has(deploy)) {
+    customStepIds.set(deploy, ++customSteps)
+  }
+  return `${name}#${customStepIds.get(deploy)}`
+}
+
+function uncapitalize(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1)
+}
+
+export class Scenario<T extends Users> {
+  private constructor(
+    readonly key: string,
+    private readonly fixture: () => Promise<T>,
+  ) {}
+
+  /**
+   * The scenario every builder starts from, which only binds the signers
+   */
+  static create(): Scenario<Users> {
+    return new Scenario<Users>('users', Scenario.cached('users', getUsers))
+  }
+
+  private static cached<T>(
+    key: string,
+    build: () => Promise<T>,
+  ): () => Promise<T> {
+    if (!fixtures.has(key)) {
+      // loadFixture caches by function and refuses anonymous ones
+      fixtures.set(key, async function scenarioFixture() {
+        return build()
+      })
+    }
+    return fixtures.get(key) as () => Promise<T>
+  }
+
+  private extend<U>(step: Step<T, U>): Scenario<T & U> {
+    const key = `${this.key}/${step.key}`
+    const parent = this.fixture
+    return new Scenario<T & U>(
+      key,
+      Scenario.cached(key, async () => {
+        const handles = await loadFixture(parent)
+        return { ...handles, ...(await step.run(handles)) }
+      }),
+    )
+  }
+
+  /**
+   * Deploy a PLI token, owned by roles.defaultAccount
+   */
+  withPliToken(): Scenario<T & WithPliToken> {
+    return this.extend({
+      key: 'pli',
+      run: async ({ roles }) => {
+        const factory = await ethers.getContractFactory(
+          'src/v0.8/shared/test/helpers/PliTokenTestHelper.sol:PliTokenTestHelper',
+          roles.defaultAccount,
+        )
+        return { pli: (await factory.deploy()) as PliTokenTestHelper }
+      },
+    })
+  }
+
+  /**
+   * Deploy an operator for the scenario's PLI token, with oracle nodes
+   * authorized to fulfill requests
+   */
+  withOperator(
+    this: Scenario<T & WithPliToken>,
+    options: OperatorOptions = {},
+  ): Scenario<T & WithOperator> {
+    const { authorizedSenders = 1, owner = 'defaultAccount' } = options
+    return this.extend({
+      key: `operator(${authorizedSenders},${owner})`,
+      run: async ({ roles, pli }) => {
+        const oracleNodes = [
+          roles.oracleNode,
+          roles.oracleNode1,
+          roles.oracleNode2,
+          roles.oracleNode3,
+          roles.oracleNode4,
+        ]
+        if (authorizedSenders > oracleNodes.length) {
+          throw Error(
+            `cannot authorize ${authorizedSenders} senders, there are only ${oracleNodes.length} oracle nodes`,
+          )
+        }
+        const factory = await ethers.getContractFactory(
+          'src/v0.8/operatorforwarder/Operator.sol:Operator',
+          roles[owner],
+        )
+        const operator = (await factory.deploy(
+          pli.address,
+          await roles[owner].getAddress(),
+        )) as Operator
+        const senders = oracleNodes.slice(0, authorizedSenders)
+        if (senders.length > 0) {
+          await operator.setAuthorizedSenders(
+            await Promise.all(senders.map((sender) => sender.getAddress())),
+          )
+        }
+        return { operator, authorizedSenders: senders }
+      },
+    })
+  }
+
+  /**
+   * Deploy forwarders owned by the scenario's operator
+   *
+   * @param count The number of forwarders to deploy
+   */
+  withForwarders(
+    this: Scenario<T & WithOperator>,
+    count = 1,
+  ): Scenario<T & { forwarders: AuthorizedForwarder[] }> {
+    return this.extend({
+      key: `forwarders(${count})`,
+      run: async ({ roles, pli, operator }) => {
+        const factory = await ethers.getContractFactory(
+          'src/v0.8/operatorforwarder/AuthorizedForwarder.sol:AuthorizedForwarder',
+          roles.defaultAccount,
+        )
+        const forwarders: AuthorizedForwarder[] = []
+        for (let i = 0; i < count; i++) {
+          forwarders.push(
+            (await factory.deploy(
+              pli.address,
+              operator.address,
+              zeroAddress,
+              '0x',
+            )) as AuthorizedForwarder,
+          )
+        }
+        return { forwarders }
+      },
+    })
+  }
+
+  /**
+   * Deploy a consumer which requests from the scenario's operator
+   *
+   * @param name The contract to deploy
+   * @param options The handle, spec ID and funding of the consumer
+   */
+  withConsumer<N extends ConsumerName, K extends string = Uncapitalize<N>>(
+    this: Scenario<T & WithOperator>,
+    name: N,
+    options: ConsumerOptions<K> = {},
+  ): Scenario<T & { [key in K]: ScenarioConsumers[N] }> {
+    const { as = uncapitalize(name), specId = defaultSpecId, pli } = options
+    return this.extend({
+      key: `consumer(${name},${as},${specId},${pli ?? 0})`,
+      run: async (handles) => {
+        const factory = await ethers.getContractFactory(
+          `src/v0.8/operatorforwarder/test/testhelpers/${name}.sol:${name}`,
+          handles.roles.defaultAccount,
+        )
+        const args: unknown[] = [handles.pli.address, handles.operator.address]
+        if (consumerTakesSpecId[name]) {
+          args.push(specId)
+        }
+        const consumer = await factory.deploy(...args)
+        if (pli !== undefined) {
+          await handles.pli.transfer(consumer.address, pli)
+        }
+        return { [as]: consumer } as { [key in K]: ScenarioConsumers[N] }
+      },
+    })
+  }
+
+  /**
+   * Add a step of the suite's own, ex. a contract the builder doesn't know
+   * about. The deploy function is part of the fixture's identity, so define
+   * it once rather than inline in a hook.
+   *
+   * @param name The name of the handle the step resolves to
+   * @param deploy Deploys the contract, given the handles of earlier steps
+   */
+  with<K extends string, C>(
+    name: K,
+    deploy: (handles: T) => Promise<C>,
+  ): Scenario<T & { [key in K]: C }> {
+    return this.extend({
+      key: customStepKey(name, deploy),
+      run: async (handles) =>
+        ({ [name]: await deploy(handles) }) as { [key in K]: C },
+    })
+  }
+
+  /**
+   * Load the scenario, deploying it the first time and reverting to its
+   * snapshot afterwards
+   *
+   * @returns The handles of every step, along with the signers
+   */
+  async load(): Promise<T> {
+    return loadFixture(this.fixture)
+  }
+}
+
+/**
+ * Start building a scenario
+ */
+export function scenario(): Scenario<Users> {
+  return Scenario.create()
+}
@@ -0,0 +1,71 @@
+import { assert } from 'chai'
+import { MockV3Aggregator__factory as MockV3AggregatorFactory } from '../../typechain/factories/MockV3Aggregator__factory'
+import { AggregatorV2V3Interface__factory as AggregatorV2V3InterfaceFactory } from '../../typechain/factories/AggregatorV2V3Interface__factory'
+import {
+  abiConformanceMismatches,
+  expectAbiConformance,
+  solidityMutabilityRelaxations,
+} from '../test-helpers/abiConformance'
+
+const iface = [
+  'function latestAnswer() view returns (int256)',
+  'function getAnswer(uint256 roundId) view returns (int256)',
+  'function setAnswer(int256 answer)',
+  'event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt)',
+  'error StaleAnswer(uint256 updatedAt)',
+]
+
+describe('AbiConformance', () => {
+  it('reports every mismatch at once', () => {
+    const implementation = [
+      'function latestAnswer() returns (int256)',
+      'function getAnswer(uint256 roundId) view returns (uint256)',
+      'event AnswerUpdated(int256 current, uint256 indexed roundId, uint256 updatedAt)',
+    ]
+    assert.deepEqual(abiConformanceMismatches(implementation, iface), [
+      'function latestAnswer() is nonpayable, expected view',
+      'function getAnswer(uint256) returns (uint256), expected (int256)',
+      'missing function setAnswer(int256) (0x99213cd8)',
+      'event AnswerUpdated(int256,uint256,uint256) indexes parameters [1], expected [0,1]',
+      'missing error StaleAnswer(uint256) (0x6e5f4509)',
+    ])
+  })
+
+  it('allows the configured mutability relaxations', () => {
+    const implementation = [
+      'function latestAnswer() pure returns (int256)',
+      'function getAnswer(uint256 roundId) view returns (int256)',
+      'function setAnswer(int256 answer) payable',
+    ]
+    assert.deepEqual(
+      abiConformanceMismatches(implementation, iface, {
+        kinds: ['function'],
+        mutability: [
+          ...solidityMutabilityRelaxations,
+          {
+            expected: 'nonpayable',
+            actual: 'payable',
+            functions: ['setAnswer(int256)'],
+          },
+        ],
+      }),
+      [],
+    )
+    assert.deepEqual(
+      abiConformanceMismatches(implementation, iface, { kinds: ['function'] }),
+      [
+        'function latestAnswer() is pure, expected view',
+        'function setAnswer(int256) is payable, expected nonpayable',
+      ],
+    )
+  })
+
+  it('MockV3Aggregator conforms to AggregatorV2V3Interface', () => {
+    // MockV3Aggregator inherits the interface, and implements description() as pure
+    expectAbiConformance(
+      MockV3AggregatorFactory.abi,
+      AggregatorV2V3InterfaceFactory.abi,
+      { mutability: solidityMutabilityRelaxations },
+    )
+  })
+})
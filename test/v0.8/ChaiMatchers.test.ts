@@ -0,0 +1,268 @@
+import { ethers } from 'hardhat'
+import { assert, expect } from 'chai'
+import { Contract, ContractReceipt, providers, utils } from 'ethers'
+import { randomAddress } from '../test-helpers/helpers'
+import { registryEvents } from '../test-helpers/automation/indexer'
+import '../test-helpers/chaiMatchers'
+
+const specId = utils.formatBytes32String('specId')
+const registry = randomAddress()
+
+const oracleRequest = utils.Fragment.from(
+  'event OracleRequest(bytes32 indexed specId, address requester, bytes32 requestId, uint256 payment, address callbackAddr, bytes4 callbackFunctionId, uint256 cancelExpiration, uint256 dataVersion, bytes data)',
+)
+
+function receiptWith(...logs: providers.Log[]): ContractReceipt {
+  return { logs } as ContractReceipt
+}
+
+function oracleRequestLog(payment: number): providers.Log {
+  const iface = new utils.Interface([oracleRequest])
+  return iface.encodeEventLog(iface.getEvent('OracleRequest'), [
+    specId,
+    randomAddress(),
+    utils.formatBytes32String('requestId'),
+    payment,
+    randomAddress(),
+    '0x12345678',
+    0,
+    1,
+    '0x',
+  ]) as providers.Log
+}
+
+function registryLog(signature: string, args: unknown[]): providers.Log {
+  return {
+    address: registry,
+    ...registryEvents.encodeEventLog(registryEvents.getEvent(signature), args),
+  } as providers.Log
+}
+
+function upkeepPerformedLog(id: number, success: boolean): providers.Log {
+  return registryLog(
+    'UpkeepPerformed(uint256,bool,uint96,uint256,uint256,bytes)',
+    [id, success, 0, 0, 0, '0x'],
+  )
+}
+
+function staleUpkeepLog(id: number): providers.Log {
+  return registryLog('StaleUpkeepReport(uint256,bytes)', [id, '0x'])
+}
+
+// resolves to the message a matcher failed with
+async function failure(assertion: Promise<void>): Promise<string> {
+  try {
+    await assertion
+  } catch (e) {
+    return (e as Error).message
+  }
+  assert.fail('expected the matcher to fail')
+}
+
+describe('chaiMatchers', () => {
+  describe('#emitOracleRequest', () => {
+    const receipt = receiptWith(oracleRequestLog(1))
+
+    it('matches the given fields of an OracleRequest', async () => {
+      await expect(receipt).to.emitOracleRequest({ specId, payment: 1 })
+      await expect(receipt).not.to.emitOracleRequest({ payment: 2 })
+    })
+
+    it('fails with the fields which did not match', async () => {
+      assert.equal(
+        await failure(expect(receipt).to.emitOracleRequest({ payment: 2 })),
+        'expected transaction to emit a matching OracleRequest, but got:\n  payment 1, expected 2',
+      )
+      assert.equal(
+        await failure(expect(receiptWith()).to.emitOracleRequest()),
+        'expected transaction to emit an OracleRequest, but it emitted none',
+      )
+      assert.equal(
+        await failure(expect(receipt).not.to.emitOracleRequest({ payment: 1 })),
+        'expected transaction not to emit a matching OracleRequest',
+      )
+    })
+  })
+
+  describe('#changePliBalances', () => {
+    let pliToken: Contract
+    let receipt: ContractReceipt
+    let owner: string
+    const recipient = randomAddress()
+
+    before(async () => {
+      const [signer] = await ethers.getSigners()
+      owner = await signer.getAddress()
+      pliToken = await (
+        await ethers.getContractFactory(
+          'src/v0.8/shared/test/helpers/PliTokenTestHelper.sol:PliTokenTestHelper',
+        )
+      ).deploy()
+      receipt = await (await pliToken.transfer(recipient, 100)).wait()
+    })
+
+    it('matches the balance changes of the transaction', async () => {
+      await expect(receipt).to.changePliBalances(
+        pliToken,
+        [owner, recipient],
+        [-100, 100],
+      )
+      await expect(receipt).not.to.changePliBalances(pliToken, [recipient], [0])
+    })
+
+    it('fails with the balances which changed by other amounts', async () => {
+      assert.equal(
+        await failure(
+          expect(receipt).to.changePliBalances(pliToken, [recipient], [0]),
+        ),
+        `expected transaction to change PLI balances:\n  ${utils.getAddress(
+          recipient,
+        )} changed by 100, expected 0`,
+      )
+      assert.equal(
+        await failure(
+          expect(receipt).not.to.changePliBalances(
+            pliToken,
+            [recipient],
+            [100],
+          ),
+        ),
+        'expected transaction not to change PLI balances by the given amounts',
+      )
+    })
+  })
+
+  describe('#performUpkeep', () => {
+    const receipt = receiptWith(
+      upkeepPerformedLog(1, true),
+      upkeepPerformedLog(2, false),
+      staleUpkeepLog(3),
+    )
+
+    it('matches upkeeps which were performed successfully', async () => {
+      await expect(receipt).to.performUpkeep(registry, 1)
+      await expect(receipt).not.to.performUpkeep(registry, 2)
+      await expect(receipt).not.to.performUpkeep(randomAddress(), 1)
+    })
+
+    it('fails with why the upkeep was not performed', async () => {
+      assert.equal(
+        await failure(expect(receipt).to.performUpkeep(registry, 2)),
+        'expected upkeep 2 to be performed, but its perform failed',
+      )
+      assert.equal(
+        await failure(expect(receipt).to.performUpkeep(registry, 3)),
+        'expected upkeep 3 to be performed, but it was skipped as stale',
+      )
+      assert.equal(
+        await failure(expect(receipt).to.performUpkeep(registry, 4)),
+        'expected upkeep 4 to be performed, but it was not performed',
+      )
+      assert.equal(
+        await failure(expect(receipt).not.to.performUpkeep(registry, 1)),
+        'expected upkeep 1 not to be performed',
+      )
+    })
+  })
+
+  describe('#skipUpkeepAs', () => {
+    const receipt = receiptWith(staleUpkeepLog(1))
+
+    it('matches upkeeps which were skipped for the reason', async () => {
+      await expect(receipt).to.skipUpkeepAs('stale')
+      await expect(receipt).to.skipUpkeepAs('stale', registry, 1)
+      await expect(receipt).not.to.skipUpkeepAs('reorged', registry, 1)
+      await expect(receipt).not.to.skipUpkeepAs('stale', registry, 2)
+    })
+
+    it('fails with the upkeep and reason', async () => {
+      assert.equal(
+        await failure(expect(receipt).to.skipUpkeepAs('reorged', registry, 1)),
+        "expected upkeep 1 to be skipped as reorged, but it wasn't",
+      )
+      assert.equal(
+        await failure(expect(receiptWith()).to.skipUpkeepAs('cancelled')),
+        "expected an upkeep to be skipped as cancelled, but it wasn't",
+      )
+      assert.equal(
+        await failure(expect(receipt).not.to.skipUpkeepAs('stale', registry)),
+        'expected an upkeep not to be skipped as stale',
+      )
+    })
+  })
+
+  describe('#revertWithTypedError', () => {
+    const contract = new Contract(randomAddress(), [
+      'error InsufficientBalance(uint256 available, uint256 requested)',
+    ])
+    const reverting = () =>
+      Promise.reject({
+        error: {
+          data: contract.interface.encodeErrorResult(
+            'InsufficientBalance',
+            [1, 2],
+          ),
+        },
+      })
+
+    it('matches the error and its args', async () => {
+      await expect(reverting).to.revertWithTypedError(
+        contract,
+        'InsufficientBalance',
+      )
+      await expect(reverting).to.revertWithTypedError(
+        contract,
+        'InsufficientBalance',
+        [1, 2],
+      )
+      await expect(reverting).not.to.revertWithTypedError(
+        contract,
+        'InsufficientBalance',
+        [1, 3],
+      )
+      await expect(receiptWith()).not.to.revertWithTypedError(
+        contract,
+        'InsufficientBalance',
+      )
+    })
+
+    it('fails with the error it reverted with, if any', async () => {
+      assert.equal(
+        await failure(
+          expect(reverting).to.revertWithTypedError(
+            contract,
+            'InsufficientBalance',
+            [1, 3],
+          ),
+        ),
+        'expected transaction to revert with InsufficientBalance("1", "3"), but it reverted with InsufficientBalance("1", "2")',
+      )
+      assert.equal(
+        await failure(
+          expect(receiptWith()).to.revertWithTypedError(
+            contract,
+            'InsufficientBalance',
+          ),
+        ),
+        "expected transaction to revert with InsufficientBalance, but it didn't revert",
+      )
+      assert.equal(
+        await failure(
+          expect(() =>
+            Promise.reject({ data: '0x12345678' }),
+          ).to.revertWithTypedError(contract, 'InsufficientBalance'),
+        ),
+        "expected transaction to revert with InsufficientBalance, but it reverted with 0x12345678, which isn't an error of the contract",
+      )
+      assert.equal(
+        await failure(
+          expect(reverting).not.to.revertWithTypedError(
+            contract,
+            'InsufficientBalance',
+          ),
+        ),
+        'expected transaction not to revert with InsufficientBalance',
+      )
+    })
+  })
+})
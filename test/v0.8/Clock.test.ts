@@ -0,0 +1,85 @@
+import { ethers } from 'hardhat'
+import { assert } from 'chai'
+import { clock } from '../test-helpers/clock'
+
+const timeStamp = 32503680000 // Jan 1, 3000 12:00AM
+
+const rejection = async (promise: Promise<unknown>): Promise<string> => {
+  try {
+    await promise
+  } catch (e) {
+    return (e as Error).message
+  }
+  throw Error('expected promise to be rejected')
+}
+
+describe('Clock', () => {
+  clock.scope()
+
+  beforeEach(async () => {
+    await clock.setTime(timeStamp)
+  })
+
+  it('advances by an exact number of seconds', async () => {
+    assert.equal(await clock.advance(90), timeStamp + 90)
+    assert.equal(await clock.now(), timeStamp + 90)
+  })
+
+  it('advances to the next cron tick', async () => {
+    assert.equal(await clock.advanceToTick('10 * * * *'), timeStamp + 600)
+    // the latest block is on a tick, so the next one is an hour later
+    assert.equal(await clock.advanceToTick('10 * * * *'), timeStamp + 4200)
+  })
+
+  it('mines blocks a fixed interval apart', async () => {
+    const start = await clock.blockNumber()
+    assert.equal(await clock.mine(10, 12), start + 10)
+    assert.equal(await clock.now(), timeStamp + 120)
+    const block = await ethers.provider.getBlock(start + 1)
+    assert.equal(block.timestamp, timeStamp + 12)
+  })
+
+  it('refuses to move time backwards', async () => {
+    assert.include(
+      await rejection(clock.setTime(timeStamp)),
+      `cannot set time to ${timeStamp}`,
+    )
+  })
+
+  it('pins the next block while frozen', async () => {
+    await clock.freeze()
+    await new Promise((resolve) => setTimeout(resolve, 1100))
+    const [signer] = await ethers.getSigners()
+    const tx = await signer.sendTransaction({ to: signer.address })
+    const receipt = await tx.wait()
+    const block = await ethers.provider.getBlock(receipt.blockNumber)
+    assert.equal(block.timestamp, timeStamp + 1)
+  })
+
+  describe('nested scopes', () => {
+    clock.scope()
+
+    beforeEach(async () => {
+      await clock.freeze()
+      await clock.advance(3600)
+    })
+
+    it('starts from the state of the outer scope', async () => {
+      assert.equal(await clock.now(), timeStamp + 3600)
+      assert.isTrue(clock.isFrozen)
+    })
+  })
+
+  it('reverts to an earlier snapshot, dropping the later ones', async () => {
+    const first = await clock.snapshot()
+    await clock.advance(60)
+    const second = await clock.snapshot()
+    await clock.advance(60)
+    await clock.revert(first)
+    assert.equal(await clock.now(), timeStamp)
+    assert.equal(
+      await rejection(clock.revert(second)),
+      `unknown snapshot ${second}`,
+    )
+  })
+})
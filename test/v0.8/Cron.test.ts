@@ -4,7 +4,14 @@ import { assert, expect } from 'chai'
 import { CronInternalTestHelper } from '../../typechain/CronInternalTestHelper'
 import { CronExternalTestHelper } from '../../typechain/CronExternalTestHelper'
 import { invalidCrons, validCrons } from '../test-helpers/fixtures'
-import { reset, setTimestamp } from '../test-helpers/helpers'
+import { clock } from '../test-helpers/clock'
+import {
+  calculateLastTick,
+  calculateNextTick,
+  encodeCronString,
+  encodedSpecToString,
+  isValidCronString,
+} from '../test-helpers/cron'
 
 let cron: CronInternalTestHelper | CronExternalTestHelper
 let cronInternal: CronInternalTestHelper
@@ -13,7 +20,7 @@ let cronExternal: CronExternalTestHelper
 const timeStamp = 32503680000 // Jan 1, 3000 12:00AM
 
 describe('Cron', () => {
-  beforeEach(async () => {
+  before(async () => {
     const accounts = await ethers.getSigners()
     const admin = accounts[1]
     const cronInternalTestHelperFactory = await ethers.getContractFactory(
@@ -36,9 +43,7 @@ describe('Cron', () => {
     cronExternal = await cronExternalTestHelperFactory.deploy()
   })
 
-  afterEach(async () => {
-    await reset()
-  })
+  clock.scope()
 
   for (let libType of ['Internal', 'External']) {
     describe(libType, () => {
@@ -56,6 +61,14 @@ describe('Cron', () => {
           await Promise.all(tests)
         })
 
+        it('produces the same encoding as the off-chain implementation', async () => {
+          for (const input of validCrons) {
+            const spec = await cron.encodeCronString(input)
+            assert.equal(spec, encodeCronString(input))
+            assert.equal(encodedSpecToString(spec), input)
+          }
+        })
+
         it('errors while parsing invalid cron strings', async () => {
           for (let idx = 0; idx < invalidCrons.length; idx++) {
             const input = invalidCrons[idx]
@@ -63,13 +76,17 @@ describe('Cron', () => {
               cron.encodeCronString(input),
               `expected ${input} to be invalid`,
             ).to.be.reverted
+            assert.isFalse(
+              isValidCronString(input),
+              `expected ${input} to be invalid off-chain`,
+            )
           }
         })
       })
 
       describe('calculateNextTick() / calculateLastTick()', () => {
         it('correctly identifies the next & last ticks for cron jobs [ @skip-coverage ]', async () => {
-          await setTimestamp(timeStamp)
+          await clock.setTime(timeStamp)
           const now = () => moment.unix(timeStamp)
           const tests = [
             {
@@ -119,6 +136,16 @@ describe('Cron', () => {
               test.lastTick,
               `got wrong next tick for "${test.cron}"`,
             )
+            assert.equal(
+              calculateNextTick(test.cron, timeStamp),
+              nextTick,
+              `off-chain next tick differs for "${test.cron}"`,
+            )
+            assert.equal(
+              calculateLastTick(test.cron, timeStamp),
+              lastTick,
+              `off-chain last tick differs for "${test.cron}"`,
+            )
           }
         })
       })
@@ -0,0 +1,342 @@
+import { ethers, network } from 'hardhat'
+import { assert } from 'chai'
+import { CronInternalTestHelper } from '../../typechain/CronInternalTestHelper'
+import { CronExternalTestHelper } from '../../typechain/CronExternalTestHelper'
+import { setTimestamp } from '../test-helpers/helpers'
+import {
+  calculateLastTick,
+  calculateNextTick,
+  encodeCronString,
+  isValidCronString,
+} from '../test-helpers/cron'
+import {
+  Arbitrary,
+  checkProperty,
+  propertyOptionsFromEnv,
+  Random,
+} from '../test-helpers/property'
+
+// The number of runs and seed of each property can be configured with
+// CRON_FUZZ_RUNS / CRON_FUZZ_SEED, ex to reproduce a failure or to run a longer
+// campaign. The seed is fixed by default, and is printed when a property fails
+const encodingOptions = () => propertyOptionsFromEnv('CRON_FUZZ', 300)
+const tickOptions = () => propertyOptionsFromEnv('CRON_FUZZ', 25)
+
+const LAST_YEAR = 2500
+const CENTURIES = [2100, 2200, 2300, 2400]
+const DAY_IN_SECONDS = 86400
+
+type Bounds = { min: number; max: number; edges: number[] }
+
+// minute, hour, day, month, day of week
+const fieldBounds: Bounds[] = [
+  { min: 0, max: 59, edges: [0, 1, 30, 59] },
+  { min: 0, max: 23, edges: [0, 1, 12, 23] },
+  { min: 1, max: 31, edges: [1, 28, 29, 30, 31] },
+  { min: 1, max: 12, edges: [1, 2, 4, 6, 9, 11, 12] },
+  { min: 0, max: 6, edges: [0, 1, 5, 6] },
+]
+
+const malformedFields = ['', '1,', ',', '1-2-3', 'L', '256', '5/10', '*/', '-']
+
+type CronCase = { fields: string[]; timestamp: number }
+
+let cronInternal: CronInternalTestHelper
+let cronExternal: CronExternalTestHelper
+let snapshotId: string
+let minTimestamp: number
+
+function genValue(random: Random, bounds: Bounds): number {
+  if (random.chance(0.1)) {
+    // occasionally step just outside of the valid range
+    return random.pick([Math.max(bounds.min - 1, 0), bounds.max + 1])
+  }
+  if (random.chance(0.4)) {
+    return random.pick(bounds.edges)
+  }
+  return random.int(bounds.min, bounds.max)
+}
+
+function genField(random: Random, bounds: Bounds): string {
+  const kind = random.int(0, 19)
+  if (kind < 8) {
+    return '*'
+  } else if (kind < 12) {
+    return genValue(random, bounds).toString()
+  } else if (kind < 14) {
+    return `*/${random.int(0, bounds.max + 2)}`
+  } else if (kind < 16) {
+    const start = genValue(random, bounds)
+    return `${start}-${random.chance(0.8) ? start + random.int(1, 4) : start}`
+  } else if (kind < 19) {
+    const length = random.chance(0.9) ? random.int(2, 6) : random.int(1, 28)
+    return Array.from({ length }, () => genValue(random, bounds)).join(',')
+  }
+  return random.pick(malformedFields)
+}
+
+function genFields(random: Random): string[] {
+  return fieldBounds.map((bounds) => genField(random, bounds))
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function genTimestamp(random: Random): number {
+  const minYear = new Date(minTimestamp * 1000).getUTCFullYear() + 1
+  let year = random.int(minYear, LAST_YEAR)
+  const shape = random.next()
+  if (shape < 0.2) {
+    year = random.pick(CENTURIES) + random.int(-1, 1)
+  } else if (shape < 0.4) {
+    year -= year % 4 // leap year, unless it's a century
+  }
+  const month = random.chance(0.3) ? 2 : random.int(1, 12)
+  const maxDay = daysInMonth(year, month)
+  const day = random.pick([1, maxDay, maxDay - 1, random.int(1, maxDay)])
+  let timestamp =
+    Date.UTC(
+      year,
+      month - 1,
+      day,
+      random.pick([0, 23, random.int(0, 23)]),
+      random.pick([0, 59, random.int(0, 59)]),
+      random.int(0, 59),
+    ) / 1000
+  if (random.chance(0.3)) {
+    // move to the closest saturday or sunday
+    const weekday = new Date(timestamp * 1000).getUTCDay()
+    timestamp += ((random.pick([6, 7]) - weekday) % 7) * DAY_IN_SECONDS
+  }
+  return Math.max(timestamp, minTimestamp)
+}
+
+// fields are ordered by complexity: "*" is the simplest, then shorter fields, then smaller numbers
+function fieldComplexity(field: string): number[] {
+  const digits = field.replace(/[^0-9]/g, '')
+  return [field === '*' ? 0 : 1, field.length, digits ? Number(digits) : 0]
+}
+
+function isSimpler(candidate: string, field: string): boolean {
+  const a = fieldComplexity(candidate)
+  const b = fieldComplexity(field)
+  for (let idx = 0; idx < a.length; idx++) {
+    if (a[idx] !== b[idx]) {
+      return a[idx] < b[idx]
+    }
+  }
+  return false
+}
+
+function* shrinkField(field: string): Iterable<string> {
+  const candidates = ['*', '0', '1']
+  if (field.includes(',')) {
+    const items = field.split(',')
+    for (let idx = 0; idx < items.length; idx++) {
+      candidates.push(items.filter((_, i) => i !== idx).join(','))
+    }
+  }
+  const numbers = field.match(/[0-9]+/g) || []
+  for (const number of numbers) {
+    const value = Number(number)
+    for (const smaller of [0, Math.floor(value / 2), value - 1]) {
+      if (smaller >= 0 && smaller < value) {
+        candidates.push(field.replace(number, smaller.toString()))
+      }
+    }
+  }
+  for (const candidate of candidates) {
+    if (isSimpler(candidate, field)) {
+      yield candidate
+    }
+  }
+}
+
+function* shrinkTimestamp(timestamp: number): Iterable<number> {
+  const dt = new Date(timestamp * 1000)
+  const year = dt.getUTCFullYear()
+  const minYear = new Date(minTimestamp * 1000).getUTCFullYear() + 1
+  const candidates = [
+    Date.UTC(year - Math.ceil((year - minYear) / 2), 0, 1) / 1000,
+    Date.UTC(year, 0, 1) / 1000,
+    Date.UTC(year, dt.getUTCMonth(), 1) / 1000,
+    timestamp - (timestamp % DAY_IN_SECONDS),
+    timestamp - (timestamp % 3600),
+    timestamp - (timestamp % 60),
+  ]
+  for (const candidate of candidates) {
+    if (candidate >= minTimestamp && candidate < timestamp) {
+      yield candidate
+    }
+  }
+}
+
+function showCase(c: CronCase): string {
+  const date = new Date(c.timestamp * 1000).toISOString()
+  return `"${c.fields.join(' ')}" at ${c.timestamp} (${date})`
+}
+
+function cronCases(validOnly: boolean): Arbitrary<CronCase> {
+  return {
+    generate: (random) => {
+      let fields = genFields(random)
+      for (let idx = 0; validOnly && idx < 20; idx++) {
+        if (isValidCronString(fields.join(' '))) {
+          break
+        }
+        fields = genFields(random)
+      }
+      return { fields, timestamp: genTimestamp(random) }
+    },
+    *shrink({ fields, timestamp }) {
+      for (let idx = 0; idx < fields.length; idx++) {
+        for (const field of shrinkField(fields[idx])) {
+          const shrunk = [...fields]
+          shrunk[idx] = field
+          yield { fields: shrunk, timestamp }
+        }
+      }
+      for (const shrunk of shrinkTimestamp(timestamp)) {
+        yield { fields, timestamp: shrunk }
+      }
+    },
+    show: showCase,
+  }
+}
+
+type Outcome = { reverted: true } | { reverted: false; value: string }
+
+async function outcome(
+  action: () => Promise<{ toString: () => string }> | { toString(): string },
+): Promise<Outcome> {
+  try {
+    return { reverted: false, value: (await action()).toString() }
+  } catch {
+    return { reverted: true }
+  }
+}
+
+async function setChainTime(timestamp: number) {
+  await network.provider.send('evm_revert', [snapshotId])
+  snapshotId = await network.provider.send('evm_snapshot', [])
+  await setTimestamp(timestamp)
+}
+
+// checks that both libraries and the off-chain implementation accept / reject the
+// same cron strings, and produce the same encoding for the ones they accept
+async function assertEncodingsAgree(cronString: string): Promise<boolean> {
+  const internal = await outcome(() =>
+    cronInternal.encodeCronString(cronString),
+  )
+  const external = await outcome(() =>
+    cronExternal.encodeCronString(cronString),
+  )
+  const offchain = await outcome(() => encodeCronString(cronString))
+  assert.deepEqual(external, internal, 'internal and external libraries differ')
+  assert.deepEqual(offchain, internal, 'off-chain encoding differs')
+  return !internal.reverted
+}
+
+async function assertTicksAgree({ fields, timestamp }: CronCase) {
+  const cronString = fields.join(' ')
+  if (!(await assertEncodingsAgree(cronString))) {
+    return
+  }
+  await setChainTime(timestamp)
+  const next = {
+    internal: await outcome(() => cronInternal.calculateNextTick(cronString)),
+    external: await outcome(() => cronExternal.calculateNextTick(cronString)),
+    offchain: await outcome(() => calculateNextTick(cronString, timestamp)),
+  }
+  const last = {
+    internal: await outcome(() => cronInternal.calculateLastTick(cronString)),
+    external: await outcome(() => cronExternal.calculateLastTick(cronString)),
+    offchain: await outcome(() => calculateLastTick(cronString, timestamp)),
+  }
+  assert.deepEqual(next.external, next.internal, 'next ticks differ')
+  assert.deepEqual(next.offchain, next.internal, 'off-chain next tick differs')
+  assert.deepEqual(last.external, last.internal, 'last ticks differ')
+  assert.deepEqual(last.offchain, last.internal, 'off-chain last tick differs')
+}
+
+describe('Cron (differential)', () => {
+  before(async () => {
+    const accounts = await ethers.getSigners()
+    const cronInternalTestHelperFactory = await ethers.getContractFactory(
+      'CronInternalTestHelper',
+    )
+    cronInternal = await cronInternalTestHelperFactory.deploy()
+    const cronExternalFactory = await ethers.getContractFactory(
+      'src/v0.8/automation/libraries/external/Cron.sol:Cron',
+      accounts[1],
+    )
+    const cronExternalLib = await cronExternalFactory.deploy()
+    const cronExternalTestHelperFactory = await ethers.getContractFactory(
+      'CronExternalTestHelper',
+      {
+        libraries: {
+          Cron: cronExternalLib.address,
+        },
+      },
+    )
+    cronExternal = await cronExternalTestHelperFactory.deploy()
+    const latestBlock = await ethers.provider.getBlock('latest')
+    minTimestamp = latestBlock.timestamp + DAY_IN_SECONDS
+    snapshotId = await network.provider.send('evm_snapshot', [])
+  })
+
+  after(async () => {
+    await network.provider.send('evm_revert', [snapshotId])
+  })
+
+  it('parses and encodes random cron strings identically [ @skip-coverage ]', async () => {
+    await checkProperty(
+      cronCases(false),
+      ({ fields }) => assertEncodingsAgree(fields.join(' ')).then(() => {}),
+      encodingOptions(),
+    )
+  })
+
+  it('calculates identical next & last ticks for random specs and timestamps [ @skip-coverage ]', async () => {
+    await checkProperty(cronCases(true), assertTicksAgree, tickOptions())
+  })
+
+  it('reports a minimal counterexample when the implementations disagree', async () => {
+    // a deliberately broken reference, which ignores the day of week field
+    const broken = async ({ fields, timestamp }: CronCase) => {
+      const cronString = fields.join(' ')
+      const withoutDayOfWeek = [...fields.slice(0, 4), '*'].join(' ')
+      assert.equal(
+        calculateNextTick(withoutDayOfWeek, timestamp),
+        calculateNextTick(cronString, timestamp),
+      )
+    }
+    // pin the case to a Wednesday 13:00 UTC, so that the spec's next tick
+    // (Monday) differs from the one without its day of week (Thursday) whatever
+    // the time the test runs at
+    const start = new Date((minTimestamp + DAY_IN_SECONDS) * 1000)
+    start.setUTCHours(13, 0, 0, 0)
+    start.setUTCDate(start.getUTCDate() + ((3 - start.getUTCDay() + 7) % 7))
+    const arbitrary = cronCases(true)
+    let message = ''
+    try {
+      await checkProperty(
+        {
+          ...arbitrary,
+          generate: () => ({
+            fields: ['30', '12', '*', '*', '1,3'],
+            timestamp: start.getTime() / 1000,
+          }),
+        },
+        broken,
+        { runs: 1, seed: 1 },
+      )
+    } catch (e) {
+      message = (e as Error).message
+    }
+    assert.include(message, 'property failed after 1 runs (seed: 1)')
+    // the spec shrinks down to a single day of week, with every other field a wildcard
+    assert.match(message, /shrunk \(\d+ steps\): "\* \* \* \* [0-9]"/)
+  })
+})
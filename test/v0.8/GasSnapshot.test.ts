@@ -0,0 +1,51 @@
+import { assert } from 'chai'
+import {
+  diffGasSnapshots,
+  formatGasDiffs,
+  formatGasSnapshot,
+  parseGasSnapshot,
+} from '../test-helpers/gasSnapshot'
+
+describe('GasSnapshot', () => {
+  it('round trips the snapshot format, sorted by label', () => {
+    const snapshot = {
+      'transmit(upkeeps=5)': 412345,
+      'transmit(upkeeps=1)': 150000,
+    }
+    const contents = formatGasSnapshot(snapshot)
+    assert.equal(
+      contents,
+      'transmit(upkeeps=1) (gas: 150000)\ntransmit(upkeeps=5) (gas: 412345)\n',
+    )
+    assert.deepEqual(parseGasSnapshot(contents), snapshot)
+    assert.throws(() => parseGasSnapshot('transmit 150000'), /invalid gas/)
+  })
+
+  it('reports the labels which moved beyond the tolerance', () => {
+    const baseline = { a: 100_000, b: 100_000, c: 100_000, d: 50_000 }
+    const current = { a: 100_000, b: 100_500, c: 103_000, e: 20_000 }
+    const diffs = diffGasSnapshots(baseline, current, { relative: 0.01 })
+    assert.deepEqual(
+      diffs.map((diff) => [diff.label, diff.delta, diff.exceedsTolerance]),
+      [
+        ['b', 500, false],
+        ['c', 3000, true],
+        ['d', -50_000, true],
+        ['e', 20_000, true],
+      ],
+    )
+    assert.equal(
+      formatGasDiffs(diffs),
+      [
+        '  b: 100000 -> 100500 (+500, +0.50%)',
+        '! c: 100000 -> 103000 (+3000, +3.00%)',
+        '! d: removed (gas: 50000)',
+        '! e: added (gas: 20000)',
+      ].join('\n'),
+    )
+    assert.isFalse(
+      diffGasSnapshots(baseline, current, { absolute: 3000 })[1]
+        .exceedsTolerance,
+    )
+  })
+})
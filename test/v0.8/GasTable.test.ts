@@ -0,0 +1,45 @@
+import { assert } from 'chai'
+import { BigNumber } from 'ethers'
+import { GasTable } from '../test-helpers/gasTable'
+
+describe('GasTable', () => {
+  const newTable = () => {
+    const table = new GasTable('operation', ['v1.2', 'v2.3'], ['register'])
+    table.set('transmit (log, 5 upkeeps)', 'v2.3', BigNumber.from(412345))
+    table.set('register', 'v2.3', 250000)
+    table.set('register', 'v1.2', 180000)
+    return table
+  }
+
+  it('renders unmeasured cells as n/a, in the order of the rows given', () => {
+    assert.equal(
+      newTable().toMarkdown(),
+      [
+        '| operation | v1.2 | v2.3 |',
+        '| --- | ---: | ---: |',
+        '| register | 180000 | 250000 |',
+        '| transmit (log, 5 upkeeps) | n/a | 412345 |',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('quotes CSV cells which contain commas', () => {
+    assert.equal(
+      newTable().toCSV(),
+      [
+        'operation,v1.2,v2.3',
+        'register,180000,250000',
+        '"transmit (log, 5 upkeeps)",n/a,412345',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('rejects unknown columns', () => {
+    assert.throws(
+      () => newTable().set('register', 'v2.4', 1),
+      /unknown gas table column v2.4/,
+    )
+  })
+})
@@ -10,6 +10,7 @@ import { HeartbeatRequester__factory as HeartbeatRequesterFactory } from '../../
 import { MockAggregatorProxy__factory as MockAggregatorProxyFactory } from '../../typechain/factories/MockAggregatorProxy__factory'
 import { MockOffchainAggregator__factory as MockOffchainAggregatorFactory } from '../../typechain/factories/MockOffchainAggregator__factory'
 import { assert, expect } from 'chai'
+import { clock } from '../test-helpers/clock'
 
 let personas: Personas
 let owner: Signer
@@ -24,7 +25,7 @@ let requester: HeartbeatRequester
 let requesterFactory: HeartbeatRequesterFactory
 
 describe('HeartbeatRequester', () => {
-  beforeEach(async () => {
+  before(async () => {
     personas = (await getUsers()).personas
     owner = personas.Default
     caller1 = personas.Carol
@@ -37,6 +38,8 @@ describe('HeartbeatRequester', () => {
     await requester.deployed()
   })
 
+  clock.scope()
+
   describe('#permitHeartbeat', () => {
     it('adds a heartbeat and emits an event', async () => {
       const callerAddress = await caller1.getAddress()
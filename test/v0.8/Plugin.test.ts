@@ -1,9 +1,13 @@
 import { ethers } from 'hardhat'
 import { publicAbi, decodeDietCBOR, hexToBuf } from '../test-helpers/helpers'
 import { assert } from 'chai'
-import { Contract, ContractFactory, providers, Signer } from 'ethers'
+import { BigNumber, Contract, ContractFactory, providers, Signer } from 'ethers'
 import { Roles, getUsers } from '../test-helpers/setup'
 import { makeDebug } from '../test-helpers/debug'
+import {
+  decodePluginRequest,
+  PluginRequestBuilder,
+} from '../test-helpers/pluginRequest'
 
 const debug = makeDebug('PluginTestHelper')
 let concretePluginFactory: ContractFactory
@@ -179,4 +183,152 @@ describe('PluginTestHelper', () => {
       assert.deepEqual(decoded, { word: ['seinfeld', '"4"', 'LIFE'] })
     })
   })
+
+  describe('PluginRequestBuilder', () => {
+    async function onChainBuffer(): Promise<string> {
+      const tx = await ccl.closeEvent()
+      const [payload] = await parseCCLEvent(tx)
+      return payload
+    }
+
+    it('matches empty payloads', async () => {
+      assert.equal(new PluginRequestBuilder().build(), await onChainBuffer())
+    })
+
+    it('matches strings and bytes', async () => {
+      await ccl.add('first', 'word!!')
+      await ccl.add('unicode', 'ünï©ødé')
+      await ccl.addBytes('bytes', '0xaabbccddeeff')
+      await ccl.addBytes('long', '0x' + 'ab'.repeat(300))
+      const expected = new PluginRequestBuilder()
+        .add('first', 'word!!')
+        .add('unicode', 'ünï©ødé')
+        .addBytes('bytes', '0xaabbccddeeff')
+        .addBytes('long', '0x' + 'ab'.repeat(300))
+        .build()
+      assert.equal(expected, await onChainBuffer())
+    })
+
+    it('matches integers of every width, including bignums', async () => {
+      const ints = [
+        0,
+        -1,
+        23,
+        -24,
+        -25,
+        255,
+        -257,
+        65536,
+        '-18446744073709551616',
+        '-18446744073709551617',
+        '18446744073709551616',
+        ethers.constants.MinInt256,
+        ethers.constants.MaxInt256,
+      ]
+      const uints = [
+        0,
+        24,
+        4294967296,
+        '18446744073709551615',
+        '18446744073709551616',
+        ethers.constants.MaxUint256,
+      ]
+      const builder = new PluginRequestBuilder()
+      for (let idx = 0; idx < ints.length; idx++) {
+        await ccl.addInt(`int${idx}`, ints[idx])
+        builder.addInt(`int${idx}`, ints[idx])
+      }
+      for (let idx = 0; idx < uints.length; idx++) {
+        await ccl.addUint(`uint${idx}`, uints[idx])
+        builder.addUint(`uint${idx}`, uints[idx])
+      }
+      const payload = await onChainBuffer()
+      assert.equal(builder.build(), payload)
+
+      const decoded = decodePluginRequest(payload)
+      ints.forEach((value, idx) =>
+        assert.isTrue((decoded[`int${idx}`] as BigNumber).eq(value)),
+      )
+      uints.forEach((value, idx) =>
+        assert.isTrue((decoded[`uint${idx}`] as BigNumber).eq(value)),
+      )
+    })
+
+    it('matches string arrays and replaced buffers', async () => {
+      await ccl.add('dropped', 'value')
+      await ccl.setBuffer('0x6161616162')
+      await ccl.addStringArray('word', ['seinfeld', '"4"', 'LIFE'])
+      await ccl.addStringArray('empty', [])
+      const expected = new PluginRequestBuilder()
+        .add('dropped', 'value')
+        .setBuffer('0x6161616162')
+        .addStringArray('word', ['seinfeld', '"4"', 'LIFE'])
+        .addStringArray('empty', [])
+        .build()
+      assert.equal(expected, await onChainBuffer())
+    })
+
+    it('rejects values outside of the solidity types', () => {
+      const builder = new PluginRequestBuilder()
+      assert.throws(
+        () => builder.addUint('a', -1),
+        'addUint: -1 is out of the uint256 range',
+      )
+      assert.throws(
+        () => builder.addInt('a', ethers.constants.MaxUint256),
+        'is out of the int256 range',
+      )
+    })
+  })
+
+  describe('decodePluginRequest', () => {
+    it('decodes typed values in the order they were added', () => {
+      const data = new PluginRequestBuilder()
+        .add('get', 'https://example.com')
+        .addBytes('bytes', '0xaabb')
+        .addInt('times', -100)
+        .addUint('big', ethers.constants.MaxUint256)
+        .addStringArray('path', ['a', 'b'])
+        .build()
+      const decoded = decodePluginRequest(data)
+      assert.deepEqual(Object.keys(decoded), [
+        'get',
+        'bytes',
+        'times',
+        'big',
+        'path',
+      ])
+      assert.equal(decoded.get, 'https://example.com')
+      assert.equal(ethers.utils.hexlify(decoded.bytes as Uint8Array), '0xaabb')
+      assert.isTrue((decoded.times as BigNumber).eq(-100))
+      assert.isTrue((decoded.big as BigNumber).eq(ethers.constants.MaxUint256))
+      assert.deepEqual(decoded.path, ['a', 'b'])
+    })
+
+    it('decodes complete maps set as the buffer', () => {
+      assert.deepEqual(decodePluginRequest('0xA161616162'), { a: 'b' })
+      assert.deepEqual(decodePluginRequest('0xBF61616162FF'), { a: 'b' })
+      assert.deepEqual(decodePluginRequest('0x'), {})
+    })
+
+    it('rejects encodings the node would not accept', () => {
+      const invalid: [string, string][] = [
+        ['0x6161', 'key "a" has no value'],
+        ['0x616161', 'exceeds the remaining data'],
+        ['0xA1616161626161', 'trailing data after the request map'],
+        ['0x0101', 'is not a text string'],
+        ['0x61616161616162', 'duplicate key "a"'],
+        ['0x6161C16161', 'unsupported tag 1'],
+        ['0x6161C26161', 'does not contain a byte string'],
+        ['0x6161FF', 'unexpected break'],
+        ['0x616162FF', 'exceeds the remaining data'],
+        ['0x61616281FF', 'is not valid UTF-8'],
+        ['0x61619F6162', 'unexpected end of data'],
+        ['0x61611C', 'reserved additional information 28'],
+      ]
+      for (const [data, reason] of invalid) {
+        assert.throws(() => decodePluginRequest(data), reason, undefined, data)
+      }
+    })
+  })
 })
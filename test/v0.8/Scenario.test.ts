@@ -0,0 +1,104 @@
+import { ethers } from 'hardhat'
+import { assert } from 'chai'
+import { toWei } from '../test-helpers/helpers'
+import { scenario } from '../test-helpers/scenario'
+
+async function deployGetterSetter() {
+  const factory = await ethers.getContractFactory(
+    'src/v0.8/operatorforwarder/test/testhelpers/GetterSetter.sol:GetterSetter',
+  )
+  return factory.deploy()
+}
+
+describe('scenario()', () => {
+  const operatorScenario = scenario()
+    .withPliToken()
+    .withOperator({ authorizedSenders: 3 })
+  const consumerScenario = operatorScenario
+    .withForwarders(2)
+    .withConsumer('BasicConsumer', { pli: toWei('1') })
+    .withConsumer('MaliciousRequester', { as: 'requester' })
+
+  it('binds the signers from setup.ts', async () => {
+    const { roles, personas } = await scenario().load()
+    assert.equal(
+      await roles.defaultAccount.getAddress(),
+      await personas.Default.getAddress(),
+    )
+  })
+
+  it('deploys an operator with authorized senders', async () => {
+    const s = await operatorScenario.load()
+    assert.equal(await s.operator.getPluginToken(), s.pli.address)
+    assert.lengthOf(s.authorizedSenders, 3)
+    for (const sender of s.authorizedSenders) {
+      assert.isTrue(
+        await s.operator.isAuthorizedSender(await sender.getAddress()),
+      )
+    }
+    assert.isFalse(
+      await s.operator.isAuthorizedSender(
+        await s.roles.oracleNode3.getAddress(),
+      ),
+    )
+  })
+
+  it('deploys forwarders and consumers for the operator', async () => {
+    const s = await consumerScenario.load()
+    assert.lengthOf(s.forwarders, 2)
+    for (const forwarder of s.forwarders) {
+      assert.equal(await forwarder.owner(), s.operator.address)
+    }
+    assert.equal(
+      (await s.pli.balanceOf(s.basicConsumer.address)).toString(),
+      toWei('1').toString(),
+    )
+    assert.equal(
+      await s.basicConsumer.getCurrentPrice(),
+      ethers.constants.HashZero,
+    )
+    assert.notEqual(s.requester.address, s.basicConsumer.address)
+  })
+
+  it('runs each step once, sharing the steps of a common prefix', async () => {
+    let runs = 0
+    const countRuns = async () => ++runs
+    const prefix = scenario().withPliToken().with('runs', countRuns)
+    const withOperator = prefix.withOperator()
+    const withForwarder = withOperator.withForwarders()
+    assert.equal((await withOperator.load()).runs, 1)
+    assert.equal((await withForwarder.load()).runs, 1)
+    assert.equal((await withOperator.load()).runs, 1)
+    assert.equal(runs, 1)
+  })
+
+  it('reverts to the snapshot on every load', async () => {
+    const s = await operatorScenario.load()
+    await s.pli.transfer(s.operator.address, toWei('1'))
+    const reloaded = await operatorScenario.load()
+    assert.equal(
+      (await reloaded.pli.balanceOf(s.operator.address)).toString(),
+      '0',
+    )
+  })
+
+  it('shares the fixture of identical builders', () => {
+    assert.equal(
+      scenario().withPliToken().withOperator({ authorizedSenders: 3 }).key,
+      operatorScenario.key,
+    )
+    assert.notEqual(
+      scenario().withPliToken().withOperator().key,
+      operatorScenario.key,
+    )
+  })
+
+  it('runs steps of its own', async () => {
+    const s = await scenario()
+      .withPliToken()
+      .with('getterSetter', deployGetterSetter)
+      .load()
+    await s.getterSetter.setBytes('0x1234')
+    assert.equal(await s.getterSetter.getBytes(), '0x1234')
+  })
+})
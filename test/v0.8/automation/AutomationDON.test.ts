@@ -0,0 +1,629 @@
+import hre, { ethers } from 'hardhat'
+import { assert } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { BigNumber, Contract, ContractTransaction, Signer } from 'ethers'
+import { randomAddress, toWei } from '../../test-helpers/helpers'
+import { clock } from '../../test-helpers/clock'
+import { readManifest } from '../../../tasks/automation/config'
+import {
+  AutomationDON,
+  DONRound,
+  UpkeepFailureReason,
+} from '../../test-helpers/automation/don'
+import { donSigners } from '../../test-helpers/automation/report'
+import { parseRegistryLogs } from '../../test-helpers/automation/indexer'
+import { StreamsServer } from '../../test-helpers/automation/streams'
+import {
+  Trigger,
+  decodeBlockTrigger,
+  decodeLogTrigger,
+  encodeLogTriggerConfig,
+  makeLogTriggerConfig,
+} from '../../test-helpers/automation/upkeep'
+import {
+  deployRegistry21,
+  deployRegistry22,
+  deployZKSyncRegistry23,
+} from './helpers'
+
+describe('AutomationDON', () => {
+  let owner: Signer
+  let stranger: Signer
+  let transmitters: string[]
+  let pliToken: Contract
+  let pliNativeFeed: Contract
+  let pliUSDFeed: Contract
+  let nativeUSDFeed: Contract
+  let gasPriceFeed: Contract
+  let registry: Contract
+  let upkeep1: Contract
+  let upkeep2: Contract
+  let manifestPath: string
+  let dir: string
+
+  before(async () => {
+    const accounts = await ethers.getSigners()
+    ;[owner, stranger] = accounts
+    transmitters = await Promise.all(
+      [owner, ...accounts.slice(2, 5)].map((a) => a.getAddress()),
+    )
+    pliToken = await (
+      await ethers.getContractFactory(
+        'src/v0.8/shared/test/helpers/PliTokenTestHelper.sol:PliTokenTestHelper',
+      )
+    ).deploy()
+    const mockV3AggregatorFactory = await ethers.getContractFactory(
+      'src/v0.8/tests/MockV3Aggregator.sol:MockV3Aggregator',
+    )
+    gasPriceFeed = await mockV3AggregatorFactory.deploy(0, 100)
+    pliNativeFeed = await mockV3AggregatorFactory.deploy(18, toWei('0.005'))
+    pliUSDFeed = await mockV3AggregatorFactory.deploy(8, 2000000000)
+    nativeUSDFeed = await mockV3AggregatorFactory.deploy(8, 400000000000)
+    const upkeepMockFactory = await ethers.getContractFactory('UpkeepMock')
+    upkeep1 = await upkeepMockFactory.deploy()
+    upkeep2 = await upkeepMockFactory.deploy()
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'automation-don-'))
+    const configPath = path.join(dir, 'automation.json')
+    manifestPath = path.join(dir, 'manifest.json')
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        pli: pliToken.address,
+        pliUSDFeed: pliUSDFeed.address,
+        nativeUSDFeed: nativeUSDFeed.address,
+        fastGasFeed: gasPriceFeed.address,
+        wrappedNativeToken: randomAddress(),
+        chainModule: 'ChainModuleBase',
+        registrar: {
+          triggers: [
+            {
+              triggerType: 'condition',
+              autoApprove: 'all',
+              autoApproveMaxAllowed: 10,
+            },
+            {
+              triggerType: 'log',
+              autoApprove: 'all',
+              autoApproveMaxAllowed: 10,
+            },
+          ],
+        },
+        ocr: {
+          signers: donSigners(4).map((signer) => signer.address),
+          transmitters,
+          f: 1,
+          offchainConfigVersion: 1,
+          offchainConfig: '0x',
+        },
+        onchainConfig: {
+          checkGasLimit: 10000000,
+          maxPerformGas: 5000000,
+          maxCheckDataSize: 5000,
+          maxPerformDataSize: 2000,
+          maxRevertDataSize: 1000,
+          stalenessSeconds: 90000,
+          gasCeilingMultiplier: 2,
+          reorgProtectionEnabled: true,
+          upkeepPrivilegeManager: randomAddress(),
+          financeAdmin: randomAddress(),
+          fallbackGasPrice: 200,
+          fallbackPliPrice: 200000000,
+          fallbackNativePrice: 200000000,
+        },
+        billingTokens: [
+          {
+            token: pliToken.address,
+            gasFeePPB: 250000000,
+            flatFeeMilliCents: 0,
+            priceFeed: pliUSDFeed.address,
+            decimals: 18,
+            fallbackPrice: 200,
+            minSpend: toWei('0.1').toString(),
+            minRegistrationFee: toWei('1').toString(),
+          },
+        ],
+      }),
+    )
+    await hre.run('automation:deploy', {
+      automationConfig: configPath,
+      manifest: manifestPath,
+    })
+    await hre.run('automation:set-config', {
+      automationConfig: configPath,
+      manifest: manifestPath,
+    })
+    for (const [idx, target] of [upkeep1, upkeep2].entries()) {
+      await hre.run('automation:register-upkeep', {
+        manifest: manifestPath,
+        target: target.address,
+        name: `upkeep ${idx + 1}`,
+        gasLimit: 500000,
+        amount: toWei('5').toString(),
+      })
+    }
+    registry = await ethers.getContractAt(
+      'IAutomationRegistryMaster2_3',
+      readManifest(manifestPath).contracts.registry,
+    )
+  })
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  clock.scope()
+
+  const upkeepIds = () =>
+    readManifest(manifestPath).upkeeps.map((u) => u.id as string)
+
+  it('performs the eligible upkeeps checked at the latest block', async () => {
+    const [id1, id2] = upkeepIds()
+    await upkeep1.setCanCheck(true)
+    await upkeep1.setCanPerform(true)
+    await upkeep1.setPerformData('0x1234')
+
+    const round: DONRound = await hre.run('automation:run-don', {
+      manifest: manifestPath,
+      once: true,
+    })
+    assert.deepEqual(
+      round.checks.map((check) => [check.id.toString(), check.failureReason]),
+      [
+        [id1, UpkeepFailureReason.NONE],
+        [id2, UpkeepFailureReason.UPKEEP_NOT_NEEDED],
+      ],
+    )
+    assert.lengthOf(round.transmissions, 1)
+    const [transmission] = round.transmissions
+    assert.deepEqual(
+      transmission.performed.map((p) => [p.id.toString(), p.success]),
+      [[id1, true]],
+    )
+
+    const receipt = await ethers.provider.getTransactionReceipt(
+      transmission.txHash,
+    )
+    const [performed] = parseRegistryLogs(receipt.logs, 'UpkeepPerformed')
+    const trigger = decodeBlockTrigger(performed.args.trigger)
+    assert.equal(trigger.blockNum, round.blockNumber)
+    assert.equal(
+      trigger.blockHash,
+      (await ethers.provider.getBlock(round.blockNumber)).hash,
+      'reorg protection is on, so the trigger carries the block hash',
+    )
+    const [event] = await upkeep1.queryFilter(
+      upkeep1.filters.UpkeepPerformedWith(),
+      receipt.blockNumber,
+    )
+    assert.equal(event.args?.upkeepData, '0x1234')
+  })
+
+  it('splits upkeeps into as many reports as the gas budget needs', async () => {
+    for (const upkeep of [upkeep1, upkeep2]) {
+      await upkeep.setCanCheck(true)
+      await upkeep.setCanPerform(true)
+    }
+    const don = await AutomationDON.connect(registry.address, {
+      signers: donSigners(4),
+      transmitter: owner,
+      maxReportGas: 1_000_000,
+    })
+    assert.equal(don.version, '2.3')
+
+    const { transmissions } = await don.round()
+    assert.deepEqual(
+      transmissions.map((t) => t.upkeepIds.map((id) => id.toString())),
+      upkeepIds().map((id) => [id]),
+    )
+    for (const transmission of transmissions) {
+      assert.isTrue(transmission.performed[0].success)
+      const tx = await ethers.provider.getTransaction(transmission.txHash)
+      assert.isTrue(tx.gasLimit.lte(1_000_000))
+    }
+  })
+
+  it('runs a round on every new block until stopped', async () => {
+    await upkeep1.setCanCheck(true)
+    await upkeep1.setCanPerform(true)
+    const rounds: string[] = []
+    const don = await AutomationDON.connect(registry.address, {
+      signers: donSigners(4),
+      transmitter: owner,
+      log: (message) => rounds.push(message),
+    })
+    don.start(50)
+    await clock.mine()
+    while (!rounds.some((message) => message.startsWith('transmitted'))) {
+      await new Promise((resolve) => setTimeout(resolve, 50))
+    }
+    await don.stop()
+  })
+
+  it('rejects transmitters and signers the registry is not configured with', async () => {
+    const message = async (promise: Promise<unknown>) => {
+      try {
+        await promise
+      } catch (e) {
+        return (e as Error).message
+      }
+      return ''
+    }
+    assert.include(
+      await message(
+        AutomationDON.connect(registry.address, {
+          signers: donSigners(4),
+          transmitter: stranger,
+        }),
+      ),
+      'is not an active transmitter',
+    )
+
+    await upkeep1.setCanCheck(true)
+    const don = await AutomationDON.connect(registry.address, {
+      signers: donSigners(4, 'another DON'),
+      transmitter: owner,
+    })
+    assert.equal(
+      await message(don.round()),
+      `reports need 2 signatures, but only 0 of the DON's signers are configured on registry ${registry.address}`,
+    )
+  })
+
+  it('performs log upkeeps once for every log that triggers them', async () => {
+    const counter = await (
+      await ethers.getContractFactory('LogUpkeepCounter')
+    ).deploy(1000)
+    await hre.run('automation:register-upkeep', {
+      manifest: manifestPath,
+      target: counter.address,
+      name: 'log upkeep',
+      gasLimit: 500000,
+      amount: toWei('5').toString(),
+      triggerType: 'log',
+      triggerConfig: encodeLogTriggerConfig(
+        makeLogTriggerConfig(counter.address, ethers.utils.id('Trigger()')),
+      ),
+    })
+    const id = upkeepIds()[2]
+    const don = await AutomationDON.connect(registry.address, {
+      signers: donSigners(4),
+      transmitter: owner,
+    })
+
+    const startTx = await counter.start()
+    const round = await don.round()
+    const logChecks = round.checks.filter((check) => check.log !== undefined)
+    assert.deepEqual(
+      logChecks.map((check) => [check.id.toString(), check.failureReason]),
+      [[id, UpkeepFailureReason.NONE]],
+      'only the Trigger() log matches the config',
+    )
+    assert.equal(logChecks[0].log?.rawLog.transactionHash, startTx.hash)
+    const [transmission] = round.transmissions
+    assert.deepEqual(
+      transmission.performed.map((p) => [p.id.toString(), p.success]),
+      [[id, true]],
+    )
+    assert.equal((await counter.counter()).toNumber(), 1)
+    const receipt = await ethers.provider.getTransactionReceipt(
+      transmission.txHash,
+    )
+    const [performed] = parseRegistryLogs(receipt.logs, 'UpkeepPerformed')
+    const trigger = decodeLogTrigger(performed.args.trigger)
+    assert.equal(trigger.txHash, startTx.hash)
+    assert.equal(trigger.blockNum, round.blockNumber)
+
+    // the perform emitted Trigger() again, which is the only new log
+    const next = await don.round()
+    assert.deepEqual(
+      next.checks
+        .filter((check) => check.log !== undefined)
+        .map((check) => check.log?.rawLog.transactionHash),
+      [transmission.txHash],
+    )
+    assert.equal((await counter.counter()).toNumber(), 2)
+  })
+
+  it('completes StreamsLookups with the reports of a streams server', async () => {
+    const feedId = ethers.utils.id('ETH / USD')
+    const streamsUpkeep = await (
+      await ethers.getContractFactory('StreamsLookupUpkeep')
+    ).deploy(1000, 0, false, false, false)
+    await streamsUpkeep.setFeeds([feedId])
+    await hre.run('automation:register-upkeep', {
+      manifest: manifestPath,
+      target: streamsUpkeep.address,
+      name: 'streams upkeep',
+      gasLimit: 500000,
+      amount: toWei('5').toString(),
+    })
+    const id = upkeepIds().pop()
+    const server = await StreamsServer.start({
+      provider: ethers.provider,
+      feeds: [],
+    })
+
+    try {
+      const without = await AutomationDON.connect(registry.address, {
+        signers: donSigners(4),
+        transmitter: owner,
+      })
+      const [unresolved] = (await without.check()).filter(
+        (check) => check.id.toString() === id,
+      )
+      assert.equal(
+        unresolved.failureReason,
+        UpkeepFailureReason.TARGET_CHECK_REVERTED,
+      )
+
+      // the server rejects the lookup until it has the feed
+      const logs: string[] = []
+      const rejected = await AutomationDON.connect(registry.address, {
+        signers: donSigners(4),
+        transmitter: owner,
+        streamsUrl: server.url,
+        log: (message) => logs.push(message),
+      })
+      const [failed] = (await rejected.check()).filter(
+        (check) => check.id.toString() === id,
+      )
+      assert.deepEqual(failed, unresolved)
+      assert.isTrue(
+        logs.some((message) =>
+          message.startsWith(
+            `upkeep ${id} failed to look up streams reports: `,
+          ),
+        ),
+      )
+
+      server.setFeed({ feedId, price: 3000_00000000 })
+      const don = await AutomationDON.connect(registry.address, {
+        signers: donSigners(4),
+        transmitter: owner,
+        streamsUrl: server.url,
+      })
+      const round = await don.round()
+      const [check] = round.checks.filter((c) => c.id.toString() === id)
+      assert.equal(check.failureReason, UpkeepFailureReason.NONE)
+      assert.deepEqual(check.streams?.lookup.feeds, [feedId])
+      assert.deepEqual(
+        round.transmissions.flatMap((t) =>
+          t.performed.map((p) => [p.id.toString(), p.success]),
+        ),
+        [[id, true]],
+      )
+      const [event] = await streamsUpkeep.queryFilter(
+        streamsUpkeep.filters.MercuryPerformEvent(),
+      )
+      assert.equal(event.args?.v0, check.streams?.values[0])
+      assert.equal(
+        event.args?.ed,
+        '0x0000000000000000000000000000000000000064',
+        'the upkeep is called back with the extra data of its lookup',
+      )
+    } finally {
+      await server.stop()
+    }
+  })
+
+  describe('earlier registry versions', () => {
+    // the v2.1 onchain config, which v2.2 extends
+    const onchainConfig2_1 = {
+      paymentPremiumPPB: 250000000,
+      flatFeeMicroPli: 0,
+      checkGasLimit: 10000000,
+      stalenessSeconds: 90000,
+      gasCeilingMultiplier: 2,
+      minUpkeepSpend: 0,
+      maxCheckDataSize: 5000,
+      maxPerformDataSize: 2000,
+      maxRevertDataSize: 1000,
+      maxPerformGas: 5000000,
+      fallbackGasPrice: 200,
+      fallbackPliPrice: 200000000,
+      transcoder: ethers.constants.AddressZero,
+      registrars: [],
+      upkeepPrivilegeManager: randomAddress(),
+    }
+
+    const deployChainModule = async () =>
+      (await ethers.getContractFactory('ChainModuleBase')).deploy()
+
+    // register and fund an upkeep which needs to be performed, then run a round
+    const performUpkeep = async (
+      registryAddress: string,
+      register: (target: string, admin: string) => Promise<ContractTransaction>,
+    ) => {
+      const upkeep = await (
+        await ethers.getContractFactory('UpkeepMock')
+      ).deploy()
+      await upkeep.setCanCheck(true)
+      await upkeep.setCanPerform(true)
+      const tx = await register(upkeep.address, await owner.getAddress())
+      const [registered] = parseRegistryLogs(
+        (await tx.wait()).logs,
+        'UpkeepRegistered',
+      )
+      const id: BigNumber = registered.args.id
+      const admin = new Contract(
+        registryAddress,
+        ['function addFunds(uint256 id, uint96 amount)'],
+        owner,
+      )
+      await pliToken.approve(registryAddress, toWei('5'))
+      await admin.addFunds(id, toWei('5'))
+
+      const don = await AutomationDON.connect(registryAddress, {
+        signers: donSigners(4),
+        transmitter: owner,
+      })
+      const round = await don.round()
+      assert.deepEqual(
+        round.transmissions.flatMap((t) =>
+          t.performed.map((p) => [p.id.toString(), p.success]),
+        ),
+        [[id.toString(), true]],
+      )
+      const receipt = await ethers.provider.getTransactionReceipt(
+        round.transmissions[0].txHash,
+      )
+      const [performed] = parseRegistryLogs(receipt.logs, 'UpkeepPerformed')
+      return {
+        don,
+        blockHash: (await ethers.provider.getBlock(round.blockNumber)).hash,
+        trigger: decodeBlockTrigger(performed.args.trigger),
+      }
+    }
+
+    it('performs upkeeps on v2.1 registries, which always protect against reorgs', async () => {
+      const registry21 = await deployRegistry21(
+        owner,
+        0,
+        pliToken.address,
+        pliNativeFeed.address,
+        gasPriceFeed.address,
+      )
+      await registry21.setConfigTypeSafe(
+        donSigners(4).map((signer) => signer.address),
+        transmitters,
+        1,
+        onchainConfig2_1,
+        1,
+        '0x',
+      )
+      // v2.1 only simulates checks from 0x0, so the upkeep is only checked if
+      // the DON calls from it
+      const { don, blockHash, trigger } = await performUpkeep(
+        registry21.address,
+        (target, admin) =>
+          registry21.functions[
+            'registerUpkeep(address,uint32,address,uint8,bytes,bytes,bytes)'
+          ](target, 500000, admin, Trigger.CONDITION, '0x', '0x', '0x'),
+      )
+      assert.equal(don.version, '2.1')
+      assert.equal(trigger.blockHash, blockHash)
+    })
+
+    it('performs upkeeps on v2.2 registries, with their read only address and reorg protection', async () => {
+      // the other address upkeeps let simulate their checks, so the upkeep is
+      // only checked if the DON calls from the registry's read only address
+      const registry22 = await deployRegistry22(
+        owner,
+        pliToken.address,
+        pliNativeFeed.address,
+        gasPriceFeed.address,
+        '0x1111111111111111111111111111111111111111',
+      )
+      await registry22.setConfigTypeSafe(
+        donSigners(4).map((signer) => signer.address),
+        transmitters,
+        1,
+        {
+          ...onchainConfig2_1,
+          chainModule: (await deployChainModule()).address,
+          reorgProtectionEnabled: false,
+        },
+        1,
+        '0x',
+      )
+      const { don, trigger } = await performUpkeep(
+        registry22.address,
+        (target, admin) =>
+          registry22.functions[
+            'registerUpkeep(address,uint32,address,uint8,bytes,bytes,bytes)'
+          ](target, 500000, admin, Trigger.CONDITION, '0x', '0x', '0x'),
+      )
+      assert.equal(don.version, '2.2')
+      assert.equal(
+        trigger.blockHash,
+        ethers.constants.HashZero,
+        'reorg protection is off, so the trigger leaves out the block hash',
+      )
+    })
+
+    it('performs upkeeps on ZKSync v2.3 registries', async () => {
+      // the ZKSync forwarder calls system contracts, which are mocked where
+      // they're deployed on ZKSync
+      const systemContracts = {
+        '0x000000000000000000000000000000000000800B': 'MockZKSyncSystemContext',
+        '0xc706EC7dfA5D4Dc87f29f859094165E8290530f5': 'MockGasBoundCaller',
+      }
+      for (const [address, name] of Object.entries(systemContracts)) {
+        const mock = await (await ethers.getContractFactory(name)).deploy()
+        await ethers.provider.send('hardhat_setCode', [
+          address,
+          await ethers.provider.getCode(mock.address),
+        ])
+      }
+      const registry23 = await deployZKSyncRegistry23(
+        owner,
+        pliToken.address,
+        pliUSDFeed.address,
+        nativeUSDFeed.address,
+        gasPriceFeed.address,
+        ethers.constants.AddressZero,
+        0, // onchain payout mode
+        randomAddress(),
+      )
+      await registry23.setConfigTypeSafe(
+        donSigners(4).map((signer) => signer.address),
+        transmitters,
+        1,
+        {
+          checkGasLimit: 10000000,
+          stalenessSeconds: 90000,
+          gasCeilingMultiplier: 2,
+          maxCheckDataSize: 5000,
+          maxPerformDataSize: 2000,
+          maxRevertDataSize: 1000,
+          maxPerformGas: 5000000,
+          fallbackGasPrice: 200,
+          fallbackPliPrice: 200000000,
+          fallbackNativePrice: 200000000,
+          transcoder: ethers.constants.AddressZero,
+          registrars: [],
+          upkeepPrivilegeManager: randomAddress(),
+          chainModule: (await deployChainModule()).address,
+          reorgProtectionEnabled: true,
+          financeAdmin: randomAddress(),
+        },
+        1,
+        '0x',
+        [pliToken.address],
+        [
+          {
+            gasFeePPB: 250000000,
+            flatFeeMilliCents: 0,
+            priceFeed: pliUSDFeed.address,
+            fallbackPrice: 200,
+            minSpend: 0,
+            decimals: 18,
+          },
+        ],
+      )
+      const { don, blockHash, trigger } = await performUpkeep(
+        registry23.address,
+        (target, admin) =>
+          registry23.registerUpkeep(
+            target,
+            500000,
+            admin,
+            Trigger.CONDITION,
+            pliToken.address,
+            '0x',
+            '0x',
+            '0x',
+          ),
+      )
+      assert.equal(
+        don.version,
+        'zksync-2.3',
+        'ZKSync registries have the same typeAndVersion, but no calldata overheads',
+      )
+      assert.equal(trigger.blockHash, blockHash)
+    })
+  })
+})
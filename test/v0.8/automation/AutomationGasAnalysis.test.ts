@@ -1,46 +1,88 @@
 import { ethers } from 'hardhat'
-import { BigNumber } from 'ethers'
-import { expect, assert } from 'chai'
+import { BigNumber, Contract, ContractTransaction, Signer } from 'ethers'
+import { assert } from 'chai'
 import { getUsers } from '../../test-helpers/setup'
 import { randomAddress, toWei } from '../../test-helpers/helpers'
-import { deployRegistry21 } from './helpers'
+import {
+  deployRegistry21,
+  deployRegistry22,
+  deployRegistry23,
+  deployZKSyncRegistry23,
+} from './helpers'
+import { GasRecorder } from '../../test-helpers/gasSnapshot'
+import { GasTable } from '../../test-helpers/gasTable'
+import {
+  encodeReport,
+  makeReportContext,
+  signReport,
+} from '../../test-helpers/automation/report'
+import {
+  Trigger,
+  encodeBlockTrigger,
+  encodeLogTrigger,
+  encodeLogTriggerConfig,
+  getUpkeepID,
+  makeLogTriggerConfig,
+} from '../../test-helpers/automation/upkeep'
+import { parseRegistryLogs } from '../../test-helpers/automation/indexer'
+import { IKeeperRegistryMaster as IKeeperRegistry } from '../../../typechain/IKeeperRegistryMaster'
+import { IAutomationRegistryMaster as IAutomationRegistry } from '../../../typechain/IAutomationRegistryMaster'
+import { KeeperRegistry1_2__factory as KeeperRegistry1_2Factory } from '../../../typechain/factories/KeeperRegistry1_2__factory'
 
-// don't run these tests in CI
-const describeMaybe = process.env.CI ? describe.skip : describe
+// This suite benchmarks the gas used by the same upkeep lifecycle on every
+// registry version, to decide when it's worth migrating upkeeps. The results
+// are written to AUTOMATION_GAS_REPORT if it's set (as CSV if the path ends in
+// .csv), or printed as a Markdown table if it's "-":
+//
+//   AUTOMATION_GAS_REPORT=automation-gas.csv pnpm hardhat test test/v0.8/automation/AutomationGasAnalysis.test.ts
+
+// the suite is slow, so it only runs when its gas is being snapshotted or
+// reported, which includes `pnpm test:gas` in CI
+const describeMaybe =
+  process.env.GAS_SNAPSHOT || process.env.AUTOMATION_GAS_REPORT
+    ? describe
+    : describe.skip
+
+const { AddressZero: zeroAddress } = ethers.constants
 
 // registry settings
 const f = 1
 const pliEth = BigNumber.from(300000000)
+const pliUSD = BigNumber.from('2000000000') // 1 PLI = $20
+const nativeUSD = BigNumber.from('400000000000') // 1 ETH = $4000
 const gasWei = BigNumber.from(100)
 const minUpkeepSpend = BigNumber.from('1000000000000000000')
 const paymentPremiumPPB = BigNumber.from(250000000)
 const flatFeeMicroPli = BigNumber.from(0)
+const flatFeeMilliCents = BigNumber.from(0)
 const blockCountPerTurn = 20
 const checkGasLimit = BigNumber.from(20000000)
 const fallbackGasPrice = BigNumber.from(200)
 const fallbackPliPrice = BigNumber.from(200000000)
+const fallbackNativePrice = nativeUSD.div(2)
 const maxCheckDataSize = BigNumber.from(10000)
 const maxPerformDataSize = BigNumber.from(10000)
 const maxRevertDataSize = BigNumber.from(1000)
 const maxPerformGas = BigNumber.from(5000000)
 const stalenessSeconds = BigNumber.from(43820)
 const gasCeilingMultiplier = BigNumber.from(1)
-const signers = [
-  randomAddress(),
-  randomAddress(),
-  randomAddress(),
-  randomAddress(),
-]
-const transmitters = [
+const registryGasOverhead = BigNumber.from(80000) // v1.3
+const cancellationDelay = 50 // the same in every version
+const wrappedNativeTokenAddress = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
+const signers = [1, 2, 3, 4].map(
+  (i) => new ethers.Wallet('0x' + '7777777'.padEnd(63, '0') + i),
+)
+const signerAddresses = signers.map((signer) => signer.address)
+const payees = [
   randomAddress(),
   randomAddress(),
   randomAddress(),
   randomAddress(),
 ]
-const transcoder = ethers.constants.AddressZero
+const transcoder = zeroAddress
 
 // registrar settings
-const triggerType = 0 // conditional
+const triggerType = Trigger.CONDITION
 const autoApproveType = 2 // auto-approve enabled
 const autoApproveMaxAllowed = 100 // auto-approve enabled
 
@@ -50,94 +92,398 @@ const encryptedEmail = '0xabcd1234'
 const gasLimit = 100_000
 const checkData = '0xdeadbeef'
 const amount = toWei('5')
+const fundAmount = toWei('1')
 const source = 5
-const triggerConfig = '0x'
 const offchainConfig = '0x'
+const logTriggerConfig = encodeLogTriggerConfig(
+  makeLogTriggerConfig(
+    randomAddress(),
+    ethers.utils.id('Transfer(address,address,uint256)'),
+  ),
+)
 
-describeMaybe('Automation Gas Analysis', () => {
-  it('Compares gas usage amongst registries / registrars', async () => {
-    assert(
-      Boolean(process.env.REPORT_GAS),
-      'this test must be run with REPORT_GAS=true',
-    )
+const batchSizes = [1, 5, 10]
 
-    const personas = (await getUsers()).personas
-    const owner = personas.Default
-    const ownerAddress = await owner.getAddress()
+const triggerNames = {
+  [Trigger.CONDITION]: 'conditional',
+  [Trigger.LOG]: 'log',
+}
 
-    // factories
-    const getFact = ethers.getContractFactory
-    const pliTokenFactory = await getFact('PliToken')
-    const mockV3AggregatorFactory = await getFact(
-      'src/v0.8/tests/MockV3Aggregator.sol:MockV3Aggregator',
+const transmitOperation = (trigger: Trigger, upkeeps: number) =>
+  `transmit (${triggerNames[trigger]}, ${upkeeps} upkeep${
+    upkeeps === 1 ? '' : 's'
+  })`
+
+const operations = [
+  'register',
+  'addFunds',
+  ...[Trigger.CONDITION, Trigger.LOG].flatMap((trigger) =>
+    batchSizes.map((size) => transmitOperation(trigger, size)),
+  ),
+  'pauseUpkeep',
+  'cancelUpkeep',
+  'withdrawFunds',
+]
+
+// upkeeps are administered with the same functions in every version
+const upkeepAdminABI = [
+  'function addFunds(uint256 id, uint96 amount)',
+  'function pauseUpkeep(uint256 id)',
+  'function cancelUpkeep(uint256 id)',
+  'function withdrawFunds(uint256 id, address to)',
+]
+
+// and v2.0+ registries are all OCR2 contracts
+const ocrABI = [
+  'function latestConfigDetails() view returns (uint32 configCount, uint32 blockNumber, bytes32 configDigest)',
+  'function transmit(bytes32[3] reportContext, bytes rawReport, bytes32[] rs, bytes32[] ss, bytes32 rawVs)',
+]
+
+/**
+ * The accounts and contracts shared by every registry under benchmark
+ */
+type BenchmarkEnv = {
+  owner: Signer
+  admin: Signer
+  adminAddress: string
+  keepers: Signer[]
+  keeperAddresses: string[]
+  pliToken: Contract
+  pliEthFeed: Contract
+  pliUSDFeed: Contract
+  nativeUSDFeed: Contract
+  gasPriceFeed: Contract
+  upkeep: Contract
+}
+
+/**
+ * A registry deployed for benchmarking, along with the registrar its upkeeps
+ * are registered through
+ */
+type RegistryBenchmark = {
+  registry: string
+  triggers: Trigger[]
+  batchSizes: number[]
+  pausable: boolean
+  /**
+   * Register and fund an upkeep through the registrar, as the admin
+   */
+  register(): Promise<ContractTransaction>
+  /**
+   * Register an unfunded upkeep directly with the registry, as the owner
+   */
+  registerUpkeep(trigger: Trigger): Promise<ContractTransaction>
+  /**
+   * Perform upkeeps, with a signed report from a transmitter in v2.0+ and with
+   * performUpkeep from a keeper in v1.x
+   */
+  perform(ids: BigNumber[], trigger: Trigger): Promise<ContractTransaction>
+}
+
+const triggerConfig = (trigger: Trigger) =>
+  trigger === Trigger.LOG ? logTriggerConfig : '0x'
+
+async function encodeTrigger(trigger: Trigger): Promise<string> {
+  const block = await ethers.provider.getBlock('latest')
+  if (trigger === Trigger.LOG) {
+    return encodeLogTrigger({
+      logBlockHash: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+      txHash: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+      logIndex: 0,
+      blockNum: block.number,
+      blockHash: block.hash,
+    })
+  }
+  return encodeBlockTrigger({ blockNum: block.number, blockHash: block.hash })
+}
+
+// v2.1 and v2.2 reports have the PLI / native price where v2.3 reports have
+// the PLI / USD price, but are otherwise the same
+async function makeReport(
+  ids: BigNumber[],
+  trigger: Trigger,
+  pliPrice: BigNumber,
+): Promise<string> {
+  const encodedTrigger = await encodeTrigger(trigger)
+  return encodeReport({
+    fastGasWei: gasWei,
+    pliUSD: pliPrice,
+    upkeepIds: ids,
+    gasLimits: ids.map(() => gasLimit),
+    triggers: ids.map(() => encodedTrigger),
+    performDatas: ids.map(() => '0x'),
+  })
+}
+
+async function transmit(
+  env: BenchmarkEnv,
+  registryAddress: string,
+  report: string,
+): Promise<ContractTransaction> {
+  const registry = new ethers.Contract(registryAddress, ocrABI, env.keepers[0])
+  const { configDigest } = await registry.latestConfigDetails()
+  const reportContext = makeReportContext(configDigest)
+  const sigs = signReport(reportContext, report, signers.slice(0, f + 1))
+  return registry.transmit(reportContext, report, sigs.rs, sigs.ss, sigs.vs)
+}
+
+// v1.2 and v1.3 registries are deployed with the same config
+type RegistryConfig1_x = Parameters<KeeperRegistry1_2Factory['deploy']>[3]
+
+async function deployRegistry1_x(
+  env: BenchmarkEnv,
+  deployRegistry: (config: RegistryConfig1_x) => Promise<Contract>,
+  pausable: boolean,
+): Promise<RegistryBenchmark> {
+  const registrar = await (await ethers.getContractFactory('KeeperRegistrar'))
+    .connect(env.owner)
+    .deploy(
+      env.pliToken.address,
+      autoApproveType,
+      autoApproveMaxAllowed,
+      zeroAddress, // set once the registry is deployed
+      minUpkeepSpend,
     )
-    const upkeepMockFactory = await getFact('UpkeepMock')
-    const registry12Factory = await getFact('KeeperRegistry1_2')
-    const registrar12Factory = await getFact('KeeperRegistrar')
-    const registry20Factory = await getFact('KeeperRegistry2_0')
-    const registryLogic20Factory = await getFact('KeeperRegistryLogic2_0')
-    const registrar20Factory = await getFact('KeeperRegistrar2_0')
-    const registrar21Factory = await getFact('AutomationRegistrar2_1')
-    const forwarderLogicFactory = await getFact('AutomationForwarderLogic')
-
-    // deploy dependancy contracts
-    const pliToken = await pliTokenFactory.connect(owner).deploy()
-    const gasPriceFeed = await mockV3AggregatorFactory
-      .connect(owner)
-      .deploy(0, gasWei)
-    const pliEthFeed = await mockV3AggregatorFactory
-      .connect(owner)
-      .deploy(9, pliEth)
-    const upkeep = await upkeepMockFactory.connect(owner).deploy()
+  const registry = await deployRegistry({
+    paymentPremiumPPB,
+    flatFeeMicroPli,
+    blockCountPerTurn,
+    checkGasLimit,
+    stalenessSeconds,
+    gasCeilingMultiplier,
+    minUpkeepSpend,
+    maxPerformGas,
+    fallbackGasPrice,
+    fallbackPliPrice,
+    transcoder,
+    registrar: registrar.address,
+  })
+  await registrar
+    .connect(env.owner)
+    .setRegistrationConfig(
+      autoApproveType,
+      autoApproveMaxAllowed,
+      registry.address,
+      minUpkeepSpend,
+    )
+  await registry.connect(env.owner).setKeepers(env.keeperAddresses, payees)
 
-    // deploy v1.2
-    const registrar12 = await registrar12Factory.connect(owner).deploy(
-      pliToken.address,
+  return {
+    registry: registry.address,
+    triggers: [Trigger.CONDITION],
+    batchSizes: [1],
+    pausable,
+    register: () =>
+      env.pliToken
+        .connect(env.admin)
+        .transferAndCall(
+          registrar.address,
+          amount,
+          registrar.interface.encodeFunctionData('register', [
+            name,
+            encryptedEmail,
+            env.upkeep.address,
+            gasLimit,
+            env.adminAddress,
+            checkData,
+            amount,
+            source,
+            env.adminAddress,
+          ]),
+        ),
+    registerUpkeep: () =>
+      registry
+        .connect(env.owner)
+        .registerUpkeep(
+          env.upkeep.address,
+          gasLimit,
+          env.adminAddress,
+          checkData,
+        ),
+    perform: (ids) =>
+      registry.connect(env.keepers[0]).performUpkeep(ids[0], '0x'),
+  }
+}
+
+async function deployRegistry2_0(
+  env: BenchmarkEnv,
+): Promise<RegistryBenchmark> {
+  const logic = await (
+    await ethers.getContractFactory('KeeperRegistryLogic2_0')
+  )
+    .connect(env.owner)
+    .deploy(
+      0,
+      env.pliToken.address,
+      env.pliEthFeed.address,
+      env.gasPriceFeed.address,
+    )
+  const registry = await (await ethers.getContractFactory('KeeperRegistry2_0'))
+    .connect(env.owner)
+    .deploy(logic.address)
+  const registrar = await (
+    await ethers.getContractFactory('KeeperRegistrar2_0')
+  )
+    .connect(env.owner)
+    .deploy(
+      env.pliToken.address,
       autoApproveType,
       autoApproveMaxAllowed,
-      ethers.constants.AddressZero, // set later
+      registry.address,
       minUpkeepSpend,
     )
-    const registry12 = await registry12Factory
-      .connect(owner)
-      .deploy(pliToken.address, pliEthFeed.address, gasPriceFeed.address, {
+  const onchainConfig = ethers.utils.defaultAbiCoder.encode(
+    [
+      'tuple(uint32 paymentPremiumPPB,uint32 flatFeeMicroPli,uint32 checkGasLimit,uint24 stalenessSeconds,uint16 gasCeilingMultiplier,uint96 minUpkeepSpend,uint32 maxPerformGas,uint32 maxCheckDataSize,uint32 maxPerformDataSize,uint256 fallbackGasPrice,uint256 fallbackPliPrice,address transcoder,address registrar)',
+    ],
+    [
+      {
         paymentPremiumPPB,
         flatFeeMicroPli,
-        blockCountPerTurn,
         checkGasLimit,
         stalenessSeconds,
         gasCeilingMultiplier,
         minUpkeepSpend,
+        maxCheckDataSize,
+        maxPerformDataSize,
         maxPerformGas,
         fallbackGasPrice,
         fallbackPliPrice,
         transcoder,
-        registrar: registrar12.address,
+        registrar: registrar.address,
+      },
+    ],
+  )
+  await registry
+    .connect(env.owner)
+    .setConfig(signerAddresses, env.keeperAddresses, f, onchainConfig, 1, '0x')
+
+  return {
+    registry: registry.address,
+    triggers: [Trigger.CONDITION],
+    batchSizes,
+    pausable: true,
+    register: async () => {
+      await env.pliToken.connect(env.admin).approve(registrar.address, amount)
+      return registrar.connect(env.admin).registerUpkeep({
+        name,
+        encryptedEmail,
+        upkeepContract: env.upkeep.address,
+        gasLimit,
+        adminAddress: env.adminAddress,
+        checkData,
+        amount,
+        offchainConfig,
       })
-    await registrar12.setRegistrationConfig(
-      autoApproveType,
-      autoApproveMaxAllowed,
-      registry12.address,
-      minUpkeepSpend,
-    )
+    },
+    registerUpkeep: () =>
+      registry
+        .connect(env.owner)
+        .registerUpkeep(
+          env.upkeep.address,
+          gasLimit,
+          env.adminAddress,
+          checkData,
+          offchainConfig,
+        ),
+    perform: async (ids) => {
+      // v2.0 reports wrap each perform data with the block it was checked at
+      const block = await ethers.provider.getBlock('latest')
+      const report = ethers.utils.defaultAbiCoder.encode(
+        [
+          'uint256',
+          'uint256',
+          'uint256[]',
+          'tuple(uint32 checkBlockNumber, bytes32 checkBlockhash, bytes performData)[]',
+        ],
+        [
+          gasWei,
+          pliEth,
+          ids,
+          ids.map(() => ({
+            checkBlockNumber: block.number,
+            checkBlockhash: block.hash,
+            performData: '0x',
+          })),
+        ],
+      )
+      return transmit(env, registry.address, report)
+    },
+  }
+}
 
-    // deploy v2.0
-    const registryLogic20 = await registryLogic20Factory
-      .connect(owner)
-      .deploy(0, pliToken.address, pliEthFeed.address, gasPriceFeed.address)
-    const registry20 = await registry20Factory
-      .connect(owner)
-      .deploy(registryLogic20.address)
-    const registrar20 = await registrar20Factory
-      .connect(owner)
-      .deploy(
-        pliToken.address,
-        autoApproveType,
-        autoApproveMaxAllowed,
-        registry20.address,
-        minUpkeepSpend,
+async function deployRegistrar2_1(
+  env: BenchmarkEnv,
+  registry: string,
+): Promise<Contract> {
+  return (await ethers.getContractFactory('AutomationRegistrar2_1'))
+    .connect(env.owner)
+    .deploy(env.pliToken.address, registry, minUpkeepSpend, [
+      { triggerType, autoApproveType, autoApproveMaxAllowed },
+    ])
+}
+
+// v2.2 uses the v2.1 registrar, and registers upkeeps the same way
+function registryBenchmark2_x(
+  env: BenchmarkEnv,
+  registry: IKeeperRegistry | IAutomationRegistry,
+  registrar: Contract,
+): RegistryBenchmark {
+  return {
+    registry: registry.address,
+    triggers: [Trigger.CONDITION, Trigger.LOG],
+    batchSizes,
+    pausable: true,
+    register: async () => {
+      await env.pliToken.connect(env.admin).approve(registrar.address, amount)
+      return registrar.connect(env.admin).registerUpkeep({
+        name,
+        encryptedEmail,
+        upkeepContract: env.upkeep.address,
+        gasLimit,
+        adminAddress: env.adminAddress,
+        triggerType,
+        checkData,
+        triggerConfig: '0x',
+        offchainConfig,
+        amount,
+      })
+    },
+    registerUpkeep: (trigger) => {
+      const register = registry.connect(env.owner).functions[
+        'registerUpkeep(address,uint32,address,uint8,bytes,bytes,bytes)'
+      ]
+      return register(
+        env.upkeep.address,
+        gasLimit,
+        env.adminAddress,
+        trigger,
+        checkData,
+        triggerConfig(trigger),
+        offchainConfig,
       )
-    const config20 = {
+    },
+    perform: async (ids, trigger) =>
+      transmit(env, registry.address, await makeReport(ids, trigger, pliEth)),
+  }
+}
+
+async function deployRegistry2_1(
+  env: BenchmarkEnv,
+): Promise<RegistryBenchmark> {
+  const registry = await deployRegistry21(
+    env.owner,
+    0,
+    env.pliToken.address,
+    env.pliEthFeed.address,
+    env.gasPriceFeed.address,
+  )
+  const registrar = await deployRegistrar2_1(env, registry.address)
+  await registry.connect(env.owner).setConfigTypeSafe(
+    signerAddresses,
+    env.keeperAddresses,
+    f,
+    {
       paymentPremiumPPB,
       flatFeeMicroPli,
       checkGasLimit,
@@ -146,45 +492,39 @@ describeMaybe('Automation Gas Analysis', () => {
       minUpkeepSpend,
       maxCheckDataSize,
       maxPerformDataSize,
+      maxRevertDataSize,
       maxPerformGas,
       fallbackGasPrice,
       fallbackPliPrice,
       transcoder,
-      registrar: registrar20.address,
-    }
-    const onchainConfig20 = ethers.utils.defaultAbiCoder.encode(
-      [
-        'tuple(uint32 paymentPremiumPPB,uint32 flatFeeMicroPli,uint32 checkGasLimit,uint24 stalenessSeconds\
-            ,uint16 gasCeilingMultiplier,uint96 minUpkeepSpend,uint32 maxPerformGas,uint32 maxCheckDataSize,\
-            uint32 maxPerformDataSize,uint256 fallbackGasPrice,uint256 fallbackPliPrice,address transcoder,\
-            address registrar)',
-      ],
-      [config20],
-    )
-    await registry20
-      .connect(owner)
-      .setConfig(signers, transmitters, f, onchainConfig20, 1, '0x')
+      registrars: [registrar.address],
+      upkeepPrivilegeManager: randomAddress(),
+    },
+    1,
+    '0x',
+  )
+  return registryBenchmark2_x(env, registry, registrar)
+}
 
-    // deploy v2.1
-    const forwarderLogic = await forwarderLogicFactory.connect(owner).deploy()
-    const registry21 = await deployRegistry21(
-      owner,
-      0,
-      pliToken.address,
-      pliEthFeed.address,
-      gasPriceFeed.address,
-      forwarderLogic.address,
-    )
-    const registrar21 = await registrar21Factory
-      .connect(owner)
-      .deploy(pliToken.address, registry21.address, minUpkeepSpend, [
-        {
-          triggerType,
-          autoApproveType,
-          autoApproveMaxAllowed,
-        },
-      ])
-    const onchainConfig21 = {
+async function deployRegistry2_2(
+  env: BenchmarkEnv,
+): Promise<RegistryBenchmark> {
+  const chainModule = await (await ethers.getContractFactory('ChainModuleBase'))
+    .connect(env.owner)
+    .deploy()
+  const registry = await deployRegistry22(
+    env.owner,
+    env.pliToken.address,
+    env.pliEthFeed.address,
+    env.gasPriceFeed.address,
+    zeroAddress,
+  )
+  const registrar = await deployRegistrar2_1(env, registry.address)
+  await registry.connect(env.owner).setConfigTypeSafe(
+    signerAddresses,
+    env.keeperAddresses,
+    f,
+    {
       paymentPremiumPPB,
       flatFeeMicroPli,
       checkGasLimit,
@@ -198,61 +538,321 @@ describeMaybe('Automation Gas Analysis', () => {
       fallbackGasPrice,
       fallbackPliPrice,
       transcoder,
-      registrars: [registrar21.address],
+      registrars: [registrar.address],
       upkeepPrivilegeManager: randomAddress(),
-    }
-    await registry21
-      .connect(owner)
-      .setConfigTypeSafe(signers, transmitters, f, onchainConfig21, 1, '0x')
+      chainModule: chainModule.address,
+      reorgProtectionEnabled: true,
+    },
+    1,
+    '0x',
+  )
+  return registryBenchmark2_x(env, registry, registrar)
+}
 
-    // approve PLI
-    await pliToken.connect(owner).approve(registrar20.address, amount)
-    await pliToken.connect(owner).approve(registrar21.address, amount)
+async function deployRegistry2_3(
+  env: BenchmarkEnv,
+  deployRegistry: typeof deployRegistry23,
+): Promise<RegistryBenchmark> {
+  const chainModule = await (await ethers.getContractFactory('ChainModuleBase'))
+    .connect(env.owner)
+    .deploy()
+  const registry = await deployRegistry(
+    env.owner,
+    env.pliToken.address,
+    env.pliUSDFeed.address,
+    env.nativeUSDFeed.address,
+    env.gasPriceFeed.address,
+    zeroAddress,
+    0, // onchain payout mode
+    wrappedNativeTokenAddress,
+  )
+  const registrar = await (
+    await ethers.getContractFactory('AutomationRegistrar2_3')
+  )
+    .connect(env.owner)
+    .deploy(
+      env.pliToken.address,
+      registry.address,
+      [{ triggerType, autoApproveType, autoApproveMaxAllowed }],
+      [env.pliToken.address],
+      [minUpkeepSpend],
+      wrappedNativeTokenAddress,
+    )
+  await registry.connect(env.owner).setConfigTypeSafe(
+    signerAddresses,
+    env.keeperAddresses,
+    f,
+    {
+      checkGasLimit,
+      stalenessSeconds,
+      gasCeilingMultiplier,
+      maxCheckDataSize,
+      maxPerformDataSize,
+      maxRevertDataSize,
+      maxPerformGas,
+      fallbackGasPrice,
+      fallbackPliPrice,
+      fallbackNativePrice,
+      transcoder,
+      registrars: [registrar.address],
+      upkeepPrivilegeManager: randomAddress(),
+      chainModule: chainModule.address,
+      reorgProtectionEnabled: true,
+      financeAdmin: await env.owner.getAddress(),
+    },
+    1,
+    '0x',
+    [env.pliToken.address],
+    [
+      {
+        gasFeePPB: paymentPremiumPPB,
+        flatFeeMilliCents,
+        priceFeed: env.pliUSDFeed.address,
+        fallbackPrice: fallbackPliPrice,
+        minSpend: minUpkeepSpend,
+        decimals: 18,
+      },
+    ],
+  )
 
-    const abiEncodedBytes = registrar12.interface.encodeFunctionData(
-      'register',
-      [
+  return {
+    registry: registry.address,
+    triggers: [Trigger.CONDITION, Trigger.LOG],
+    batchSizes,
+    pausable: true,
+    register: async () => {
+      await env.pliToken.connect(env.admin).approve(registrar.address, amount)
+      return registrar.connect(env.admin).registerUpkeep({
+        upkeepContract: env.upkeep.address,
+        amount,
+        adminAddress: env.adminAddress,
+        gasLimit,
+        triggerType,
+        billingToken: env.pliToken.address,
         name,
         encryptedEmail,
-        upkeep.address,
-        gasLimit,
-        ownerAddress,
         checkData,
-        amount,
-        source,
-        ownerAddress,
-      ],
-    )
+        triggerConfig: '0x',
+        offchainConfig,
+      })
+    },
+    registerUpkeep: (trigger) =>
+      registry
+        .connect(env.owner)
+        .registerUpkeep(
+          env.upkeep.address,
+          gasLimit,
+          env.adminAddress,
+          trigger,
+          env.pliToken.address,
+          checkData,
+          triggerConfig(trigger),
+          offchainConfig,
+        ),
+    perform: async (ids, trigger) =>
+      transmit(env, registry.address, await makeReport(ids, trigger, pliUSD)),
+  }
+}
+
+async function deployZKSyncRegistry2_3(
+  env: BenchmarkEnv,
+): Promise<RegistryBenchmark> {
+  // the ZKSync registry calls system contracts, which are mocked at their
+  // addresses on ZKSync
+  const systemContracts = {
+    MockZKSyncSystemContext: '0x000000000000000000000000000000000000800B',
+    MockGasBoundCaller: '0xc706EC7dfA5D4Dc87f29f859094165E8290530f5',
+  }
+  for (const [contract, address] of Object.entries(systemContracts)) {
+    const mock = await (await ethers.getContractFactory(contract))
+      .connect(env.owner)
+      .deploy()
+    const code = await ethers.provider.send('eth_getCode', [mock.address])
+    await ethers.provider.send('hardhat_setCode', [address, code])
+  }
+  return deployRegistry2_3(env, deployZKSyncRegistry23)
+}
+
+// the registries to benchmark, in the order of the report's columns
+const registryBenchmarks: {
+  [version: string]: (env: BenchmarkEnv) => Promise<RegistryBenchmark>
+} = {
+  'v1.2': (env) =>
+    deployRegistry1_x(
+      env,
+      async (config) =>
+        (await ethers.getContractFactory('KeeperRegistry1_2'))
+          .connect(env.owner)
+          .deploy(
+            env.pliToken.address,
+            env.pliEthFeed.address,
+            env.gasPriceFeed.address,
+            config,
+          ),
+      false,
+    ),
+  'v1.3': (env) =>
+    deployRegistry1_x(
+      env,
+      async (config) => {
+        const logic = await (
+          await ethers.getContractFactory('KeeperRegistryLogic1_3')
+        )
+          .connect(env.owner)
+          .deploy(
+            0,
+            registryGasOverhead,
+            env.pliToken.address,
+            env.pliEthFeed.address,
+            env.gasPriceFeed.address,
+          )
+        return (await ethers.getContractFactory('KeeperRegistry1_3'))
+          .connect(env.owner)
+          .deploy(logic.address, config)
+      },
+      true,
+    ),
+  'v2.0': deployRegistry2_0,
+  'v2.1': deployRegistry2_1,
+  'v2.2': deployRegistry2_2,
+  'v2.3': (env) => deployRegistry2_3(env, deployRegistry23),
+  'ZKSync v2.3': deployZKSyncRegistry2_3,
+}
+
+describeMaybe('Automation Gas Analysis', () => {
+  const gas = new GasRecorder('AutomationGasAnalysis', { relative: 0.01 })
+  const table = new GasTable(
+    'operation',
+    Object.keys(registryBenchmarks),
+    operations,
+  )
+  let env: BenchmarkEnv
+
+  before(async () => {
+    const personas = (await getUsers()).personas
+    const owner = personas.Default
+    const admin = personas.Neil
+    const keepers = [
+      personas.Carol,
+      personas.Eddy,
+      personas.Nancy,
+      personas.Ned,
+    ]
 
-    let tx = await pliToken
+    const mockV3AggregatorFactory = await ethers.getContractFactory(
+      'src/v0.8/tests/MockV3Aggregator.sol:MockV3Aggregator',
+    )
+    const pliToken = await (
+      await ethers.getContractFactory(
+        'src/v0.8/shared/test/helpers/PliTokenTestHelper.sol:PliTokenTestHelper',
+      )
+    )
       .connect(owner)
-      .transferAndCall(registrar12.address, amount, abiEncodedBytes)
-    await expect(tx).to.emit(registry12, 'UpkeepRegistered')
-
-    tx = await registrar20.connect(owner).registerUpkeep({
-      name,
-      encryptedEmail,
-      upkeepContract: upkeep.address,
-      gasLimit,
-      adminAddress: ownerAddress,
-      checkData,
-      amount,
-      offchainConfig,
-    })
-    await expect(tx).to.emit(registry20, 'UpkeepRegistered')
-
-    tx = await registrar21.connect(owner).registerUpkeep({
-      name,
-      encryptedEmail,
-      upkeepContract: upkeep.address,
-      gasLimit,
-      adminAddress: ownerAddress,
-      triggerType,
-      checkData,
-      amount,
-      triggerConfig,
-      offchainConfig,
-    })
-    await expect(tx).to.emit(registry21, 'UpkeepRegistered')
+      .deploy()
+    const upkeep = await (await ethers.getContractFactory('UpkeepMock'))
+      .connect(owner)
+      .deploy()
+    await upkeep.setCanPerform(true)
+
+    env = {
+      owner,
+      admin,
+      adminAddress: await admin.getAddress(),
+      keepers,
+      keeperAddresses: await Promise.all(keepers.map((k) => k.getAddress())),
+      pliToken,
+      pliEthFeed: await mockV3AggregatorFactory
+        .connect(owner)
+        .deploy(9, pliEth),
+      pliUSDFeed: await mockV3AggregatorFactory
+        .connect(owner)
+        .deploy(8, pliUSD),
+      nativeUSDFeed: await mockV3AggregatorFactory
+        .connect(owner)
+        .deploy(8, nativeUSD),
+      gasPriceFeed: await mockV3AggregatorFactory
+        .connect(owner)
+        .deploy(0, gasWei),
+      upkeep,
+    }
+    await pliToken.connect(owner).transfer(env.adminAddress, toWei('1000'))
+  })
+
+  after(() => {
+    const report = process.env.AUTOMATION_GAS_REPORT
+    if (report === '-') {
+      console.log(table.toMarkdown())
+    } else if (report) {
+      table.write(report)
+    }
   })
+
+  after(() => gas.finish())
+
+  const measure = async (
+    version: string,
+    operation: string,
+    tx: Promise<ContractTransaction>,
+  ) => {
+    const receipt = await gas.record(`${version} ${operation}`, tx)
+    table.set(operation, version, receipt.gasUsed)
+    return receipt
+  }
+
+  for (const [version, deploy] of Object.entries(registryBenchmarks)) {
+    it(`measures the upkeep lifecycle on registry ${version} [ @skip-coverage ]`, async () => {
+      const benchmark = await deploy(env)
+      const registry = new ethers.Contract(
+        benchmark.registry,
+        upkeepAdminABI,
+        env.admin,
+      )
+      await env.pliToken
+        .connect(env.admin)
+        .approve(benchmark.registry, ethers.constants.MaxUint256)
+
+      const registration = benchmark.register()
+      const id = await getUpkeepID(await registration)
+      await measure(version, 'register', registration)
+      await measure(version, 'addFunds', registry.addFunds(id, fundAmount))
+
+      for (const trigger of benchmark.triggers) {
+        // every batch performs upkeeps for the first time, after a warm up
+        // perform, so that batches differ only in their size
+        const ids: BigNumber[] = []
+        const total = benchmark.batchSizes.reduce((a, b) => a + b, 1)
+        for (let i = 0; i < total; i++) {
+          const upkeepId = await getUpkeepID(
+            await benchmark.registerUpkeep(trigger),
+          )
+          await registry.addFunds(upkeepId, fundAmount)
+          ids.push(upkeepId)
+        }
+        await (await benchmark.perform(ids.splice(0, 1), trigger)).wait()
+        for (const size of benchmark.batchSizes) {
+          const receipt = await measure(
+            version,
+            transmitOperation(trigger, size),
+            benchmark.perform(ids.splice(0, size), trigger),
+          )
+          const performed = parseRegistryLogs(receipt.logs, 'UpkeepPerformed')
+          assert.equal(performed.length, size)
+          assert.isTrue(performed.every((event) => event.args.success))
+        }
+      }
+
+      if (benchmark.pausable) {
+        await measure(version, 'pauseUpkeep', registry.pauseUpkeep(id))
+      }
+      await measure(version, 'cancelUpkeep', registry.cancelUpkeep(id))
+      await ethers.provider.send('hardhat_mine', [
+        ethers.utils.hexValue(cancellationDelay),
+      ])
+      await measure(
+        version,
+        'withdrawFunds',
+        registry.withdrawFunds(id, env.adminAddress),
+      )
+    })
+  }
 })
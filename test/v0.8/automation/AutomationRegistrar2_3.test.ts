@@ -20,12 +20,11 @@ import { ChainModuleBase } from '../../../typechain/ChainModuleBase'
 import { AutomationRegistrar2_3 as Registrar } from '../../../typechain/AutomationRegistrar2_3'
 import { deployRegistry23 } from './helpers'
 import { IAutomationRegistryMaster2_3 as IAutomationRegistry } from '../../../typechain'
-
-// copied from AutomationRegistryBase2_3.sol
-enum Trigger {
-  CONDITION,
-  LOG,
-}
+import {
+  getTriggerType,
+  getUpkeepID,
+  Trigger,
+} from '../../test-helpers/automation/upkeep'
 const zeroAddress = ethers.constants.AddressZero
 const wrappedNativeTokenAddress = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
 
@@ -309,6 +308,8 @@ describe('AutomationRegistrar2_3', () => {
         .transferAndCall(registrar.address, amount, abiEncodedBytes)
 
       const [id] = await registry.getActiveUpkeepIDs(0, 1)
+      assert.isTrue(id.eq(await getUpkeepID(tx)))
+      assert.equal(getTriggerType(id), Trigger.CONDITION)
 
       //confirm if a new upkeep has been registered and the details are the same as the one just registered
       const newupkeep = await registry.getUpkeep(id)
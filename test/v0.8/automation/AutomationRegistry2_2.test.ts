@@ -8,7 +8,6 @@ import {
   Contract,
   ContractFactory,
   ContractReceipt,
-  ContractTransaction,
   Signer,
   Wallet,
 } from 'ethers'
@@ -50,6 +49,15 @@ import {
   MockContract,
 } from '@ethereum-waffle/mock-contract'
 import { deployRegistry22 } from './helpers'
+import {
+  encodeBlockTrigger,
+  encodeLog,
+  encodeLogTrigger,
+  getTriggerType,
+  getUpkeepID,
+  Log,
+  Trigger,
+} from '../../test-helpers/automation/upkeep'
 
 const describeMaybe = process.env.SKIP_SLOW ? describe.skip : describe
 const itMaybe = process.env.SKIP_SLOW ? it.skip : it
@@ -68,19 +76,8 @@ enum UpkeepFailureReason {
   REGISTRY_PAUSED,
 }
 
-// copied from AutomationRegistryBase2_2.sol
-enum Trigger {
-  CONDITION,
-  LOG,
-}
-
 // un-exported types that must be extracted from the utils contract
 type Report = Parameters<AutomationCompatibleUtils['_report']>[0]
-type LogTrigger = Parameters<AutomationCompatibleUtils['_logTrigger']>[0]
-type ConditionalTrigger = Parameters<
-  AutomationCompatibleUtils['_conditionalTrigger']
->[0]
-type Log = Parameters<AutomationCompatibleUtils['_log']>[0]
 
 // -----------------------------------------------------------------------------------------------
 
@@ -177,54 +174,6 @@ function now() {
   return Math.floor(Date.now() / 1000)
 }
 
-async function getUpkeepID(tx: ContractTransaction): Promise<BigNumber> {
-  const receipt = await tx.wait()
-  for (const event of receipt.events || []) {
-    if (
-      event.args &&
-      event.eventSignature == 'UpkeepRegistered(uint256,uint32,address)'
-    ) {
-      return event.args[0]
-    }
-  }
-  throw new Error('could not find upkeep ID in tx event logs')
-}
-
-const getTriggerType = (upkeepId: BigNumber): Trigger => {
-  const hexBytes = ethers.utils.defaultAbiCoder.encode(['uint256'], [upkeepId])
-  const bytes = ethers.utils.arrayify(hexBytes)
-  for (let idx = 4; idx < 15; idx++) {
-    if (bytes[idx] != 0) {
-      return Trigger.CONDITION
-    }
-  }
-  return bytes[15] as Trigger
-}
-
-const encodeBlockTrigger = (conditionalTrigger: ConditionalTrigger) => {
-  return (
-    '0x' +
-    automationUtils.interface
-      .encodeFunctionData('_conditionalTrigger', [conditionalTrigger])
-      .slice(10)
-  )
-}
-
-const encodeLogTrigger = (logTrigger: LogTrigger) => {
-  return (
-    '0x' +
-    automationUtils.interface
-      .encodeFunctionData('_logTrigger', [logTrigger])
-      .slice(10)
-  )
-}
-
-const encodeLog = (log: Log) => {
-  return (
-    '0x' + automationUtils.interface.encodeFunctionData('_log', [log]).slice(10)
-  )
-}
-
 const encodeReport = (report: Report) => {
   return (
     '0x' +
@@ -8,7 +8,6 @@ import {
   Contract,
   ContractFactory,
   ContractReceipt,
-  ContractTransaction,
   Signer,
   Wallet,
 } from 'ethers'
@@ -48,8 +47,51 @@ import {
   deployMockContract,
   MockContract,
 } from '@ethereum-waffle/mock-contract'
-import { deployRegistry23 } from './helpers'
-import { AutomationUtils2_3 } from '../../../typechain/AutomationUtils2_3'
+import { deployRegistry22, deployRegistry23 } from './helpers'
+import {
+  encodeReport,
+  epochAndRound5_1,
+  makeReport as buildReport,
+  makeReportContext,
+  quorumSigners,
+  signAndTransmit,
+  signReport,
+  transmitSigned,
+  UpkeepData,
+} from '../../test-helpers/automation/report'
+import {
+  computeUpkeepId,
+  decodeBlockTrigger,
+  decodeLog,
+  decodeLogTrigger,
+  encodeBlockTrigger,
+  encodeLog,
+  encodeLogTrigger,
+  getTriggerType,
+  getUpkeepID,
+  Log,
+  makeUpkeepId,
+  parseUpkeepId,
+  Trigger,
+} from '../../test-helpers/automation/upkeep'
+import {
+  diffOnchainConfig,
+  formatConfigChanges,
+  getOnchainConfig,
+  validateOnchainConfig,
+} from '../../test-helpers/automation/onchainConfig'
+import {
+  chainModuleGasOverheads,
+  getChainModuleFees,
+  getMaxPayment,
+} from '../../test-helpers/automation/payment'
+import {
+  formatTimeline,
+  parseRegistryLogs,
+  RegistryIndexer,
+} from '../../test-helpers/automation/indexer'
+import '../../test-helpers/chaiMatchers'
+import { GasRecorder } from '../../test-helpers/gasSnapshot'
 
 const describeMaybe = process.env.SKIP_SLOW ? describe.skip : describe
 const itMaybe = process.env.SKIP_SLOW ? it.skip : it
@@ -68,19 +110,7 @@ enum UpkeepFailureReason {
   REGISTRY_PAUSED,
 }
 
-// copied from AutomationRegistryBase2_3.sol
-enum Trigger {
-  CONDITION,
-  LOG,
-}
-
 // un-exported types that must be extracted from the utils contract
-type Report = Parameters<AutomationUtils2_3['_report']>[0]
-type LogTrigger = Parameters<AutomationCompatibleUtils['_logTrigger']>[0]
-type ConditionalTrigger = Parameters<
-  AutomationCompatibleUtils['_conditionalTrigger']
->[0]
-type Log = Parameters<AutomationCompatibleUtils['_log']>[0]
 type OnChainConfig = Parameters<IAutomationRegistry['setConfigTypeSafe']>[3]
 
 // -----------------------------------------------------------------------------------------------
@@ -136,8 +166,6 @@ const offchainVersion = 1
 const offchainBytes = '0x'
 const zeroAddress = ethers.constants.AddressZero
 const wrappedNativeTokenAddress = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
-const epochAndRound5_1 =
-  '0x0000000000000000000000000000000000000000000000000000000000000501'
 
 let logTriggerConfig: string
 
@@ -177,89 +205,13 @@ let arbitrumModule: ArbitrumModule
 let optimismModule: OptimismModuleV2
 let streamsLookupUpkeep: StreamsLookupUpkeep
 let automationUtils: AutomationCompatibleUtils
-let automationUtils2_3: AutomationUtils2_3
 
 function now() {
   return Math.floor(Date.now() / 1000)
 }
 
-async function getUpkeepID(tx: ContractTransaction): Promise<BigNumber> {
-  const receipt = await tx.wait()
-  for (const event of receipt.events || []) {
-    if (
-      event.args &&
-      event.eventSignature == 'UpkeepRegistered(uint256,uint32,address)'
-    ) {
-      return event.args[0]
-    }
-  }
-  throw new Error('could not find upkeep ID in tx event logs')
-}
-
-const getTriggerType = (upkeepId: BigNumber): Trigger => {
-  const hexBytes = ethers.utils.defaultAbiCoder.encode(['uint256'], [upkeepId])
-  const bytes = ethers.utils.arrayify(hexBytes)
-  for (let idx = 4; idx < 15; idx++) {
-    if (bytes[idx] != 0) {
-      return Trigger.CONDITION
-    }
-  }
-  return bytes[15] as Trigger
-}
-
-const encodeBlockTrigger = (conditionalTrigger: ConditionalTrigger) => {
-  return (
-    '0x' +
-    automationUtils.interface
-      .encodeFunctionData('_conditionalTrigger', [conditionalTrigger])
-      .slice(10)
-  )
-}
-
-const encodeLogTrigger = (logTrigger: LogTrigger) => {
-  return (
-    '0x' +
-    automationUtils.interface
-      .encodeFunctionData('_logTrigger', [logTrigger])
-      .slice(10)
-  )
-}
-
-const encodeLog = (log: Log) => {
-  return (
-    '0x' + automationUtils.interface.encodeFunctionData('_log', [log]).slice(10)
-  )
-}
-
-const encodeReport = (report: Report) => {
-  return (
-    '0x' +
-    automationUtils2_3.interface
-      .encodeFunctionData('_report', [report])
-      .slice(10)
-  )
-}
-
-type UpkeepData = {
-  Id: BigNumberish
-  performGas: BigNumberish
-  performData: BytesLike
-  trigger: BytesLike
-}
-
 const makeReport = (upkeeps: UpkeepData[]) => {
-  const upkeepIds = upkeeps.map((u) => u.Id)
-  const performGases = upkeeps.map((u) => u.performGas)
-  const triggers = upkeeps.map((u) => u.trigger)
-  const performDatas = upkeeps.map((u) => u.performData)
-  return encodeReport({
-    fastGasWei: gasWei,
-    pliUSD,
-    upkeepIds,
-    gasLimits: performGases,
-    triggers,
-    performDatas,
-  })
+  return buildReport(upkeeps, gasWei, pliUSD)
 }
 
 const makeLatestBlockReport = async (upkeepsIDs: BigNumberish[]) => {
@@ -279,103 +231,29 @@ const makeLatestBlockReport = async (upkeepsIDs: BigNumberish[]) => {
   return makeReport(upkeeps)
 }
 
-const signReport = (
-  reportContext: string[],
-  report: any,
-  signers: Wallet[],
-) => {
-  const reportDigest = ethers.utils.keccak256(report)
-  const packedArgs = ethers.utils.solidityPack(
-    ['bytes32', 'bytes32[3]'],
-    [reportDigest, reportContext],
-  )
-  const packedDigest = ethers.utils.keccak256(packedArgs)
-
-  const signatures = []
-  for (const signer of signers) {
-    signatures.push(signer._signingKey().signDigest(packedDigest))
-  }
-  const vs = signatures.map((i) => '0' + (i.v - 27).toString(16)).join('')
-  return {
-    vs: '0x' + vs.padEnd(64, '0'),
-    rs: signatures.map((i) => i.r),
-    ss: signatures.map((i) => i.s),
-  }
-}
-
-const parseUpkeepPerformedLogs = (receipt: ContractReceipt) => {
-  const parsedLogs = []
-  for (const rawLog of receipt.logs) {
-    try {
-      const log = registry.interface.parseLog(rawLog)
-      if (
-        log.name ==
-        registry.interface.events[
-          'UpkeepPerformed(uint256,bool,uint96,uint256,uint256,bytes)'
-        ].name
-      ) {
-        parsedLogs.push(log as unknown as UpkeepPerformedEvent)
-      }
-    } catch {
-      continue
-    }
-  }
-  return parsedLogs
-}
-
-const parseReorgedUpkeepReportLogs = (receipt: ContractReceipt) => {
-  const parsedLogs = []
-  for (const rawLog of receipt.logs) {
-    try {
-      const log = registry.interface.parseLog(rawLog)
-      if (
-        log.name ==
-        registry.interface.events['ReorgedUpkeepReport(uint256,bytes)'].name
-      ) {
-        parsedLogs.push(log as unknown as ReorgedUpkeepReportEvent)
-      }
-    } catch {
-      continue
-    }
-  }
-  return parsedLogs
-}
-
-const parseStaleUpkeepReportLogs = (receipt: ContractReceipt) => {
-  const parsedLogs = []
-  for (const rawLog of receipt.logs) {
-    try {
-      const log = registry.interface.parseLog(rawLog)
-      if (
-        log.name ==
-        registry.interface.events['StaleUpkeepReport(uint256,bytes)'].name
-      ) {
-        parsedLogs.push(log as unknown as StaleUpkeepReportEvent)
-      }
-    } catch {
-      continue
-    }
-  }
-  return parsedLogs
-}
-
-const parseCancelledUpkeepReportLogs = (receipt: ContractReceipt) => {
-  const parsedLogs = []
-  for (const rawLog of receipt.logs) {
-    try {
-      const log = registry.interface.parseLog(rawLog)
-      if (
-        log.name ==
-        registry.interface.events['CancelledUpkeepReport(uint256,bytes)'].name
-      ) {
-        parsedLogs.push(log as unknown as CancelledUpkeepReportEvent)
-      }
-    } catch {
-      continue
-    }
-  }
-  return parsedLogs
-}
+const parseUpkeepPerformedLogs = (receipt: ContractReceipt) =>
+  parseRegistryLogs(
+    receipt.logs,
+    'UpkeepPerformed',
+  ) as unknown as UpkeepPerformedEvent[]
+
+const parseReorgedUpkeepReportLogs = (receipt: ContractReceipt) =>
+  parseRegistryLogs(
+    receipt.logs,
+    'ReorgedUpkeepReport',
+  ) as unknown as ReorgedUpkeepReportEvent[]
+
+const parseStaleUpkeepReportLogs = (receipt: ContractReceipt) =>
+  parseRegistryLogs(
+    receipt.logs,
+    'StaleUpkeepReport',
+  ) as unknown as StaleUpkeepReportEvent[]
+
+const parseCancelledUpkeepReportLogs = (receipt: ContractReceipt) =>
+  parseRegistryLogs(
+    receipt.logs,
+    'CancelledUpkeepReport',
+  ) as unknown as CancelledUpkeepReportEvent[]
 
 describe('AutomationRegistry2_3', () => {
   let owner: Signer
@@ -415,6 +293,9 @@ describe('AutomationRegistry2_3', () => {
   let opConfigParams: Parameters<IAutomationRegistry['setConfigTypeSafe']>
   let upkeepManager: string
 
+  const gas = new GasRecorder('AutomationRegistry2_3', { relative: 0.01 })
+  after(() => gas.finish())
+
   before(async () => {
     personas = (await getUsers()).personas
 
@@ -423,9 +304,6 @@ describe('AutomationRegistry2_3', () => {
     )
     automationUtils = await compatibleUtilsFactory.deploy()
 
-    const utilsFactory = await ethers.getContractFactory('AutomationUtils2_3')
-    automationUtils2_3 = await utilsFactory.deploy()
-
     pliTokenFactory = await ethers.getContractFactory(
       'src/v0.8/shared/test/helpers/PliTokenTestHelper.sol:PliTokenTestHelper',
     )
@@ -806,7 +684,7 @@ describe('AutomationRegistry2_3', () => {
     }
 
     const report = makeReport(upkeeps)
-    const reportContext = [configDigest, epochAndRound5_1, emptyBytes32]
+    const reportContext = makeReportContext(configDigest)
     const sigs = signReport(
       reportContext,
       report,
@@ -816,28 +694,10 @@ describe('AutomationRegistry2_3', () => {
       ),
     )
 
-    type txOverride = {
-      gasLimit?: BigNumberish | Promise<BigNumberish>
-      gasPrice?: BigNumberish | Promise<BigNumberish>
-    }
-    const txOverrides: txOverride = {}
-    if (config.gasLimit) {
-      txOverrides.gasLimit = config.gasLimit
-    }
-    if (config.gasPrice) {
-      txOverrides.gasPrice = config.gasPrice
-    }
-
-    return registry
-      .connect(transmitter)
-      .transmit(
-        [configDigest, epochAndRound5_1, emptyBytes32],
-        report,
-        sigs.rs,
-        sigs.ss,
-        sigs.vs,
-        txOverrides,
-      )
+    return transmitSigned(registry, transmitter, reportContext, report, sigs, {
+      gasLimit: config.gasLimit,
+      gasPrice: config.gasPrice,
+    })
   }
 
   const getTransmitTxWithReport = async (
@@ -845,19 +705,12 @@ describe('AutomationRegistry2_3', () => {
     transmitter: Signer,
     report: BytesLike,
   ) => {
-    const configDigest = (await registry.getState()).state.latestConfigDigest
-    const reportContext = [configDigest, epochAndRound5_1, emptyBytes32]
-    const sigs = signReport(reportContext, report, signers.slice(0, f + 1))
-
-    return registry
-      .connect(transmitter)
-      .transmit(
-        [configDigest, epochAndRound5_1, emptyBytes32],
-        report,
-        sigs.rs,
-        sigs.ss,
-        sigs.vs,
-      )
+    return signAndTransmit(
+      registry,
+      transmitter,
+      report,
+      quorumSigners(signers, f),
+    )
   }
 
   const setup = async () => {
@@ -1343,6 +1196,24 @@ describe('AutomationRegistry2_3', () => {
         assert.equal(staleUpkeepReportLogs.length, 1)
       })
 
+      it('performs an upkeep and then skips stale reports for it', async () => {
+        await mock.setCanPerform(true)
+        const tx = await getTransmitTx(registry, keeper1, [upkeepId])
+        await expect(tx).to.performUpkeep(registry, upkeepId)
+        const performBlock = await ethers.provider.getBlock(
+          tx.blockNumber as number,
+        )
+        await expect(
+          getTransmitTx(registry, keeper1, [upkeepId], {
+            checkBlockNum: performBlock.number - 1,
+            checkBlockHash: performBlock.parentHash,
+          }),
+        ).to.skipUpkeepAs('stale', registry, upkeepId)
+        await expect(
+          getTransmitTx(registry, payee1, [upkeepId]),
+        ).to.revertWithTypedError(registry, 'OnlyActiveTransmitters', [])
+      })
+
       it('handles case when check block hash does not match', async () => {
         const tests: [string, BigNumber][] = [
           ['conditional', upkeepId],
@@ -1421,7 +1292,7 @@ describe('AutomationRegistry2_3', () => {
           ['conditional', upkeepId],
           ['log-trigger', logUpkeepId],
         ]
-        const newConfig = config
+        const newConfig = { ...config }
         newConfig.reorgProtectionEnabled = false
         await registry // used to test initial configurations
           .connect(owner)
@@ -1455,7 +1326,7 @@ describe('AutomationRegistry2_3', () => {
       })
 
       it('allows very old trigger block numbers when bypassing reorg protection with reorgProtectionEnabled config', async () => {
-        const newConfig = config
+        const newConfig = { ...config }
         newConfig.reorgProtectionEnabled = false
         await registry // used to test initial configurations
           .connect(owner)
@@ -1558,7 +1429,7 @@ describe('AutomationRegistry2_3', () => {
       })
 
       it('returns early when future block number is provided as trigger, irrespective of reorgProtectionEnabled config', async () => {
-        const newConfig = config
+        const newConfig = { ...config }
         newConfig.reorgProtectionEnabled = false
         await registry // used to test initial configurations
           .connect(owner)
@@ -2840,6 +2711,40 @@ describe('AutomationRegistry2_3', () => {
         })
       })
 
+      it('records the transmit gas for batches of upkeeps [ @skip-coverage ]', async () => {
+        for (const batchSize of [1, 5, 10]) {
+          const upkeepIds: BigNumber[] = []
+          for (let i = 0; i < batchSize; i++) {
+            const mock = await upkeepMockFactory.deploy()
+            const tx = await registry
+              .connect(owner)
+              .registerUpkeep(
+                mock.address,
+                performGas,
+                await admin.getAddress(),
+                Trigger.CONDITION,
+                pliToken.address,
+                '0x',
+                '0x',
+                '0x',
+              )
+            const testUpkeepId = await getUpkeepID(tx)
+            upkeepIds.push(testUpkeepId)
+            await registry.connect(owner).addFunds(testUpkeepId, toWei('10'))
+            await mock.setCanPerform(true)
+          }
+          // the upkeeps don't burn gas, so only the registry's gas is recorded,
+          // and the gas limit is set to skip estimating it
+          const receipt = await gas.record(
+            `transmit(upkeeps=${batchSize})`,
+            getTransmitTx(registry, keeper1, upkeepIds, {
+              gasLimit: performGas.mul(batchSize).add(transmitGasOverhead),
+            }),
+          )
+          assert.equal(parseUpkeepPerformedLogs(receipt).length, batchSize)
+        }
+      })
+
       it('splits l2 payment among performed upkeeps according to perform data weight', async () => {
         const numUpkeeps = 7
         const upkeepIds: BigNumber[] = []
@@ -3513,6 +3418,195 @@ describe('AutomationRegistry2_3', () => {
       )
     })
 
+    it('matches the offchain pricing model', async () => {
+      const chains: [IAutomationRegistry, Contract][] = [
+        [registry, chainModuleBase],
+        [arbRegistry, arbitrumModule],
+        [opRegistry, optimismModule],
+      ]
+      for (const [chainRegistry, chainModule] of chains) {
+        const chainModuleFees = await getChainModuleFees(
+          chainModule,
+          f,
+          maxPerformDataSize,
+        )
+        for (const triggerType of [Trigger.CONDITION, Trigger.LOG]) {
+          const bill = getMaxPayment({
+            triggerType,
+            performGas,
+            f,
+            maxPerformDataSize,
+            gasCeilingMultiplier,
+            feeds: { fastGasWei: gasWei, pliUSD, nativeUSD },
+            billingToken: {
+              gasFeePPB: paymentPremiumPPB,
+              flatFeeMilliCents,
+              priceUSD: pliUSD,
+              decimals: 18,
+            },
+            chainModule: chainModuleFees,
+          })
+          expect(bill.total).to.equal(
+            await chainRegistry.getMaxPaymentForGas(
+              upkeepId,
+              triggerType,
+              performGas,
+              pliToken.address,
+            ),
+          )
+          if (chainRegistry === registry && triggerType === Trigger.CONDITION) {
+            expect(bill.total).to.equal(
+              await registry.getMinBalanceForUpkeep(upkeepId),
+            )
+          }
+        }
+      }
+    })
+
+    it('matches the offchain pricing model for native and non-18 decimal billing tokens', async () => {
+      const usdToken6 = await (
+        await ethers.getContractFactory('ERC20Mock6Decimals')
+      )
+        .connect(owner)
+        .deploy('USDC', 'USDC', await owner.getAddress(), 0)
+      // setConfig checks the decimals of every billing token, including the
+      // wrapped native token, which has no code here
+      const wrappedNative = await (
+        await ethers.getContractFactory(
+          'src/v0.8/vendor/openzeppelin-solidity/v4.8.3/contracts/mocks/ERC20Mock.sol:ERC20Mock',
+        )
+      )
+        .connect(owner)
+        .deploy('WETH', 'WETH', await owner.getAddress(), 0)
+      await ethers.provider.send('hardhat_setCode', [
+        wrappedNativeTokenAddress,
+        await ethers.provider.getCode(wrappedNative.address),
+      ])
+      const usdUSD = BigNumber.from('100000000') // 1 USDC = $1
+      const usdUSDFeed = await mockV3AggregatorFactory
+        .connect(owner)
+        .deploy(8, usdUSD)
+      const billingTokens = [
+        { token: pliToken.address, feed: pliUSDFeed, priceUSD: pliUSD },
+        {
+          token: wrappedNativeTokenAddress,
+          feed: nativeUSDFeed,
+          priceUSD: nativeUSD,
+        },
+        { token: usdToken6.address, feed: usdUSDFeed, priceUSD: usdUSD },
+      ].map(({ token, feed, priceUSD }) => ({
+        token,
+        priceUSD,
+        config: {
+          gasFeePPB: paymentPremiumPPB,
+          flatFeeMilliCents: BigNumber.from(1000), // $0.01
+          priceFeed: feed.address,
+          fallbackPrice: priceUSD,
+          minSpend: minUpkeepSpend,
+          decimals: token === usdToken6.address ? 6 : 18,
+        },
+      }))
+      await blankRegistry.connect(owner).setConfigTypeSafe(
+        signerAddresses,
+        keeperAddresses,
+        f,
+        config,
+        offchainVersion,
+        offchainBytes,
+        billingTokens.map(({ token }) => token),
+        billingTokens.map((billingToken) => billingToken.config),
+      )
+
+      const chainModuleFees = await getChainModuleFees(
+        chainModuleBase,
+        f,
+        maxPerformDataSize,
+      )
+      for (const { token, priceUSD, config: tokenConfig } of billingTokens) {
+        for (const triggerType of [Trigger.CONDITION, Trigger.LOG]) {
+          const bill = getMaxPayment({
+            triggerType,
+            performGas,
+            f,
+            maxPerformDataSize,
+            gasCeilingMultiplier,
+            feeds: { fastGasWei: gasWei, pliUSD, nativeUSD },
+            billingToken: { ...tokenConfig, priceUSD },
+            chainModule: chainModuleFees,
+          })
+          expect(bill.total).to.equal(
+            await blankRegistry.getMaxPaymentForGas(
+              upkeepId,
+              triggerType,
+              performGas,
+              token,
+            ),
+          )
+        }
+      }
+    })
+
+    it('matches the offchain pricing model for Scroll', async () => {
+      const scrollModule = await (
+        await ethers.getContractFactory('ScrollModule')
+      )
+        .connect(owner)
+        .deploy()
+      // the Scroll L1 gas price oracle has the same getL1Fee(bytes) as the OVM one
+      await ethers.provider.send('hardhat_setCode', [
+        '0x5300000000000000000000000000000000000002',
+        await ethers.provider.getCode(mockOVMGasPriceOracle.address),
+      ])
+      await blankRegistry
+        .connect(owner)
+        .setConfigTypeSafe(
+          signerAddresses,
+          keeperAddresses,
+          f,
+          { ...config, chainModule: scrollModule.address },
+          offchainVersion,
+          offchainBytes,
+          baseConfig[6],
+          baseConfig[7],
+        )
+
+      const chainModuleFees = await getChainModuleFees(
+        scrollModule,
+        f,
+        maxPerformDataSize,
+      )
+      const { fixedGasOverhead, perByteGasOverhead } =
+        chainModuleGasOverheads.ScrollModule
+      expect(chainModuleFees.fixedGasOverhead).to.equal(fixedGasOverhead)
+      expect(chainModuleFees.perByteGasOverhead).to.equal(perByteGasOverhead)
+      expect(chainModuleFees.maxL1Fee).to.equal(2000000) // Same as MockOVMGasPriceOracle.sol
+      for (const triggerType of [Trigger.CONDITION, Trigger.LOG]) {
+        const bill = getMaxPayment({
+          triggerType,
+          performGas,
+          f,
+          maxPerformDataSize,
+          gasCeilingMultiplier,
+          feeds: { fastGasWei: gasWei, pliUSD, nativeUSD },
+          billingToken: {
+            gasFeePPB: paymentPremiumPPB,
+            flatFeeMilliCents,
+            priceUSD: pliUSD,
+            decimals: 18,
+          },
+          chainModule: chainModuleFees,
+        })
+        expect(bill.total).to.equal(
+          await blankRegistry.getMaxPaymentForGas(
+            upkeepId,
+            triggerType,
+            performGas,
+            pliToken.address,
+          ),
+        )
+      }
+    })
+
     it('uses the fallback gas price if the feed has issues', async () => {
       const chainModuleOverheads = await chainModuleBase.getGasOverhead()
       const expectedFallbackMaxPayment = pliForGas(
@@ -3690,6 +3784,313 @@ describe('AutomationRegistry2_3', () => {
     })
   })
 
+  describe('upkeep IDs and triggers', () => {
+    it('predicts the ID the registry assigns to a new upkeep', async () => {
+      const { nonce } = (await registry.getState()).state
+      const latestBlock = await ethers.provider.getBlock('latest')
+      const tx = await registry
+        .connect(owner)
+        .registerUpkeep(
+          ltUpkeep.address,
+          performGas,
+          await admin.getAddress(),
+          Trigger.LOG,
+          pliToken.address,
+          '0x',
+          logTriggerConfig,
+          emptyBytes,
+        )
+      const id = await getUpkeepID(tx)
+      assert.isTrue(
+        id.eq(
+          computeUpkeepId(
+            registry.address,
+            latestBlock.hash,
+            nonce,
+            Trigger.LOG,
+          ),
+        ),
+      )
+      assert.deepEqual(parseUpkeepId(id), {
+        id,
+        triggerType: Trigger.LOG,
+        legacy: false,
+      })
+    })
+
+    it('treats IDs without the trigger type marker as conditional upkeeps', async () => {
+      const legacyId = BigNumber.from(ethers.utils.randomBytes(32)).or(
+        BigNumber.from(1).shl(200),
+      )
+      assert.isTrue(parseUpkeepId(legacyId).legacy)
+      assert.equal(getTriggerType(legacyId), Trigger.CONDITION)
+      assert.equal(getTriggerType(makeUpkeepId(Trigger.LOG)), Trigger.LOG)
+      assert.throws(
+        () => parseUpkeepId(makeUpkeepId(2 as Trigger)),
+        'unknown trigger type 2',
+      )
+    })
+
+    it('encodes triggers and logs like AutomationCompatibleUtils', async () => {
+      const conditionalTrigger = {
+        blockNum: 100,
+        blockHash: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+      }
+      const logTrigger = {
+        logBlockHash: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+        txHash: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+        logIndex: 3,
+        blockNum: 101,
+        blockHash: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+      }
+      const log = {
+        index: 3,
+        timestamp: now(),
+        txHash: logTrigger.txHash,
+        blockNumber: 100,
+        blockHash: logTrigger.logBlockHash,
+        source: randomAddress(),
+        topics: [ethers.utils.hexlify(ethers.utils.randomBytes(32))],
+        data: ethers.utils.hexlify(ethers.utils.randomBytes(100)),
+      }
+      // the utils functions only take their struct, so drop the selector
+      const withoutSelector = (calldata: string) => '0x' + calldata.slice(10)
+
+      const encodedBlockTrigger = encodeBlockTrigger(conditionalTrigger)
+      assert.equal(
+        encodedBlockTrigger,
+        withoutSelector(
+          automationUtils.interface.encodeFunctionData('_conditionalTrigger', [
+            conditionalTrigger,
+          ]),
+        ),
+      )
+      const decodedBlockTrigger = decodeBlockTrigger(encodedBlockTrigger)
+      assert.equal(decodedBlockTrigger.blockNum, conditionalTrigger.blockNum)
+      assert.equal(decodedBlockTrigger.blockHash, conditionalTrigger.blockHash)
+
+      const encodedLogTrigger = encodeLogTrigger(logTrigger)
+      assert.equal(
+        encodedLogTrigger,
+        withoutSelector(
+          automationUtils.interface.encodeFunctionData('_logTrigger', [
+            logTrigger,
+          ]),
+        ),
+      )
+      assert.deepEqual(decodeLogTrigger(encodedLogTrigger), logTrigger)
+
+      const encodedLog = encodeLog(log)
+      assert.equal(
+        encodedLog,
+        withoutSelector(
+          automationUtils.interface.encodeFunctionData('_log', [log]),
+        ),
+      )
+      const decodedLog = decodeLog(encodedLog)
+      assert.isTrue(BigNumber.from(log.timestamp).eq(decodedLog.timestamp))
+      assert.equal(decodedLog.source, log.source)
+      assert.deepEqual(decodedLog.topics, log.topics)
+      assert.equal(decodedLog.data, log.data)
+    })
+  })
+
+  describe('onchain config schema', () => {
+    it('accepts the config the registry was set with', async () => {
+      validateOnchainConfig(config)
+      const current = await getOnchainConfig(registry)
+      assert.deepEqual(diffOnchainConfig(current, config), [])
+      assert.equal(
+        formatConfigChanges(diffOnchainConfig(current, config)),
+        'onchain config unchanged',
+      )
+    })
+
+    it('rejects values which do not fit the registry storage', async () => {
+      assert.throws(
+        () =>
+          validateOnchainConfig({
+            ...config,
+            stalenessSeconds: BigNumber.from(2).pow(24),
+            checkGasLimit: -1,
+            transcoder: 'not an address',
+            registrars: [randomAddress(), '0x1234'],
+            reorgProtectionEnabled: 'yes',
+            paymentPremiumPPB: 0,
+          }),
+        [
+          'invalid onchain config:',
+          'checkGasLimit must fit in a uint32, got -1',
+          'stalenessSeconds must fit in a uint24, got 16777216',
+          'transcoder must be an address, got "not an address"',
+          'registrars must be a list of addresses, got "0x1234" at index 1',
+          'reorgProtectionEnabled must be a boolean, got "yes"',
+          'paymentPremiumPPB is not an onchain config field',
+        ].join('\n  '),
+      )
+      const { financeAdmin: _, ...missing } = config
+      assert.throws(
+        () => validateOnchainConfig(missing, 'onchainConfig.'),
+        'onchainConfig.financeAdmin is required',
+      )
+    })
+
+    it('lists the changes a proposed config would make', async () => {
+      const registrars = [randomAddress(), randomAddress()]
+      await registry
+        .connect(owner)
+        .setConfigTypeSafe(
+          signerAddresses,
+          keeperAddresses,
+          f,
+          { ...config, registrars },
+          offchainVersion,
+          offchainBytes,
+          baseConfig[6],
+          baseConfig[7],
+        )
+      const current = await getOnchainConfig(registry)
+      assert.deepEqual(
+        diffOnchainConfig(current, {
+          ...config,
+          registrars: [...registrars].reverse(),
+        }),
+        [],
+      )
+
+      const changes = diffOnchainConfig(current, {
+        ...config,
+        registrars,
+        stalenessSeconds: stalenessSeconds.add(1),
+        chainModule: arbitrumModule.address,
+        reorgProtectionEnabled: false,
+      })
+      assert.deepEqual(
+        changes.map((c) => c.field),
+        ['stalenessSeconds', 'chainModule', 'reorgProtectionEnabled'],
+      )
+      assert.equal(
+        formatConfigChanges(changes),
+        [
+          'onchain config: 3 changes',
+          `  stalenessSeconds: ${stalenessSeconds} -> ${stalenessSeconds.add(1)}`,
+          `  chainModule: ${chainModuleBase.address} -> ${arbitrumModule.address}`,
+          '  reorgProtectionEnabled: true -> false',
+        ].join('\n'),
+      )
+    })
+  })
+
+  describe('registry event indexer', () => {
+    it('indexes the timeline of an upkeep across registries', async () => {
+      // a v2.2 registry, whose events differ from v2.3 in their args
+      const registry22 = await deployRegistry22(
+        owner,
+        pliToken.address,
+        pliUSDFeed.address,
+        gasPriceFeed.address,
+        zeroAddress,
+      )
+      await registry22.setConfigTypeSafe(
+        signerAddresses,
+        keeperAddresses,
+        f,
+        {
+          paymentPremiumPPB: 250000000,
+          flatFeeMicroPli: 0,
+          checkGasLimit: 10000000,
+          stalenessSeconds: 90000,
+          gasCeilingMultiplier: 2,
+          minUpkeepSpend: 0,
+          maxCheckDataSize: 5000,
+          maxPerformDataSize: 2000,
+          maxRevertDataSize: 1000,
+          maxPerformGas: 5000000,
+          fallbackGasPrice: 200,
+          fallbackPliPrice: 200000000,
+          transcoder: zeroAddress,
+          registrars: [],
+          upkeepPrivilegeManager: upkeepManager,
+          chainModule: chainModuleBase.address,
+          reorgProtectionEnabled: true,
+        },
+        offchainVersion,
+        offchainBytes,
+      )
+      const indexer = new RegistryIndexer({
+        provider: ethers.provider,
+        registries: [registry.address, mgRegistry.address, registry22.address],
+      })
+      const upkeepId22 = await getUpkeepID(
+        await registry22
+          .connect(owner)
+          [
+            'registerUpkeep(address,uint32,address,uint8,bytes,bytes,bytes)'
+          ](mock.address, performGas, await admin.getAddress(), Trigger.CONDITION, '0x', '0x', '0x'),
+      )
+      await pliToken.connect(admin).approve(registry22.address, toWei('100'))
+      await registry22.connect(admin).addFunds(upkeepId22, toWei('100'))
+      await registry22.connect(admin).pauseUpkeep(upkeepId22)
+      await registry22.connect(admin).cancelUpkeep(upkeepId22)
+      await registry.connect(admin).addFunds(upkeepId, toWei('100'))
+      await getTransmitTx(registry, keeper1, [upkeepId])
+      await registry.connect(admin).pauseUpkeep(upkeepId)
+      await registry.connect(admin).unpauseUpkeep(upkeepId)
+      await indexer.index()
+
+      await registry
+        .connect(owner)
+        .setPeerRegistryMigrationPermission(mgRegistry.address, 1)
+      await mgRegistry
+        .connect(owner)
+        .setPeerRegistryMigrationPermission(registry.address, 2)
+      await registry
+        .connect(admin)
+        .migrateUpkeeps([upkeepId], mgRegistry.address)
+      await mgRegistry.connect(admin).cancelUpkeep(upkeepId)
+      const newEvents = await indexer.index()
+      assert.notInclude(
+        newEvents.map((e) => e.kind),
+        'registered',
+      )
+
+      const timeline = indexer
+        .timeline(upkeepId)
+        .filter((e) => e.kind !== 'updated')
+      assert.deepEqual(
+        timeline.map((e) => e.kind),
+        [
+          'registered',
+          'funded',
+          'charged',
+          'performed',
+          'paused',
+          'unpaused',
+          'migrated',
+          'received',
+          'cancelled',
+        ],
+      )
+      assert.equal(timeline[6].registry, registry.address)
+      assert.equal(timeline[7].registry, mgRegistry.address)
+      assert.equal(timeline[7].args.importedFrom, registry.address)
+      assert.include(
+        formatTimeline(timeline),
+        `migrated to ${mgRegistry.address}`,
+      )
+      assert.isEmpty(indexer.timeline(BigNumber.from(1)))
+
+      const timeline22 = indexer
+        .timeline(upkeepId22)
+        .filter((e) => e.kind !== 'updated')
+      assert.deepEqual(
+        timeline22.map((e) => e.kind),
+        ['registered', 'funded', 'paused', 'cancelled'],
+      )
+      assert.isTrue(timeline22.every((e) => e.registry === registry22.address))
+    })
+  })
+
   describe('#typeAndVersion', () => {
     it('uses the correct type and version', async () => {
       const typeAndVersion = await registry.typeAndVersion()
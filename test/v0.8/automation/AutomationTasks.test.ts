@@ -0,0 +1,228 @@
+import hre, { ethers } from 'hardhat'
+import { assert, expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import YAML from 'yaml'
+import { Contract, Signer } from 'ethers'
+import { randomAddress, toWei } from '../../test-helpers/helpers'
+import { quietConsole } from '../../test-helpers/debug'
+import {
+  AutomationConfig,
+  AutomationManifest,
+  loadAutomationConfig,
+  readManifest,
+} from '../../../tasks/automation/config'
+
+const wrappedNativeTokenAddress = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
+
+describe('automation tasks', () => {
+  let owner: Signer
+  let pliToken: Contract
+  let upkeep: Contract
+  let dir: string
+  let configPath: string
+  let manifestPath: string
+  let config: AutomationConfig
+
+  const writeConfig = (c: unknown) =>
+    fs.writeFileSync(configPath, JSON.stringify(c))
+
+  quietConsole('test:tasks:automation')
+
+  before(async () => {
+    ;[owner] = await ethers.getSigners()
+    const pliTokenFactory = await ethers.getContractFactory(
+      'src/v0.8/shared/test/helpers/PliTokenTestHelper.sol:PliTokenTestHelper',
+    )
+    const mockV3AggregatorFactory = await ethers.getContractFactory(
+      'src/v0.8/tests/MockV3Aggregator.sol:MockV3Aggregator',
+    )
+    pliToken = await pliTokenFactory.connect(owner).deploy()
+    const gasPriceFeed = await mockV3AggregatorFactory.deploy(0, 100)
+    const pliUSDFeed = await mockV3AggregatorFactory.deploy(8, 2000000000)
+    const nativeUSDFeed = await mockV3AggregatorFactory.deploy(8, 400000000000)
+    upkeep = await (await ethers.getContractFactory('UpkeepMock')).deploy()
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'automation-tasks-'))
+    configPath = path.join(dir, 'automation.json')
+    manifestPath = path.join(dir, 'deployments', 'manifest.json')
+    config = {
+      pli: pliToken.address,
+      pliUSDFeed: pliUSDFeed.address,
+      nativeUSDFeed: nativeUSDFeed.address,
+      fastGasFeed: gasPriceFeed.address,
+      wrappedNativeToken: wrappedNativeTokenAddress,
+      chainModule: 'ChainModuleBase',
+      registrar: {
+        triggers: [
+          {
+            triggerType: 'condition',
+            autoApprove: 'all',
+            autoApproveMaxAllowed: 10,
+          },
+          {
+            triggerType: 'log',
+            autoApprove: 'disabled',
+            autoApproveMaxAllowed: 0,
+          },
+        ],
+      },
+      ocr: {
+        signers: [
+          randomAddress(),
+          randomAddress(),
+          randomAddress(),
+          randomAddress(),
+        ],
+        transmitters: [
+          randomAddress(),
+          randomAddress(),
+          randomAddress(),
+          randomAddress(),
+        ],
+        f: 1,
+        offchainConfigVersion: 1,
+        offchainConfig: '0x',
+      },
+      onchainConfig: {
+        checkGasLimit: 10000000,
+        maxPerformGas: 5000000,
+        maxCheckDataSize: 5000,
+        maxPerformDataSize: 2000,
+        maxRevertDataSize: 1000,
+        stalenessSeconds: 90000,
+        gasCeilingMultiplier: 2,
+        reorgProtectionEnabled: true,
+        upkeepPrivilegeManager: randomAddress(),
+        financeAdmin: randomAddress(),
+        fallbackGasPrice: 200,
+        fallbackPliPrice: 200000000,
+        fallbackNativePrice: 200000000,
+      },
+      billingTokens: [
+        {
+          token: pliToken.address,
+          gasFeePPB: 250000000,
+          flatFeeMilliCents: 0,
+          priceFeed: pliUSDFeed.address,
+          decimals: 18,
+          fallbackPrice: 200,
+          minSpend: toWei('0.1'),
+          minRegistrationFee: toWei('1'),
+        },
+      ],
+    }
+    writeConfig(config)
+  })
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('deploys, configures and registers upkeeps with a v2.3 registry', async () => {
+    await hre.run('automation:deploy', {
+      automationConfig: configPath,
+      manifest: manifestPath,
+    })
+    let manifest: AutomationManifest = readManifest(manifestPath)
+    assert.equal(manifest.network, 'hardhat')
+    assert.equal(manifest.deployer, await owner.getAddress())
+    const registry = await ethers.getContractAt(
+      'IAutomationRegistryMaster2_3',
+      manifest.contracts.registry,
+    )
+    const registrar = await ethers.getContractAt(
+      'AutomationRegistrar2_3',
+      manifest.contracts.registrar,
+    )
+    assert.equal(await registry.typeAndVersion(), 'AutomationRegistry 2.3.0')
+    assert.equal(await registrar.typeAndVersion(), 'AutomationRegistrar 2.3.0')
+    assert.equal(await registry.getPliAddress(), pliToken.address)
+
+    await hre.run('automation:set-config', {
+      automationConfig: configPath,
+      manifest: manifestPath,
+    })
+    manifest = readManifest(manifestPath)
+    assert.isDefined(manifest.config)
+    const { config: onchainConfig, transmitters } = await registry.getState()
+    assert.deepEqual(onchainConfig.registrars, [manifest.contracts.registrar])
+    assert.deepEqual(transmitters, config.ocr.transmitters)
+    assert.equal(
+      await registry.getChainModule(),
+      manifest.contracts.chainModule,
+    )
+    assert.deepEqual(await registry.getBillingTokens(), [pliToken.address])
+    const changes = await hre.run('automation:diff-config', {
+      automationConfig: configPath,
+      manifest: manifestPath,
+    })
+    assert.deepEqual(changes, [])
+
+    await hre.run('automation:register-upkeep', {
+      manifest: manifestPath,
+      target: upkeep.address,
+      name: 'test upkeep',
+      amount: toWei('5').toString(),
+    })
+    manifest = readManifest(manifestPath)
+    const [registered] = manifest.upkeeps
+    assert.equal(registered.name, 'test upkeep')
+    assert.isDefined(registered.id)
+    const info = await registry.getUpkeep(registered.id as string)
+    assert.equal(info.target, upkeep.address)
+    expect(info.balance).to.equal(toWei('5'))
+  })
+
+  it('reads YAML configs', async () => {
+    const yamlPath = path.join(dir, 'automation.yaml')
+    fs.writeFileSync(
+      yamlPath,
+      YAML.stringify(JSON.parse(JSON.stringify(config))),
+    )
+    assert.match(fs.readFileSync(yamlPath, 'utf8'), /pli: "0x[0-9a-fA-F]{40}"/)
+    assert.deepEqual(
+      loadAutomationConfig(yamlPath),
+      loadAutomationConfig(configPath),
+    )
+    const changes = await hre.run('automation:diff-config', {
+      automationConfig: yamlPath,
+      manifest: manifestPath,
+    })
+    assert.deepEqual(changes, [])
+
+    // unquoted addresses are read as numbers
+    fs.writeFileSync(yamlPath, `pli: ${config.pli}\n`)
+    assert.throws(
+      () => loadAutomationConfig(yamlPath),
+      /pli must be an address, got [\d.]+e\+\d+/,
+    )
+  })
+
+  it('rejects invalid configs', async () => {
+    writeConfig({
+      ...config,
+      pli: 'not an address',
+      billingTokens: [],
+      onchainConfig: { ...config.onchainConfig, stalenessSeconds: 2 ** 24 },
+    })
+    let message = ''
+    try {
+      await hre.run('automation:deploy', {
+        automationConfig: configPath,
+        manifest: manifestPath,
+      })
+    } catch (e) {
+      message = (e as Error).message
+    } finally {
+      writeConfig(config)
+    }
+    assert.include(message, 'pli must be an address')
+    assert.include(message, 'billingTokens must list at least one token')
+    assert.include(
+      message,
+      'onchainConfig.stalenessSeconds must fit in a uint24, got 16777216',
+    )
+  })
+})
@@ -12,6 +12,7 @@ import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
 import type { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
 import { validCrons } from '../../test-helpers/fixtures'
 import * as h from '../../test-helpers/helpers'
+import { clock } from '../../test-helpers/clock'
 
 const { utils } = ethers
 const { AddressZero } = ethers.constants
@@ -67,6 +68,8 @@ async function createBasicCron() {
 }
 
 describe('CronUpkeep', () => {
+  clock.scope()
+
   beforeEach(async () => {
     const accounts = await ethers.getSigners()
     admin = accounts[0]
@@ -110,10 +113,6 @@ describe('CronUpkeep', () => {
     basicSpec = await cronFactoryContract.encodeCronString(basicCronString)
   })
 
-  afterEach(async () => {
-    await h.reset()
-  })
-
   it('has a limited public ABI [ @skip-coverage ]', () => {
     // Casting cron is necessary due to a tricky versioning mismatch issue, likely between ethers
     // and typechain. Remove once the version issue is resolved.
@@ -170,7 +169,7 @@ describe('CronUpkeep', () => {
 
   describe('checkUpkeep() / performUpkeep()', () => {
     beforeEach(async () => {
-      await h.setTimestamp(timeStamp)
+      await clock.setTime(timeStamp)
       // id 1
       await cron.createCronJobFromString(
         cronReceiver1.address,
@@ -206,7 +205,7 @@ describe('CronUpkeep', () => {
       })
 
       it('returns the id of eligible cron jobs', async () => {
-        await h.fastForward(moment.duration(11, 'minutes').asSeconds())
+        await clock.advance(moment.duration(11, 'minutes').asSeconds())
         const [needsUpkeep, payload] = await cron
           .connect(AddressZero)
           .callStatic.checkUpkeep('0x')
@@ -217,22 +216,22 @@ describe('CronUpkeep', () => {
 
       describe('when mutiple crons are elligible', () => {
         it('cycles through the cron IDs based on block number', async () => {
-          await h.fastForward(moment.duration(1, 'year').asSeconds())
+          await clock.advance(moment.duration(1, 'year').asSeconds())
           let [_, payload] = await cron
             .connect(AddressZero)
             .callStatic.checkUpkeep('0x')
           const [id1] = decodePayload(payload)
-          await h.mineBlock(ethers.provider)
+          await clock.mine()
           ;[_, payload] = await cron
             .connect(AddressZero)
             .callStatic.checkUpkeep('0x')
           const [id2] = decodePayload(payload)
-          await h.mineBlock(ethers.provider)
+          await clock.mine()
           ;[_, payload] = await cron
             .connect(AddressZero)
             .callStatic.checkUpkeep('0x')
           const [id3] = decodePayload(payload)
-          await h.mineBlock(ethers.provider)
+          await clock.mine()
           ;[_, payload] = await cron
             .connect(AddressZero)
             .callStatic.checkUpkeep('0x')
@@ -247,7 +246,7 @@ describe('CronUpkeep', () => {
 
     describe('performUpkeep()', () => {
       it('forwards the call to the appropriate target/handler', async () => {
-        await h.fastForward(moment.duration(11, 'minutes').asSeconds())
+        await clock.advance(moment.duration(11, 'minutes').asSeconds())
         const [needsUpkeep, payload] = await cron
           .connect(AddressZero)
           .callStatic.checkUpkeep('0x')
@@ -259,7 +258,7 @@ describe('CronUpkeep', () => {
       })
 
       it('emits an event', async () => {
-        await h.fastForward(moment.duration(11, 'minutes').asSeconds())
+        await clock.advance(moment.duration(11, 'minutes').asSeconds())
         const [needsUpkeep, payload] = await cron
           .connect(AddressZero)
           .callStatic.checkUpkeep('0x')
@@ -271,7 +270,7 @@ describe('CronUpkeep', () => {
 
       it('succeeds even if the call to the target fails', async () => {
         await cron.deleteCronJob(2)
-        await h.fastForward(moment.duration(21, 'minutes').asSeconds())
+        await clock.advance(moment.duration(21, 'minutes').asSeconds())
         const payload = encodePayload([
           4,
           moment.unix(timeStamp).add(20, 'minutes').unix(),
@@ -284,7 +283,7 @@ describe('CronUpkeep', () => {
       })
 
       it('is only callable by anyone', async () => {
-        await h.fastForward(moment.duration(11, 'minutes').asSeconds())
+        await clock.advance(moment.duration(11, 'minutes').asSeconds())
         const [needsUpkeep, payload] = await cron
           .connect(AddressZero)
           .callStatic.checkUpkeep('0x')
@@ -293,7 +292,7 @@ describe('CronUpkeep', () => {
       })
 
       it('is only callable once for a given tick', async () => {
-        await h.fastForward(moment.duration(10, 'minutes').asSeconds())
+        await clock.advance(moment.duration(10, 'minutes').asSeconds())
         const [needsUpkeep, payload] = await cron
           .connect(AddressZero)
           .callStatic.checkUpkeep('0x')
@@ -307,10 +306,10 @@ describe('CronUpkeep', () => {
         await cron.performUpkeep(payload)
         await expect(cron.performUpkeep(payload)).to.be.reverted
         await expect(cron.performUpkeep(maliciousPayload)).to.be.reverted
-        await h.fastForward(moment.duration(1, 'minute').asSeconds())
+        await clock.advance(moment.duration(1, 'minute').asSeconds())
         await expect(cron.performUpkeep(payload)).to.be.reverted
         await expect(cron.performUpkeep(maliciousPayload)).to.be.reverted
-        await h.fastForward(moment.duration(10, 'minute').asSeconds())
+        await clock.advance(moment.duration(10, 'minute').asSeconds())
         await expect(cron.performUpkeep(payload)).to.be.reverted
         await expect(cron.performUpkeep(maliciousPayload)).to.be.reverted
       })
@@ -562,7 +561,7 @@ describe.skip('Cron Gas Usage', () => {
           handler1Sig,
           cronString,
         )
-        await h.fastForward(moment.duration(100, 'years').asSeconds()) // long enough that at least 1 tick occurs
+        await clock.advance(moment.duration(100, 'years').asSeconds()) // long enough that at least 1 tick occurs
         const [needsUpkeep, data] = await cron
           .connect(AddressZero)
           .callStatic.checkUpkeep('0x')
@@ -0,0 +1,219 @@
+import hre, { ethers } from 'hardhat'
+import { assert, expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Contract, Signer } from 'ethers'
+import { randomAddress, toWei } from '../../test-helpers/helpers'
+import { clock } from '../../test-helpers/clock'
+import { quietConsole } from '../../test-helpers/debug'
+import { readManifest } from '../../../tasks/automation/config'
+import {
+  CronUpkeepDeployment,
+  deployCronUpkeep,
+} from '../../../tasks/cron/upkeep'
+
+const timeStamp = 32503680000 // Jan 1, 3000 12:00AM
+
+describe('cron:deploy-upkeep', () => {
+  let owner: Signer
+  let pliToken: Contract
+  let factory: Contract
+  let registry: Contract
+  let registrar: Contract
+  let receiver1: Contract
+  let receiver2: Contract
+  let dir: string
+
+  quietConsole('test:tasks:cron')
+
+  before(async () => {
+    ;[owner] = await ethers.getSigners()
+    pliToken = await (
+      await ethers.getContractFactory(
+        'src/v0.8/shared/test/helpers/PliTokenTestHelper.sol:PliTokenTestHelper',
+      )
+    ).deploy()
+    const mockV3AggregatorFactory = await ethers.getContractFactory(
+      'src/v0.8/tests/MockV3Aggregator.sol:MockV3Aggregator',
+    )
+    const gasPriceFeed = await mockV3AggregatorFactory.deploy(0, 100)
+    const pliUSDFeed = await mockV3AggregatorFactory.deploy(8, 2000000000)
+    const nativeUSDFeed = await mockV3AggregatorFactory.deploy(8, 400000000000)
+    const cronLib = await (
+      await ethers.getContractFactory(
+        'src/v0.8/automation/libraries/external/Cron.sol:Cron',
+      )
+    ).deploy()
+    factory = await (
+      await ethers.getContractFactory('CronUpkeepFactory', {
+        libraries: { Cron: cronLib.address },
+      })
+    ).deploy()
+    const receiverFactory = await ethers.getContractFactory('CronReceiver')
+    receiver1 = await receiverFactory.deploy()
+    receiver2 = await receiverFactory.deploy()
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cron-deploy-'))
+    const configPath = path.join(dir, 'automation.json')
+    const manifestPath = path.join(dir, 'manifest.json')
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        pli: pliToken.address,
+        pliUSDFeed: pliUSDFeed.address,
+        nativeUSDFeed: nativeUSDFeed.address,
+        fastGasFeed: gasPriceFeed.address,
+        wrappedNativeToken: randomAddress(),
+        chainModule: 'ChainModuleBase',
+        registrar: {
+          triggers: [
+            {
+              triggerType: 'condition',
+              autoApprove: 'all',
+              autoApproveMaxAllowed: 10,
+            },
+          ],
+        },
+        ocr: {
+          signers: [
+            randomAddress(),
+            randomAddress(),
+            randomAddress(),
+            randomAddress(),
+          ],
+          transmitters: [
+            randomAddress(),
+            randomAddress(),
+            randomAddress(),
+            randomAddress(),
+          ],
+          f: 1,
+          offchainConfigVersion: 1,
+          offchainConfig: '0x',
+        },
+        onchainConfig: {
+          checkGasLimit: 10000000,
+          maxPerformGas: 5000000,
+          maxCheckDataSize: 5000,
+          maxPerformDataSize: 2000,
+          maxRevertDataSize: 1000,
+          stalenessSeconds: 90000,
+          gasCeilingMultiplier: 2,
+          reorgProtectionEnabled: true,
+          upkeepPrivilegeManager: randomAddress(),
+          financeAdmin: randomAddress(),
+          fallbackGasPrice: 200,
+          fallbackPliPrice: 200000000,
+          fallbackNativePrice: 200000000,
+        },
+        billingTokens: [
+          {
+            token: pliToken.address,
+            gasFeePPB: 250000000,
+            flatFeeMilliCents: 0,
+            priceFeed: pliUSDFeed.address,
+            decimals: 18,
+            fallbackPrice: 200,
+            minSpend: toWei('0.1').toString(),
+            minRegistrationFee: toWei('1').toString(),
+          },
+        ],
+      }),
+    )
+    await hre.run('automation:deploy', {
+      automationConfig: configPath,
+      manifest: manifestPath,
+    })
+    await hre.run('automation:set-config', {
+      automationConfig: configPath,
+      manifest: manifestPath,
+    })
+    const { contracts } = readManifest(manifestPath)
+    registry = await ethers.getContractAt(
+      'IAutomationRegistryMaster2_3',
+      contracts.registry,
+    )
+    registrar = await ethers.getContractAt(
+      'AutomationRegistrar2_3',
+      contracts.registrar,
+    )
+  })
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  clock.scope()
+
+  it('deploys a CronUpkeep with its jobs and registers it as a conditional upkeep', async () => {
+    await clock.setTime(timeStamp)
+    const jobsPath = path.join(dir, 'jobs.yaml')
+    fs.writeFileSync(
+      jobsPath,
+      [
+        'jobs:',
+        `  - target: '${receiver1.address}'`,
+        '    handler: handler1()',
+        "    cron: '0 0 * * *'",
+        `  - target: '${receiver2.address}'`,
+        '    handler: handler2()',
+        "    cron: '30 * * * *'",
+        '',
+      ].join('\n'),
+    )
+    const deployment: CronUpkeepDeployment = await hre.run(
+      'cron:deploy-upkeep',
+      {
+        factory: factory.address,
+        registrar: registrar.address,
+        jobs: jobsPath,
+        name: 'cron upkeep',
+        amount: toWei('5').toString(),
+      },
+    )
+
+    const upkeep = await ethers.getContractAt('CronUpkeep', deployment.upkeep)
+    assert.equal(await upkeep.owner(), await owner.getAddress())
+    assert.deepEqual(
+      deployment.jobs.map((job) => [job.target, job.cronString]),
+      [
+        [receiver1.address, '0 0 * * *'],
+        [receiver2.address, '30 * * * *'],
+      ],
+    )
+    assert.deepEqual(deployment.jobs[1].fireTimes.slice(0, 2), [
+      timeStamp + 1800,
+      timeStamp + 5400,
+    ])
+    assert.isDefined(deployment.upkeepId)
+    assert.isUndefined(deployment.requestHash)
+    const info = await registry.getUpkeep(deployment.upkeepId as string)
+    assert.equal(info.target, upkeep.address)
+    assert.equal(info.admin, await owner.getAddress())
+    expect(info.balance).to.equal(toWei('5'))
+  })
+
+  it('rejects more jobs than the factory allows before deploying', async () => {
+    const job = {
+      target: receiver1.address,
+      handler: 'handler1()',
+      cron: '0 0 * * *',
+    }
+    const blockNumber = await clock.blockNumber()
+    let message = ''
+    try {
+      await deployCronUpkeep(
+        hre,
+        factory.address,
+        registrar.address,
+        Array(6).fill(job),
+        { name: 'too many jobs', amount: toWei('5'), gasLimit: 500000 },
+      )
+    } catch (e) {
+      message = (e as Error).message
+    }
+    assert.equal(message, 'the factory allows 5 jobs per upkeep, got 6')
+    assert.equal(await clock.blockNumber(), blockNumber)
+  })
+})
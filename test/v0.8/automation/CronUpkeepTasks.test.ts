@@ -0,0 +1,220 @@
+import hre, { ethers } from 'hardhat'
+import { assert } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Contract } from 'ethers'
+import { clock } from '../../test-helpers/clock'
+import { quietConsole } from '../../test-helpers/debug'
+import {
+  CronJob,
+  CronJobChange,
+  planCronJobSync,
+  validateCronJobs,
+} from '../../../tasks/cron/jobs'
+
+const timeStamp = 32503680000 // Jan 1, 3000 12:00AM
+
+describe('cron tasks', () => {
+  let cronLib: Contract
+  let upkeep: Contract
+  let receiver1: Contract
+  let receiver2: Contract
+  let dir: string
+
+  quietConsole('test:tasks:cron')
+
+  before(async () => {
+    const [owner] = await ethers.getSigners()
+    cronLib = await (
+      await ethers.getContractFactory(
+        'src/v0.8/automation/libraries/external/Cron.sol:Cron',
+      )
+    ).deploy()
+    const delegate = await (
+      await ethers.getContractFactory('CronUpkeepDelegate')
+    ).deploy()
+    const upkeepFactory = await ethers.getContractFactory('CronUpkeep', {
+      libraries: { Cron: cronLib.address },
+    })
+    upkeep = await upkeepFactory.deploy(
+      await owner.getAddress(),
+      delegate.address,
+      3,
+      '0x',
+    )
+    const receiverFactory = await ethers.getContractFactory('CronReceiver')
+    receiver1 = await receiverFactory.deploy()
+    receiver2 = await receiverFactory.deploy()
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cron-tasks-'))
+  })
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  clock.scope()
+
+  const actions = (changes: CronJobChange[]) =>
+    changes.map((change) => change.action)
+
+  it('adds, lists, updates and deletes jobs', async () => {
+    await clock.setTime(timeStamp)
+    const id = await hre.run('cron:add', {
+      upkeep: upkeep.address,
+      target: receiver1.address,
+      handler: 'handler1()',
+      cron: '10 * * * *',
+    })
+    await hre.run('cron:add', {
+      upkeep: upkeep.address,
+      target: receiver2.address,
+      handler: receiver2.interface.getSighash('handler2'),
+      cron: '0 0 * * *',
+      cronLib: cronLib.address,
+    })
+
+    let jobs = await hre.run('cron:list', { upkeep: upkeep.address, ticks: 3 })
+    assert.lengthOf(jobs, 2)
+    assert.equal(jobs[0].id, id)
+    assert.equal(jobs[0].target, receiver1.address)
+    assert.equal(jobs[0].handler, receiver1.interface.getSighash('handler1'))
+    assert.equal(jobs[0].cronString, '10 * * * *')
+    assert.deepEqual(jobs[0].fireTimes, [
+      timeStamp + 600,
+      timeStamp + 4200,
+      timeStamp + 7800,
+    ])
+    assert.equal(jobs[0].nextTick, timeStamp + 600)
+    assert.equal(jobs[1].cronString, '0 0 * * *')
+
+    await hre.run('cron:update', {
+      upkeep: upkeep.address,
+      id,
+      target: receiver2.address,
+      handler: 'handler2()',
+      cron: '20 * * * *',
+    })
+    jobs = await hre.run('cron:list', { upkeep: upkeep.address, ticks: 1 })
+    assert.equal(jobs[0].target, receiver2.address)
+    assert.equal(jobs[0].cronString, '20 * * * *')
+
+    await hre.run('cron:delete', { upkeep: upkeep.address, id })
+    jobs = await hre.run('cron:list', { upkeep: upkeep.address, ticks: 1 })
+    assert.lengthOf(jobs, 1)
+    assert.notEqual(jobs[0].id, id)
+  })
+
+  it('syncs jobs from a YAML file, printing the plan before applying it', async () => {
+    await hre.run('cron:add', {
+      upkeep: upkeep.address,
+      target: receiver1.address,
+      handler: 'handler1()',
+      cron: '10 * * * *',
+    })
+    await hre.run('cron:add', {
+      upkeep: upkeep.address,
+      target: receiver1.address,
+      handler: 'handler2()',
+      cron: '0 0 * * *',
+    })
+    await hre.run('cron:add', {
+      upkeep: upkeep.address,
+      target: receiver1.address,
+      handler: 'revertHandler()',
+      cron: '0 0 * * *',
+    })
+    const jobsPath = path.join(dir, 'jobs.yaml')
+    fs.writeFileSync(
+      jobsPath,
+      [
+        'jobs:',
+        `  - target: '${receiver1.address}'`,
+        '    handler: handler1()',
+        "    cron: '10 * * * *'",
+        `  - target: '${receiver1.address}'`,
+        '    handler: handler2()',
+        "    cron: '30 0 * * 1-5'",
+        `  - target: '${receiver2.address}'`,
+        '    handler: handler1()',
+        "    cron: '0 * * * *'",
+        '',
+      ].join('\n'),
+    )
+
+    const plan = await hre.run('cron:sync', {
+      upkeep: upkeep.address,
+      jobs: jobsPath,
+    })
+    assert.deepEqual(actions(plan), ['unchanged', 'update', 'create', 'delete'])
+    let jobs = await hre.run('cron:list', { upkeep: upkeep.address, ticks: 1 })
+    assert.lengthOf(jobs, 3, 'a dry run changes nothing')
+
+    await hre.run('cron:sync', {
+      upkeep: upkeep.address,
+      jobs: jobsPath,
+      apply: true,
+    })
+    jobs = await hre.run('cron:list', { upkeep: upkeep.address, ticks: 1 })
+    assert.deepEqual(
+      jobs.map((job: CronJob) => [job.target, job.cronString]),
+      [
+        [receiver1.address, '10 * * * *'],
+        [receiver1.address, '30 0 * * 1-5'],
+        [receiver2.address, '0 * * * *'],
+      ],
+    )
+    const replan = await hre.run('cron:sync', {
+      upkeep: upkeep.address,
+      jobs: jobsPath,
+    })
+    assert.deepEqual(actions(replan), ['unchanged', 'unchanged', 'unchanged'])
+  })
+
+  describe('planCronJobSync()', () => {
+    const job = (
+      id: number | undefined,
+      handler: string,
+      cronString = '0 0 * * *',
+    ): CronJob => ({
+      id,
+      target: '0x000000000000000000000000000000000000dEaD',
+      handler,
+      cronString,
+    })
+
+    it('updates jobs by id, and matches the rest by target and handler', () => {
+      const changes = planCronJobSync(
+        [job(1, '0x11111111'), job(2, '0x22222222')],
+        [job(2, '0x33333333'), job(undefined, '0x11111111')],
+      )
+      assert.deepEqual(
+        changes.map((change) => [change.action, 'id' in change && change.id]),
+        [
+          ['update', 2],
+          ['unchanged', 1],
+        ],
+      )
+    })
+
+    it('rejects ids which do not exist', () => {
+      assert.throws(
+        () => planCronJobSync([], [job(7, '0x11111111')]),
+        'job 7 does not exist',
+      )
+    })
+  })
+
+  it('reports every problem in a jobs file', () => {
+    assert.throws(
+      () =>
+        validateCronJobs({
+          jobs: [
+            { target: 1234, handler: 'handler1()', cron: '0 0 * * *' },
+            { target: receiver1.address, handler: 'nope', cron: '61 * * * *' },
+          ],
+        }),
+      /jobs\[0\]\.target must be a quoted address[\s\S]*jobs\[1\]\.handler is invalid[\s\S]*jobs\[1\]\.cron is invalid/,
+    )
+  })
+})
@@ -7,6 +7,7 @@ import { ReceiveEmitter } from '../../../typechain/ReceiveEmitter'
 import { ReceiveFallbackEmitter } from '../../../typechain/ReceiveFallbackEmitter'
 import { BigNumber } from 'ethers'
 import * as h from '../../test-helpers/helpers'
+import { clock } from '../../test-helpers/clock'
 
 const OWNABLE_ERR = 'Only callable by owner'
 const INVALID_WATCHLIST_ERR = `InvalidWatchList`
@@ -54,7 +55,7 @@ let stranger: SignerWithAddress
 let keeperRegistry: SignerWithAddress
 
 describe('EthBalanceMonitor', () => {
-  beforeEach(async () => {
+  before(async () => {
     const accounts = await ethers.getSigners()
     owner = accounts[0]
     stranger = accounts[1]
@@ -85,9 +86,7 @@ describe('EthBalanceMonitor', () => {
     ])
   })
 
-  afterEach(async () => {
-    await h.reset()
-  })
+  clock.scope()
 
   describe('receive()', () => {
     it('Should allow anyone to add funds', async () => {
@@ -404,10 +403,9 @@ describe('EthBalanceMonitor', () => {
         value: sixEth,
       })
       await Promise.all([setWaitPdTx.wait(), fundTx.wait()])
-      const block = await ethers.provider.getBlock('latest')
       const setTopUpTx = await bm.setLastTopUpXXXTestOnly(
         watchAddress2,
-        block.timestamp - 100,
+        (await clock.now()) - 100,
       )
       await setTopUpTx.wait()
       const [should, payload] = await bm.checkUpkeep('0x')
@@ -549,10 +547,9 @@ describe('EthBalanceMonitor', () => {
       it('Should not fund addresses that have been funded recently', async () => {
         const setWaitPdTx = await bm.setMinWaitPeriodSeconds(3600) // 1 hour
         await setWaitPdTx.wait()
-        const block = await ethers.provider.getBlock('latest')
         const setTopUpTx = await bm.setLastTopUpXXXTestOnly(
           watchAddress2,
-          block.timestamp - 100,
+          (await clock.now()) - 100,
         )
         await setTopUpTx.wait()
         await assertWatchlistBalances(0, 0, 0, 0, 10_000, 10_000)
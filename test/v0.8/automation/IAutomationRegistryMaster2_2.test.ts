@@ -1,5 +1,3 @@
-import fs from 'fs'
-import { ethers } from 'hardhat'
 import { assert } from 'chai'
 import { AutomationRegistry2_2__factory as AutomationRegistryFactory } from '../../../typechain/factories/AutomationRegistry2_2__factory'
 import { AutomationRegistryLogicA2_2__factory as AutomationRegistryLogicAFactory } from '../../../typechain/factories/AutomationRegistryLogicA2_2__factory'
@@ -17,6 +15,8 @@ import {
   assertSatisfiesInterface,
   entryID,
 } from './helpers'
+import { checkMasterInterface } from '../../../scripts/lib/master-interface'
+import { getMasterInterface } from '../../../scripts/generate-master-interface'
 
 const compositeABIs = [
   AutomationRegistryFactory.abi,
@@ -32,17 +32,12 @@ const compositeABIs = [
  */
 describe('IAutomationRegistryMaster2_2', () => {
   it('is up to date', async () => {
-    const checksum = ethers.utils.id(compositeABIs.join(''))
-    const knownChecksum = fs
-      .readFileSync(
-        'src/v0.8/automation/interfaces/v2_2/IAutomationRegistryMaster.sol',
-      )
-      .toString()
-      .slice(17, 83) // checksum located at top of file
-    assert.equal(
-      checksum,
-      knownChecksum,
-      'master interface is out of date - regenerate using "pnpm ts-node ./scripts/generate-automation-master-interface.ts"',
+    const problems = checkMasterInterface(
+      getMasterInterface('IAutomationRegistryMaster'),
+    )
+    assert.isEmpty(
+      problems,
+      `master interface is out of date - regenerate using "pnpm ts-node ./scripts/generate-master-interface.ts IAutomationRegistryMaster":\n  ${problems.join('\n  ')}`,
     )
   })
 
@@ -1,5 +1,3 @@
-import fs from 'fs'
-import { ethers } from 'hardhat'
 import { assert } from 'chai'
 import { AutomationRegistry2_3__factory as AutomationRegistryFactory } from '../../../typechain/factories/AutomationRegistry2_3__factory'
 import { AutomationRegistryLogicA2_3__factory as AutomationRegistryLogicAFactory } from '../../../typechain/factories/AutomationRegistryLogicA2_3__factory'
@@ -17,6 +15,12 @@ import {
   assertSatisfiesInterface,
   entryID,
 } from './helpers'
+import {
+  checkMasterInterface,
+  combineABIs,
+  diffABIs,
+} from '../../../scripts/lib/master-interface'
+import { getMasterInterface } from '../../../scripts/generate-master-interface'
 
 const compositeABIs = [
   AutomationRegistryFactory.abi,
@@ -33,20 +37,117 @@ const compositeABIs = [
  */
 describe('IAutomationRegistryMaster2_3', () => {
   it('is up to date', async () => {
-    const checksum = ethers.utils.id(compositeABIs.join(''))
-    const knownChecksum = fs
-      .readFileSync(
-        'src/v0.8/automation/interfaces/v2_3/IAutomationRegistryMaster2_3.sol',
-      )
-      .toString()
-      .slice(17, 83) // checksum located at top of file
+    const problems = checkMasterInterface(
+      getMasterInterface('IAutomationRegistryMaster2_3'),
+    )
+    assert.isEmpty(
+      problems,
+      `master interface is out of date - regenerate using "pnpm ts-node ./scripts/generate-master-interface.ts IAutomationRegistryMaster2_3":\n  ${problems.join('\n  ')}`,
+    )
+  })
+
+  it('combines the composite ABIs with the view overrides applied', async () => {
+    const combined = combineABIs(compositeABIs, ['checkUpkeep'])
+    const checkUpkeeps = combined.filter(
+      (entry) => entry.type === 'function' && entry.name === 'checkUpkeep',
+    )
+    assert.isNotEmpty(checkUpkeeps)
+    for (const entry of checkUpkeeps) {
+      assert.equal(entry.stateMutability, 'view')
+    }
     assert.equal(
-      checksum,
-      knownChecksum,
-      'master interface is out of date - regenerate using "pnpm ts-node ./scripts/generate-automation-master-interface2_3.ts"',
+      new Set(combined.map((entry) => JSON.stringify(entry))).size,
+      combined.length,
     )
   })
 
+  it('lists the functions and events which drifted from the contracts', async () => {
+    const expected = [
+      {
+        type: 'function',
+        name: 'getBalance',
+        inputs: [{ type: 'uint256' }],
+        outputs: [{ type: 'uint96' }],
+        stateMutability: 'view',
+      },
+      {
+        type: 'function',
+        name: 'pause',
+        inputs: [],
+        outputs: [],
+        stateMutability: 'nonpayable',
+      },
+      {
+        type: 'event',
+        name: 'Paused',
+        inputs: [{ type: 'address', indexed: true }],
+        anonymous: false,
+      },
+    ]
+    const actual = [
+      {
+        type: 'function',
+        name: 'getBalance',
+        inputs: [{ type: 'uint256' }],
+        outputs: [{ type: 'uint256' }],
+        stateMutability: 'view',
+      },
+      {
+        type: 'event',
+        name: 'Paused',
+        inputs: [{ type: 'address', indexed: true }],
+        anonymous: false,
+      },
+      {
+        type: 'error',
+        name: 'OnlyPausedUpkeep',
+        inputs: [],
+      },
+    ]
+    assert.deepEqual(diffABIs(expected, actual), {
+      added: ['function pause()'],
+      removed: ['error OnlyPausedUpkeep()'],
+      changed: ['function getBalance(uint256)'],
+    })
+    assert.deepEqual(diffABIs(expected, expected), {
+      added: [],
+      removed: [],
+      changed: [],
+    })
+  })
+
+  it('lists the functions whose struct fields drifted from the contracts', async () => {
+    const upkeepInfo = (balanceType: string) => ({
+      type: 'tuple',
+      name: 'upkeepInfo',
+      components: [
+        { type: 'address', name: 'target' },
+        { type: balanceType, name: 'balance' },
+      ],
+    })
+    const entries = (balanceType: string) => [
+      {
+        type: 'function',
+        name: 'getUpkeep',
+        inputs: [{ type: 'uint256', name: 'id' }],
+        outputs: [upkeepInfo(balanceType)],
+        stateMutability: 'view',
+      },
+      {
+        type: 'function',
+        name: 'setUpkeep',
+        inputs: [{ type: 'uint256', name: 'id' }, upkeepInfo(balanceType)],
+        outputs: [],
+        stateMutability: 'nonpayable',
+      },
+    ]
+    assert.deepEqual(diffABIs(entries('uint96'), entries('uint256')), {
+      added: ['function setUpkeep(uint256,(address,uint96))'],
+      removed: ['function setUpkeep(uint256,(address,uint256))'],
+      changed: ['function getUpkeep(uint256)'],
+    })
+  })
+
   it('is generated from composite contracts without competing definitions', async () => {
     const sharedEntries = [
       ...ChainableFactory.abi,
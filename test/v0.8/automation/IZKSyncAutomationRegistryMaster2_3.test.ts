@@ -0,0 +1,32 @@
+import { assert } from 'chai'
+import { IZKSyncAutomationRegistryMaster2_3__factory as IZKSyncAutomationRegistryMasterFactory } from '../../../typechain/factories/IZKSyncAutomationRegistryMaster2_3__factory'
+import { IAutomationV21PlusCommon__factory as IAutomationV21PlusCommonFactory } from '../../../typechain/factories/IAutomationV21PlusCommon__factory'
+import { checkMasterInterface } from '../../../scripts/lib/master-interface'
+import { getMasterInterface } from '../../../scripts/generate-master-interface'
+import { assertSatisfiesEvents, assertSatisfiesInterface } from './helpers'
+
+describe('IZKSyncAutomationRegistryMaster2_3', () => {
+  it('is up to date', async () => {
+    const problems = checkMasterInterface(
+      getMasterInterface('IZKSyncAutomationRegistryMaster2_3'),
+    )
+    assert.isEmpty(
+      problems,
+      `master interface is out of date - regenerate using "pnpm ts-node ./scripts/generate-master-interface.ts IZKSyncAutomationRegistryMaster2_3":\n  ${problems.join('\n  ')}`,
+    )
+  })
+
+  it('satisfies the IAutomationV2Common interface', async () => {
+    assertSatisfiesInterface(
+      IZKSyncAutomationRegistryMasterFactory.abi,
+      IAutomationV21PlusCommonFactory.abi,
+    )
+  })
+
+  it('satisfies the IAutomationV2Common events', async () => {
+    assertSatisfiesEvents(
+      IZKSyncAutomationRegistryMasterFactory.abi,
+      IAutomationV21PlusCommonFactory.abi,
+    )
+  })
+})
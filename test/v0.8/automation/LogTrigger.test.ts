@@ -0,0 +1,150 @@
+import { ethers } from 'hardhat'
+import { assert } from 'chai'
+import { BigNumber, Contract } from 'ethers'
+import { randomAddress } from '../../test-helpers/helpers'
+import { clock } from '../../test-helpers/clock'
+import {
+  decodeLogTriggerConfig,
+  encodeLogTriggerConfig,
+  makeLogTriggerConfig,
+  matchesLogTriggerConfig,
+} from '../../test-helpers/automation/upkeep'
+import {
+  findLogTriggers,
+  logTriggerDedupKey,
+  makeLogTrigger,
+} from '../../test-helpers/automation/logTrigger'
+
+const limitOrderSent = ethers.utils.id(
+  'LimitOrderSent(uint256,uint256,address)',
+)
+const limitOrderExecuted = ethers.utils.id(
+  'LimitOrderExecuted(uint256,uint256,address)',
+)
+const topic = (value: number | string) =>
+  ethers.utils.hexZeroPad(ethers.utils.hexlify(value), 32)
+
+describe('LogTrigger', () => {
+  let protocol: Contract
+
+  before(async () => {
+    protocol = await (await ethers.getContractFactory('DummyProtocol')).deploy()
+  })
+
+  clock.scope()
+
+  it('encodes trigger configs the way contracts build them', async () => {
+    const exchange = randomAddress()
+    const basic = makeLogTriggerConfig(protocol.address, limitOrderSent)
+    assert.equal(basic.filterSelector, 0)
+    assert.equal(
+      encodeLogTriggerConfig(basic),
+      await protocol.getBasicLogTriggerConfig(protocol.address, limitOrderSent),
+    )
+
+    const advanced = makeLogTriggerConfig(protocol.address, limitOrderSent, {
+      topic1: topic(100),
+      topic3: topic(exchange),
+    })
+    assert.equal(advanced.filterSelector, 5)
+    const encoded = await protocol.getAdvancedLogTriggerConfig(
+      protocol.address,
+      5,
+      limitOrderSent,
+      topic(100),
+      ethers.constants.HashZero,
+      topic(exchange),
+    )
+    assert.equal(encodeLogTriggerConfig(advanced), encoded)
+    assert.deepEqual(decodeLogTriggerConfig(encoded), advanced)
+  })
+
+  it('matches logs by address, signature and the selected topics', async () => {
+    const exchange = randomAddress()
+    const receipt = await (
+      await protocol.sendLimitedOrder(100, 7, exchange)
+    ).wait()
+    const [log] = receipt.logs
+    const matches = (topics: Parameters<typeof makeLogTriggerConfig>[2]) =>
+      matchesLogTriggerConfig(
+        makeLogTriggerConfig(protocol.address, limitOrderSent, topics),
+        log,
+      )
+
+    assert.isTrue(matches({}))
+    assert.isTrue(matches({ topic1: topic(100), topic3: topic(exchange) }))
+    assert.isFalse(matches({ topic1: topic(101) }))
+    assert.isFalse(matches({ topic3: topic(randomAddress()) }))
+    assert.isFalse(
+      matchesLogTriggerConfig(
+        makeLogTriggerConfig(protocol.address, limitOrderExecuted),
+        log,
+      ),
+    )
+    assert.isFalse(
+      matchesLogTriggerConfig(
+        makeLogTriggerConfig(randomAddress(), limitOrderSent),
+        log,
+      ),
+    )
+  })
+
+  it('finds the logs in a block range that trigger each upkeep', async () => {
+    const exchange = randomAddress()
+    const fromBlock = (await clock.blockNumber()) + 1
+    const sent1 = await protocol.sendLimitedOrder(100, 7, exchange)
+    await protocol.sendLimitedOrder(200, 7, randomAddress())
+    const executed = await protocol.executeLimitOrder(1, 100, exchange)
+    const sent2 = await protocol.sendLimitedOrder(300, 7, exchange)
+    const upkeeps = [
+      {
+        id: BigNumber.from(1),
+        config: makeLogTriggerConfig(protocol.address, limitOrderSent, {
+          topic3: topic(exchange),
+        }),
+      },
+      {
+        id: BigNumber.from(2),
+        config: makeLogTriggerConfig(protocol.address, limitOrderExecuted),
+      },
+    ]
+
+    const matches = await findLogTriggers(
+      ethers.provider,
+      upkeeps,
+      fromBlock,
+      await clock.blockNumber(),
+    )
+    assert.deepEqual(
+      matches.map((m) => [m.upkeepId.toNumber(), m.rawLog.transactionHash]),
+      [
+        [1, sent1.hash],
+        [2, executed.hash],
+        [1, sent2.hash],
+      ],
+    )
+    const [first] = matches
+    const block = await ethers.provider.getBlock(first.rawLog.blockNumber)
+    assert.equal(first.log.timestamp.toString(), block.timestamp.toString())
+    assert.equal(first.log.source, protocol.address)
+    assert.deepEqual(first.log.topics, first.rawLog.topics)
+
+    const trigger = makeLogTrigger(first, block.number)
+    assert.equal(trigger.txHash, sent1.hash)
+    assert.equal(trigger.logBlockHash, block.hash)
+    assert.equal(
+      logTriggerDedupKey(1, trigger),
+      ethers.utils.keccak256(
+        ethers.utils.concat([
+          topic(1),
+          block.hash,
+          sent1.hash,
+          ethers.utils.hexZeroPad(
+            ethers.utils.hexlify(first.rawLog.logIndex),
+            4,
+          ),
+        ]),
+      ),
+    )
+  })
+})
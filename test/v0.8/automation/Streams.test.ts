@@ -0,0 +1,172 @@
+import { ethers } from 'hardhat'
+import { assert } from 'chai'
+import { BigNumber, utils } from 'ethers'
+import { randomAddress } from '../../test-helpers/helpers'
+import { clock } from '../../test-helpers/clock'
+import { reportContextDigest } from '../../test-helpers/automation/report'
+import {
+  StreamsLookup,
+  StreamsServer,
+  decodeSignedStreamsReport,
+  decodeStreamsLookup,
+  fetchStreamsReports,
+  streamsLookupInterface,
+} from '../../test-helpers/automation/streams'
+
+const ethFeedId = utils.id('ETH / USD')
+const btcFeedId = utils.id('BTC / USD')
+
+describe('StreamsServer', () => {
+  let server: StreamsServer
+
+  before(async () => {
+    server = await StreamsServer.start({
+      provider: ethers.provider,
+      feeds: [
+        { feedId: ethFeedId, price: 3000_00000000 },
+        { feedId: btcFeedId, price: 60000_00000000, bid: 59999_00000000 },
+      ],
+    })
+  })
+
+  after(async () => {
+    await server.stop()
+  })
+
+  clock.scope()
+
+  const lookup = (
+    feedParamKey: string,
+    feeds: string[],
+    timeParamKey: string,
+    time: number,
+  ): StreamsLookup => ({
+    feedParamKey,
+    feeds,
+    timeParamKey,
+    time: BigNumber.from(time),
+    extraData: '0x',
+  })
+
+  it('decodes the StreamsLookup a check reverts with', () => {
+    const revertData = streamsLookupInterface.encodeErrorResult(
+      'StreamsLookup',
+      ['feedIDs', [ethFeedId], 'timestamp', 100, '0x1234'],
+    )
+    const decoded = decodeStreamsLookup(revertData)
+    assert.deepEqual(decoded?.feeds, [ethFeedId])
+    assert.equal(decoded?.time.toNumber(), 100)
+    assert.equal(decoded?.extraData, '0x1234')
+    assert.isUndefined(decodeStreamsLookup('0x08c379a0'))
+    assert.isUndefined(decodeStreamsLookup('0x'))
+  })
+
+  it('serves V3 reports signed by its signers on the v0.3 API', async () => {
+    const timestamp = await clock.now()
+    const values = await fetchStreamsReports(
+      server.url,
+      lookup('feedIDs', [btcFeedId, ethFeedId], 'timestamp', timestamp),
+    )
+    assert.lengthOf(values, 2)
+    const { reportContext, reportData, rs, ss, rawVs } =
+      decodeSignedStreamsReport(values[0])
+    const [feedId, observationsTimestamp, , , , expiresAt, price, bid, ask] =
+      utils.defaultAbiCoder.decode(
+        [
+          'bytes32',
+          'uint32',
+          'uint32',
+          'uint192',
+          'uint192',
+          'uint32',
+          'int192',
+          'int192',
+          'int192',
+        ],
+        reportData,
+      )
+    assert.equal(feedId, btcFeedId)
+    assert.equal(observationsTimestamp, timestamp)
+    assert.equal(expiresAt, timestamp + 3600)
+    assert.equal(price.toString(), '6000000000000')
+    assert.equal(bid.toString(), '5999900000000')
+    assert.equal(ask.toString(), '6000000000000')
+
+    const digest = reportContextDigest(reportContext, reportData)
+    const vs = utils.arrayify(rawVs)
+    assert.deepEqual(
+      rs.map((r, idx) =>
+        utils.recoverAddress(digest, { r, s: ss[idx], v: vs[idx] + 27 }),
+      ),
+      server.signerAddresses,
+    )
+  })
+
+  it('serves V1 reports of the looked up block on the v0.2 API', async () => {
+    server.setFeed({ feedId: ethFeedId, price: 3100_00000000 })
+    const block = await ethers.provider.getBlock('latest')
+    const [value] = await fetchStreamsReports(
+      server.url,
+      lookup('feedIdHex', [ethFeedId], 'blockNumber', block.number),
+    )
+    const { reportData } = decodeSignedStreamsReport(value)
+    const [feedId, observationsTimestamp, median, , , upperBound, upperHash] =
+      utils.defaultAbiCoder.decode(
+        [
+          'bytes32',
+          'uint32',
+          'int192',
+          'int192',
+          'int192',
+          'uint64',
+          'bytes32',
+          'uint64',
+          'uint64',
+        ],
+        reportData,
+      )
+    assert.equal(feedId, ethFeedId)
+    assert.equal(observationsTimestamp, block.timestamp)
+    assert.equal(median.toString(), '310000000000')
+    assert.equal(upperBound.toNumber(), block.number)
+    assert.equal(upperHash, block.hash)
+  })
+
+  it('serves reports MercuryRegistry decodes in its callback', async () => {
+    const mercury = await (
+      await ethers.getContractFactory('MercuryRegistry')
+    ).deploy([ethFeedId], ['ETH / USD'], [15000], [60], randomAddress())
+    const values = await fetchStreamsReports(
+      server.url,
+      lookup(
+        'feedIdHex',
+        [ethFeedId],
+        'blockNumber',
+        await clock.blockNumber(),
+      ),
+    )
+    const [upkeepNeeded, performData] = await mercury.checkCallback(
+      values,
+      '0x',
+    )
+    assert.isTrue(upkeepNeeded, 'the feed has never been updated on-chain')
+    const [filtered] = utils.defaultAbiCoder.decode(
+      ['bytes[]', 'bytes'],
+      performData,
+    )
+    assert.deepEqual(filtered, values)
+  })
+
+  it('rejects lookups of feeds it does not serve', async () => {
+    let message = ''
+    try {
+      await fetchStreamsReports(
+        server.url,
+        lookup('feedIDs', [utils.id('unknown')], 'timestamp', 100),
+      )
+    } catch (e) {
+      message = (e as Error).message
+    }
+    assert.include(message, 'unknown feed')
+  })
+})
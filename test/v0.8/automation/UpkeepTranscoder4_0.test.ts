@@ -23,6 +23,17 @@ import {
   UpkeepMock,
 } from '../../../typechain'
 import { deployRegistry21 } from './helpers'
+import {
+  compareRegistryVersions,
+  dryRunMigration,
+  findMigrationHop,
+  findMigrationPath,
+  MigrationHop,
+  formatMigrationReport,
+  getRegistryVersion,
+  MigrationPermission,
+  planMigration,
+} from '../../test-helpers/automation/migration'
 
 //////////////////////////////////////////////////////////////////////////////////////////////////
 //////////////////////////////////////////////////////////////////////////////////////////////////
@@ -652,3 +663,140 @@ describe('UpkeepTranscoder4_0', () => {
     })
   })
 })
+
+describe('Upkeep migration planner', () => {
+  beforeEach(async () => {
+    await loadFixture(setup)
+  })
+
+  const rejection = async (promise: Promise<unknown>): Promise<string> => {
+    try {
+      await promise
+    } catch (e) {
+      return (e as Error).message
+    }
+    throw Error('expected promise to be rejected')
+  }
+
+  it('picks the transcoder for each migration path', async () => {
+    assert.equal(getRegistryVersion('KeeperRegistry 2.0.2'), '2.0')
+    assert.equal(getRegistryVersion('AutomationRegistry 2.3.0'), '2.3')
+    assert.deepEqual(findMigrationPath('1.2', '2.0'), [
+      { from: '1.2', to: '2.0', transcoder: 'UpkeepTranscoder 3.0.0' },
+    ])
+    assert.deepEqual(findMigrationPath('1.3', '2.2'), [
+      { from: '1.3', to: '2.2', transcoder: 'UpkeepTranscoder 4.0.0' },
+    ])
+    assert.deepEqual(findMigrationPath('2.3', '2.3'), [
+      { from: '2.3', to: '2.3', transcoder: 'UpkeepTranscoder 5.0.0' },
+    ])
+    assert.throws(
+      () => findMigrationPath('2.1', '2.3'),
+      'no migration path from v2.1 to v2.3',
+    )
+  })
+
+  it('compares registry versions numerically', async () => {
+    assert.isBelow(compareRegistryVersions('2.3', '2.10'), 0)
+    assert.isAbove(compareRegistryVersions('2.10', '2.3'), 0)
+    assert.isBelow(compareRegistryVersions('1.3', '2.0'), 0)
+    assert.equal(compareRegistryVersions('2.1', '2.1.0'), 0)
+  })
+
+  it('rejects migrations which need more than one hop', async () => {
+    const hops: MigrationHop[] = [
+      { from: '2.0', to: '2.1', transcoder: 'UpkeepTranscoder 4.0.0' },
+      { from: '2.1', to: '2.3', transcoder: 'UpkeepTranscoder 5.0.0' },
+    ]
+    assert.deepEqual(findMigrationPath('2.0', '2.3', hops), hops)
+    assert.deepEqual(findMigrationHop('2.1', '2.3', hops), hops[1])
+    assert.throws(
+      () => findMigrationHop('2.0', '2.3', hops),
+      'cannot migrate from v2.0 to v2.3 directly, migrate through v2.0 -> v2.1 -> v2.3',
+    )
+  })
+
+  it('dry runs a migration without changing either registry', async () => {
+    await pliToken.connect(owner).approve(registry12.address, toWei('1000'))
+    await registry12.connect(owner).addFunds(id12, toWei('1000'))
+
+    const plan = await planMigration([registry12, registry21], [id12])
+    assert.isEmpty(plan.issues)
+    assert.equal(plan.steps[0].transcoder.address, transcoder.address)
+    assert.deepEqual(plan.steps[0].permitted, {
+      outgoing: false,
+      incoming: false,
+    })
+
+    const report = await dryRunMigration(plan, ethers.provider)
+    assert.isTrue(report.success)
+    const [upkeep] = report.upkeeps
+    assert.isEmpty(upkeep.diffs)
+    expect(upkeep.after?.balance).to.equal(toWei('1000'))
+    assert.equal(upkeep.after?.admin, await admin0.getAddress())
+    assert.equal(upkeep.after?.checkData, randomBytes)
+    assert.equal(upkeep.after?.gasLimit, executeGas.toNumber())
+    assert.include(
+      formatMigrationReport(report),
+      `upkeep ${id12.toString()}: unchanged`,
+    )
+
+    expect((await registry12.getState()).state.numUpkeeps).to.equal(1)
+    expect((await registry21.getState()).state.numUpkeeps).to.equal(0)
+    expect((await registry12.getUpkeep(id12)).balance).to.equal(toWei('1000'))
+    expect(
+      await registry12.getPeerRegistryMigrationPermission(registry21.address),
+    ).to.equal(MigrationPermission.NONE)
+  })
+
+  it('reports upkeeps which fail to migrate', async () => {
+    await registry13.setPeerRegistryMigrationPermission(
+      registry21.address,
+      MigrationPermission.OUTGOING,
+    )
+    await registry21.setPeerRegistryMigrationPermission(
+      registry13.address,
+      MigrationPermission.INCOMING,
+    )
+    await registry13.connect(admin0).cancelUpkeep(id13)
+
+    const plan = await planMigration([registry13, registry21], [id13])
+    assert.deepEqual(plan.steps[0].permitted, {
+      outgoing: true,
+      incoming: true,
+    })
+    const report = await dryRunMigration(plan, ethers.provider)
+    assert.isFalse(report.success)
+    assert.isUndefined(report.upkeeps[0].after)
+    assert.include(
+      report.upkeeps[0].error,
+      'migration from v1.3 to v2.1 failed',
+    )
+  })
+
+  it('refuses to dry run plans with issues', async () => {
+    const plan = await planMigration([registry20, registry21], [id20, 999])
+    assert.deepEqual(plan.issues, [
+      'upkeep 999 does not exist on the source registry',
+    ])
+    assert.include(
+      await rejection(dryRunMigration(plan, ethers.provider)),
+      'cannot dry run migration',
+    )
+
+    // registry 1.2 is configured with transcoder 4.0, which can't migrate to v2.0
+    const wrongTranscoderPlan = await planMigration(
+      [registry12, registry20],
+      [id12],
+    )
+    assert.include(
+      wrongTranscoderPlan.issues[0],
+      'migrating from v1.2 to v2.0 requires UpkeepTranscoder 3.0.0',
+    )
+
+    assert.include(
+      await rejection(planMigration([registry21, registry20], [id20])),
+      'no migration path from v2.1 to v2.0',
+    )
+  })
+})
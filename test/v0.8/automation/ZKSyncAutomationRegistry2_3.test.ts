@@ -8,7 +8,6 @@ import {
   Contract,
   ContractFactory,
   ContractReceipt,
-  ContractTransaction,
   Signer,
   Wallet,
 } from 'ethers'
@@ -44,7 +43,26 @@ import {
   MockContract,
 } from '@ethereum-waffle/mock-contract'
 import { deployZKSyncRegistry23 } from './helpers'
-import { AutomationUtils2_3 } from '../../../typechain/AutomationUtils2_3'
+import {
+  encodeReport,
+  epochAndRound5_1,
+  makeReport as buildReport,
+  makeReportContext,
+  quorumSigners,
+  signAndTransmit,
+  signReport,
+  transmitSigned,
+  UpkeepData,
+} from '../../test-helpers/automation/report'
+import {
+  encodeBlockTrigger,
+  encodeLog,
+  encodeLogTrigger,
+  getTriggerType,
+  getUpkeepID,
+  Log,
+  Trigger,
+} from '../../test-helpers/automation/upkeep'
 
 const describeMaybe = process.env.SKIP_SLOW ? describe.skip : describe
 const itMaybe = process.env.SKIP_SLOW ? it.skip : it
@@ -63,19 +81,7 @@ enum UpkeepFailureReason {
   REGISTRY_PAUSED,
 }
 
-// copied from AutomationRegistryBase2_3.sol
-enum Trigger {
-  CONDITION,
-  LOG,
-}
-
 // un-exported types that must be extracted from the utils contract
-type Report = Parameters<AutomationUtils2_3['_report']>[0]
-type LogTrigger = Parameters<AutomationCompatibleUtils['_logTrigger']>[0]
-type ConditionalTrigger = Parameters<
-  AutomationCompatibleUtils['_conditionalTrigger']
->[0]
-type Log = Parameters<AutomationCompatibleUtils['_log']>[0]
 type OnChainConfig = Parameters<IAutomationRegistry['setConfigTypeSafe']>[3]
 
 // -----------------------------------------------------------------------------------------------
@@ -132,8 +138,6 @@ const offchainVersion = 1
 const offchainBytes = '0x'
 const zeroAddress = ethers.constants.AddressZero
 const wrappedNativeTokenAddress = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
-const epochAndRound5_1 =
-  '0x0000000000000000000000000000000000000000000000000000000000000501'
 
 let logTriggerConfig: string
 
@@ -166,89 +170,13 @@ let mockGasBoundCaller: MockGasBoundCaller
 let mockZKSyncSystemContext: MockZKSyncSystemContext
 let streamsLookupUpkeep: StreamsLookupUpkeep
 let automationUtils: AutomationCompatibleUtils
-let automationUtils2_3: AutomationUtils2_3
 
 function now() {
   return Math.floor(Date.now() / 1000)
 }
 
-async function getUpkeepID(tx: ContractTransaction): Promise<BigNumber> {
-  const receipt = await tx.wait()
-  for (const event of receipt.events || []) {
-    if (
-      event.args &&
-      event.eventSignature == 'UpkeepRegistered(uint256,uint32,address)'
-    ) {
-      return event.args[0]
-    }
-  }
-  throw new Error('could not find upkeep ID in tx event logs')
-}
-
-const getTriggerType = (upkeepId: BigNumber): Trigger => {
-  const hexBytes = ethers.utils.defaultAbiCoder.encode(['uint256'], [upkeepId])
-  const bytes = ethers.utils.arrayify(hexBytes)
-  for (let idx = 4; idx < 15; idx++) {
-    if (bytes[idx] != 0) {
-      return Trigger.CONDITION
-    }
-  }
-  return bytes[15] as Trigger
-}
-
-const encodeBlockTrigger = (conditionalTrigger: ConditionalTrigger) => {
-  return (
-    '0x' +
-    automationUtils.interface
-      .encodeFunctionData('_conditionalTrigger', [conditionalTrigger])
-      .slice(10)
-  )
-}
-
-const encodeLogTrigger = (logTrigger: LogTrigger) => {
-  return (
-    '0x' +
-    automationUtils.interface
-      .encodeFunctionData('_logTrigger', [logTrigger])
-      .slice(10)
-  )
-}
-
-const encodeLog = (log: Log) => {
-  return (
-    '0x' + automationUtils.interface.encodeFunctionData('_log', [log]).slice(10)
-  )
-}
-
-const encodeReport = (report: Report) => {
-  return (
-    '0x' +
-    automationUtils2_3.interface
-      .encodeFunctionData('_report', [report])
-      .slice(10)
-  )
-}
-
-type UpkeepData = {
-  Id: BigNumberish
-  performGas: BigNumberish
-  performData: BytesLike
-  trigger: BytesLike
-}
-
 const makeReport = (upkeeps: UpkeepData[]) => {
-  const upkeepIds = upkeeps.map((u) => u.Id)
-  const performGases = upkeeps.map((u) => u.performGas)
-  const triggers = upkeeps.map((u) => u.trigger)
-  const performDatas = upkeeps.map((u) => u.performData)
-  return encodeReport({
-    fastGasWei: gasWei,
-    pliUSD,
-    upkeepIds,
-    gasLimits: performGases,
-    triggers,
-    performDatas,
-  })
+  return buildReport(upkeeps, gasWei, pliUSD)
 }
 
 const makeLatestBlockReport = async (upkeepsIDs: BigNumberish[]) => {
@@ -268,30 +196,6 @@ const makeLatestBlockReport = async (upkeepsIDs: BigNumberish[]) => {
   return makeReport(upkeeps)
 }
 
-const signReport = (
-  reportContext: string[],
-  report: any,
-  signers: Wallet[],
-) => {
-  const reportDigest = ethers.utils.keccak256(report)
-  const packedArgs = ethers.utils.solidityPack(
-    ['bytes32', 'bytes32[3]'],
-    [reportDigest, reportContext],
-  )
-  const packedDigest = ethers.utils.keccak256(packedArgs)
-
-  const signatures = []
-  for (const signer of signers) {
-    signatures.push(signer._signingKey().signDigest(packedDigest))
-  }
-  const vs = signatures.map((i) => '0' + (i.v - 27).toString(16)).join('')
-  return {
-    vs: '0x' + vs.padEnd(64, '0'),
-    rs: signatures.map((i) => i.r),
-    ss: signatures.map((i) => i.s),
-  }
-}
-
 const parseUpkeepPerformedLogs = (receipt: ContractReceipt) => {
   const parsedLogs = []
   for (const rawLog of receipt.logs) {
@@ -408,9 +312,6 @@ describe('ZKSyncAutomationRegistry2_3', () => {
     )
     automationUtils = await compatibleUtilsFactory.deploy()
 
-    const utilsFactory = await ethers.getContractFactory('AutomationUtils2_3')
-    automationUtils2_3 = await utilsFactory.deploy()
-
     pliTokenFactory = await ethers.getContractFactory(
       'src/v0.8/shared/test/helpers/PliTokenTestHelper.sol:PliTokenTestHelper',
     )
@@ -759,7 +660,7 @@ describe('ZKSyncAutomationRegistry2_3', () => {
     }
 
     const report = makeReport(upkeeps)
-    const reportContext = [configDigest, epochAndRound5_1, emptyBytes32]
+    const reportContext = makeReportContext(configDigest)
     const sigs = signReport(
       reportContext,
       report,
@@ -769,28 +670,10 @@ describe('ZKSyncAutomationRegistry2_3', () => {
       ),
     )
 
-    type txOverride = {
-      gasLimit?: BigNumberish | Promise<BigNumberish>
-      gasPrice?: BigNumberish | Promise<BigNumberish>
-    }
-    const txOverrides: txOverride = {}
-    if (config.gasLimit) {
-      txOverrides.gasLimit = config.gasLimit
-    }
-    if (config.gasPrice) {
-      txOverrides.gasPrice = config.gasPrice
-    }
-
-    return registry
-      .connect(transmitter)
-      .transmit(
-        [configDigest, epochAndRound5_1, emptyBytes32],
-        report,
-        sigs.rs,
-        sigs.ss,
-        sigs.vs,
-        txOverrides,
-      )
+    return transmitSigned(registry, transmitter, reportContext, report, sigs, {
+      gasLimit: config.gasLimit,
+      gasPrice: config.gasPrice,
+    })
   }
 
   const getTransmitTxWithReport = async (
@@ -798,19 +681,12 @@ describe('ZKSyncAutomationRegistry2_3', () => {
     transmitter: Signer,
     report: BytesLike,
   ) => {
-    const configDigest = (await registry.getState()).state.latestConfigDigest
-    const reportContext = [configDigest, epochAndRound5_1, emptyBytes32]
-    const sigs = signReport(reportContext, report, signers.slice(0, f + 1))
-
-    return registry
-      .connect(transmitter)
-      .transmit(
-        [configDigest, epochAndRound5_1, emptyBytes32],
-        report,
-        sigs.rs,
-        sigs.ss,
-        sigs.vs,
-      )
+    return signAndTransmit(
+      registry,
+      transmitter,
+      report,
+      quorumSigners(signers, f),
+    )
   }
 
   const setup = async () => {
@@ -6,8 +6,7 @@ import { IKeeperRegistryMaster__factory as IKeeperRegistryMasterFactory } from '
 import { AutomationRegistryLogicB2_2__factory as AutomationRegistryLogicBFactory } from '../../../typechain/factories/AutomationRegistryLogicB2_2__factory'
 import { IAutomationRegistryMaster as IAutomationRegistry } from '../../../typechain/IAutomationRegistryMaster'
 import { IAutomationRegistryMaster__factory as IAutomationRegistryMasterFactory } from '../../../typechain/factories/IAutomationRegistryMaster__factory'
-import { assert } from 'chai'
-import { FunctionFragment } from '@ethersproject/abi'
+import { expectAbiConformance } from '../../test-helpers/abiConformance'
 import { AutomationRegistryLogicC2_3__factory as AutomationRegistryLogicC2_3Factory } from '../../../typechain/factories/AutomationRegistryLogicC2_3__factory'
 import { ZKSyncAutomationRegistryLogicC2_3__factory as ZKSyncAutomationRegistryLogicC2_3Factory } from '../../../typechain/factories/ZKSyncAutomationRegistryLogicC2_3__factory'
 import { IAutomationRegistryMaster2_3 as IAutomationRegistry2_3 } from '../../../typechain/IAutomationRegistryMaster2_3'
@@ -51,14 +50,7 @@ export const assertSatisfiesEvents = (
   contractABI: InterfaceABI,
   expectedABI: InterfaceABI,
 ) => {
-  const implementer = new ethers.utils.Interface(contractABI)
-  const expected = new ethers.utils.Interface(expectedABI)
-  for (const eventName in expected.events) {
-    assert.isDefined(
-      implementer.events[eventName],
-      `missing event: ${eventName}`,
-    )
-  }
+  expectAbiConformance(contractABI, expectedABI, { kinds: ['event'] })
 }
 
 export const entryID = (entry: Entry) => {
@@ -78,56 +70,31 @@ export const entryID = (entry: Entry) => {
   return ethers.utils.id(JSON.stringify(preimage))
 }
 
+// the version getters are pure in the master interfaces, bc the underlying contracts define constants
+// for these values and return them in these getters, but view in the interfaces they implement
+const versionGetters = [
+  'typeAndVersion()',
+  'upkeepVersion()',
+  'upkeepTranscoderVersion()',
+]
+
 export const assertSatisfiesInterface = (
   contractABI: InterfaceABI,
   expectedABI: InterfaceABI,
 ) => {
-  const implementer = new ethers.utils.Interface(contractABI)
-  const expected = new ethers.utils.Interface(expectedABI)
-  for (const functionName in expected.functions) {
-    assert.isDefined(
-      implementer.functions[functionName],
-      `missing function ${functionName}`,
-    )
-
-    // these are technically pure in those interfaces. but in the master interface, they are view functions
-    // bc the underlying contracts define constants for these values and return them in these getters
-    if (
-      functionName === 'typeAndVersion()' ||
-      functionName === 'upkeepVersion()' ||
-      functionName === 'upkeepTranscoderVersion()'
-    ) {
-      assert.equal(
-        implementer.functions[functionName].constant,
-        expected.functions[functionName].constant,
-        `property constant does not match for function ${functionName}`,
-      )
-      assert.equal(
-        implementer.functions[functionName].payable,
-        expected.functions[functionName].payable,
-        `property payable does not match for function ${functionName}`,
-      )
-      continue
-    }
-
-    // addFunds is a payable function starting from v2.3, skipping the stateMutability check
-    if (functionName === 'addFunds(uint256,uint96)') {
-      continue
-    }
-
-    const propertiesToMatch: (keyof FunctionFragment)[] = [
-      'constant',
-      'stateMutability',
-      'payable',
-    ]
-    for (const property of propertiesToMatch) {
-      assert.equal(
-        implementer.functions[functionName][property],
-        expected.functions[functionName][property],
-        `property ${property} does not match for function ${functionName}`,
-      )
-    }
-  }
+  expectAbiConformance(contractABI, expectedABI, {
+    kinds: ['function', 'error'],
+    mutability: [
+      { expected: 'view', actual: 'pure', functions: versionGetters },
+      { expected: 'pure', actual: 'view', functions: versionGetters },
+      // addFunds is a payable function starting from v2.3
+      {
+        expected: 'nonpayable',
+        actual: 'payable',
+        functions: ['addFunds(uint256,uint96)'],
+      },
+    ],
+  })
 }
 
 export const deployRegistry22 = async (
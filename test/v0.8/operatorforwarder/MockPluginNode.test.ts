@@ -0,0 +1,175 @@
+import { ethers } from 'hardhat'
+import { assert } from 'chai'
+import { Contract, ContractFactory } from 'ethers'
+import {
+  increaseTime5Minutes,
+  mineBlock,
+  toBytes32String,
+  toWei,
+} from '../../test-helpers/helpers'
+import { getUsers, Roles } from '../../test-helpers/setup'
+import { bigNumEquals } from '../../test-helpers/matchers'
+import {
+  authorizeForwarder,
+  MockPluginNode,
+} from '../../test-helpers/operatorNode'
+
+let basicConsumerFactory: ContractFactory
+let multiWordConsumerFactory: ContractFactory
+let operatorFactory: ContractFactory
+let forwarderFactory: ContractFactory
+let pliTokenFactory: ContractFactory
+
+let roles: Roles
+
+const specId =
+  '0x4c7b7ffb66b344fbaa64995af81e355a00000000000000000000000000000000'
+const paymentAmount = toWei('1')
+
+before(async () => {
+  roles = (await getUsers()).roles
+  basicConsumerFactory = await ethers.getContractFactory(
+    'src/v0.8/operatorforwarder/test/testhelpers/BasicConsumer.sol:BasicConsumer',
+  )
+  multiWordConsumerFactory = await ethers.getContractFactory(
+    'src/v0.8/operatorforwarder/test/testhelpers/MultiWordConsumer.sol:MultiWordConsumer',
+  )
+  operatorFactory = await ethers.getContractFactory(
+    'src/v0.8/operatorforwarder/Operator.sol:Operator',
+  )
+  forwarderFactory = await ethers.getContractFactory(
+    'src/v0.8/operatorforwarder/AuthorizedForwarder.sol:AuthorizedForwarder',
+  )
+  pliTokenFactory = await ethers.getContractFactory(
+    'src/v0.8/shared/test/helpers/PliTokenTestHelper.sol:PliTokenTestHelper',
+  )
+})
+
+describe('MockPluginNode', () => {
+  let pli: Contract
+  let operator: Contract
+  let forwarder: Contract
+  let basicConsumer: Contract
+  let multiWordConsumer: Contract
+  let node: MockPluginNode
+
+  beforeEach(async () => {
+    const owner = roles.defaultAccount
+    const ownerAddress = await owner.getAddress()
+    pli = await pliTokenFactory.connect(owner).deploy()
+    operator = await operatorFactory
+      .connect(owner)
+      .deploy(pli.address, ownerAddress)
+    forwarder = await forwarderFactory
+      .connect(owner)
+      .deploy(pli.address, ownerAddress, ethers.constants.AddressZero, '0x')
+    await authorizeForwarder(
+      operator,
+      forwarder,
+      await roles.oracleNode.getAddress(),
+    )
+
+    basicConsumer = await basicConsumerFactory
+      .connect(roles.consumer)
+      .deploy(pli.address, operator.address, specId)
+    multiWordConsumer = await multiWordConsumerFactory
+      .connect(roles.consumer)
+      .deploy(pli.address, operator.address, specId)
+    await pli.transfer(basicConsumer.address, paymentAmount)
+    await pli.transfer(multiWordConsumer.address, paymentAmount)
+
+    node = new MockPluginNode({
+      operator,
+      forwarder,
+      transmitter: roles.oracleNode,
+    })
+    // start watching after the setup
+    await node.poll()
+  })
+
+  it('fulfills single word requests through the forwarder', async () => {
+    node.addJob(specId, (_, params) => {
+      assert.deepEqual(params.path, ['USD'])
+      return { types: ['bytes32'], values: [toBytes32String('1000')] }
+    })
+    await basicConsumer.requestEthereumPrice('USD', paymentAmount)
+
+    const [tracked] = await node.poll()
+    assert.equal(tracked.status, 'fulfilled')
+    assert.equal(tracked.receipt?.to, forwarder.address)
+    assert.equal(await basicConsumer.getCurrentPrice(), toBytes32String('1000'))
+    bigNumEquals(paymentAmount, await operator.withdrawable())
+  })
+
+  it('fulfills multi word requests', async () => {
+    const price = ethers.utils.hexlify(ethers.utils.toUtf8Bytes('1000 USD'))
+    node.addJob(specId, () => ({
+      callback: multiWordConsumer.interface.getFunction('fulfillBytes'),
+      values: [price],
+    }))
+    await multiWordConsumer.requestEthereumPrice('USD', paymentAmount)
+
+    const [tracked] = await node.poll()
+    assert.equal(tracked.status, 'fulfilled')
+    assert.equal(tracked.request.dataVersion, 2)
+    assert.equal(await multiWordConsumer.getCurrentPrice(), price)
+  })
+
+  it('leaves requests without a job unhandled', async () => {
+    await basicConsumer.requestEthereumPrice('USD', paymentAmount)
+
+    const [tracked] = await node.poll()
+    assert.equal(tracked.status, 'unhandled')
+    assert.isUndefined(tracked.receipt)
+  })
+
+  it('records failures of the job handler', async () => {
+    node.addJob(specId, () => {
+      throw Error('data source unavailable')
+    })
+    await basicConsumer.requestEthereumPrice('USD', paymentAmount)
+
+    const [tracked] = await node.poll()
+    assert.equal(tracked.status, 'errored')
+    assert.equal(tracked.error?.message, 'data source unavailable')
+  })
+
+  it('lets requesters cancel declined requests once they expire', async () => {
+    node.addJob(specId, () => undefined)
+    await basicConsumer.requestEthereumPrice('USD', paymentAmount)
+    const [tracked] = await node.poll()
+    assert.equal(tracked.status, 'pending')
+    assert.isEmpty(await node.expiredRequests())
+
+    await increaseTime5Minutes(ethers.provider)
+    await mineBlock(ethers.provider)
+    const [expired] = await node.expiredRequests()
+    assert.equal(expired.request.requestId, tracked.request.requestId)
+
+    await basicConsumer.cancelRequest(
+      operator.address,
+      ...node.cancelParams(tracked.request.requestId),
+    )
+    await node.poll()
+    assert.equal(node.getRequest(tracked.request.requestId).status, 'cancelled')
+    bigNumEquals(paymentAmount, await pli.balanceOf(basicConsumer.address))
+    assert.isEmpty(await node.expiredRequests())
+  })
+
+  it('fulfills requests in the background until stopped', async () => {
+    node.addJob(specId, () => ({
+      types: ['bytes32'],
+      values: [toBytes32String('1000')],
+    }))
+    node.start(10)
+    try {
+      await basicConsumer.requestEthereumPrice('USD', paymentAmount)
+      for (let i = 0; i < 100 && !node.getRequests('fulfilled').length; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+      }
+    } finally {
+      await node.stop()
+    }
+    assert.lengthOf(node.getRequests('fulfilled'), 1)
+  })
+})
@@ -22,14 +22,21 @@ import { getUsers, Roles } from '../../test-helpers/setup'
 import { bigNumEquals, evmRevert } from '../../test-helpers/matchers'
 import {
   convertCancelByRequesterParams,
+  convertCallbackFulfill2Params,
   convertCancelParams,
   convertFufillParams,
   convertFulfill2Params,
   decodeRunRequest,
   encodeOracleRequest,
+  encodeMultiWordResponse,
   encodeRequestOracleData,
   RunRequest,
 } from '../../test-helpers/oracle'
+import { expectAbiConformance } from '../../test-helpers/abiConformance'
+import '../../test-helpers/chaiMatchers'
+import { GasRecorder } from '../../test-helpers/gasSnapshot'
+import { defaultSpecId, scenario } from '../../test-helpers/scenario'
+import { OperatorInterface__factory as OperatorInterfaceFactory } from '../../../typechain/factories/OperatorInterface__factory'
 
 let basicConsumerFactory: ContractFactory
 let multiWordConsumerFactory: ContractFactory
@@ -91,19 +98,18 @@ describe('Operator', () => {
   let forwarder2: Contract
   let owner: Signer
 
+  const gas = new GasRecorder('Operator', { relative: 0.01 })
+  after(() => gas.finish())
+
+  // an operator owned by roles.defaultAccount, with roles.oracleNode authorized
+  const setup = scenario().withPliToken().withOperator()
+
   beforeEach(async () => {
     fHash = getterSetterFactory.interface.getSighash('requestedBytes32')
-    specId =
-      '0x4c7b7ffb66b344fbaa64995af81e355a00000000000000000000000000000000'
+    specId = defaultSpecId
     to = '0x80e29acb842498fe6591f020bd82766dce619d43'
-    pli = await pliTokenFactory.connect(roles.defaultAccount).deploy()
+    ;({ pli, operator } = await setup.load())
     owner = roles.defaultAccount
-    operator = await operatorFactory
-      .connect(owner)
-      .deploy(pli.address, await owner.getAddress())
-    await operator
-      .connect(roles.defaultAccount)
-      .setAuthorizedSenders([await roles.oracleNode.getAddress()])
   })
 
   it('has a limited public interface [ @skip-coverage ]', () => {
@@ -137,6 +143,13 @@ describe('Operator', () => {
     ])
   })
 
+  it('conforms to OperatorInterface', () => {
+    expectAbiConformance(
+      operatorFactory.interface.fragments,
+      OperatorInterfaceFactory.abi,
+    )
+  })
+
   describe('#typeAndVersion', () => {
     it('describes the operator', async () => {
       assert.equal(await operator.typeAndVersion(), 'Operator 1.0.0')
@@ -817,6 +830,27 @@ describe('Operator', () => {
         bigNumEquals(paid, req.payment)
       })
 
+      it('emits the request and holds the payment', async () => {
+        const args2 = encodeOracleRequest(
+          specId,
+          to,
+          fHash,
+          2,
+          constants.HashZero,
+        )
+        const tx = await pli.transferAndCall(operator.address, paid, args2)
+        await expect(tx).to.emitOracleRequest({
+          specId,
+          requester: await roles.defaultAccount.getAddress(),
+          payment: paid,
+        })
+        await expect(tx).to.changePliBalances(
+          pli,
+          [operator, roles.defaultAccount],
+          [paid, -paid],
+        )
+      })
+
       it('uses the expected event signature', async () => {
         // If updating this test, be sure to update models.RunLogTopic.
         const eventSignature =
@@ -1541,10 +1575,12 @@ describe('Operator', () => {
               responseTypes,
               responseValues,
             )
-            const tx = await operator
-              .connect(roles.oracleNode)
-              .fulfillOracleRequest2(...fulfillParams)
-            const receipt = await tx.wait()
+            const receipt = await gas.record(
+              'fulfillOracleRequest2(single word)',
+              operator
+                .connect(roles.oracleNode)
+                .fulfillOracleRequest2(...fulfillParams),
+            )
             assert.equal(receipt.events?.length, 3)
             const responseEvent = receipt.events?.[0]
             assert.equal(responseEvent?.event, 'OracleResponse')
@@ -2159,10 +2195,12 @@ describe('Operator', () => {
                 responseTypes,
                 responseValues,
               )
-              const tx = await operator
-                .connect(roles.oracleNode)
-                .fulfillOracleRequest2(...fulfillParams)
-              const receipt = await tx.wait()
+              const receipt = await gas.record(
+                'fulfillOracleRequest2(multi word)',
+                operator
+                  .connect(roles.oracleNode)
+                  .fulfillOracleRequest2(...fulfillParams),
+              )
               assert.equal(receipt.events?.length, 3)
               const responseEvent = receipt.events?.[0]
               assert.equal(responseEvent?.event, 'OracleResponse')
@@ -2670,6 +2708,56 @@ describe('Operator', () => {
               )
             })
 
+            it('sets the values encoded for the callback fragment', async () => {
+              const callback = multiConsumer.interface.getFunction(
+                'fulfillMultipleParameters',
+              )
+              await operator
+                .connect(roles.oracleNode)
+                .fulfillOracleRequest2(
+                  ...convertCallbackFulfill2Params(
+                    request,
+                    callback,
+                    responseValues,
+                  ),
+                )
+
+              assert.equal(
+                response3,
+                ethers.utils.parseBytes32String(await multiConsumer.jpy()),
+              )
+            })
+
+            it('rejects responses encoded for the wrong callback off-chain', () => {
+              assert.throws(
+                () =>
+                  encodeMultiWordResponse(
+                    request,
+                    multiConsumer.interface.getFunction('fulfillBytes'),
+                    ['0x'],
+                  ),
+                /has selector 0x[0-9a-f]{8}, but request 0x[0-9a-f]{64} calls back/,
+              )
+              assert.throws(
+                () =>
+                  encodeMultiWordResponse(
+                    request,
+                    'fulfillMultipleParameters(uint256,bytes32,bytes32,bytes32)',
+                    responseValues,
+                  ),
+                'must take the bytes32 request ID as its first argument',
+              )
+              assert.throws(
+                () =>
+                  encodeMultiWordResponse(
+                    request,
+                    'fulfillMultipleParameters(bytes32,bytes32,bytes32,bytes32)',
+                    responseValues.slice(1),
+                  ),
+                'expects 3 response values, but got 2',
+              )
+            })
+
             it('emits an OracleResponse2 event', async () => {
               const fulfillParams = convertFulfill2Params(
                 request,
@@ -3433,7 +3521,7 @@ describe('Operator', () => {
         let receiverBalanceBefore: BigNumber
         let receiverBalanceAfter: BigNumber
 
-        before(async () => {
+        beforeEach(async () => {
           requesterBalanceBefore = await pli.balanceOf(operator.address)
           receiverBalanceBefore = await pli.balanceOf(operator2.address)
           tx = await operator